@@ -0,0 +1,151 @@
+import { existsSync, readFileSync } from 'fs';
+import { isAbsolute, join } from 'path';
+import { load } from 'js-yaml';
+import { z } from 'zod';
+import type {
+  CRDMetadata,
+  CatalogConfig,
+  CategoryDefinition,
+} from '../types/index.js';
+import { matchesPattern } from '../utils/helpers.js';
+
+export const CATALOG_FILE = 'crdmcp.config.yaml';
+
+export const DEFAULT_FOLDERS = {
+  crds: 'crds',
+  samples: 'samples',
+  instructions: 'instructions',
+};
+
+const folderPath = z
+  .string()
+  .min(1)
+  .refine((path) => !isAbsolute(path), {
+    message: 'Must be relative to the data directory',
+  });
+
+const patternList = z.array(z.string().min(1));
+
+const categorySchema = z
+  .object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    groups: patternList.optional(),
+    kinds: patternList.optional(),
+  })
+  .strict();
+
+export const catalogConfigSchema = z
+  .object({
+    name: z.string().min(1).optional(),
+    version: z.coerce.string().optional(),
+    paths: z
+      .object({
+        crds: folderPath.optional(),
+        samples: folderPath.optional(),
+        instructions: folderPath.optional(),
+      })
+      .strict()
+      .optional(),
+    categories: z.array(categorySchema).optional(),
+    defaultNamespace: z
+      .string()
+      .regex(/^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/, {
+        message: 'Must be a valid Kubernetes namespace name',
+      })
+      .optional(),
+    tools: z
+      .object({
+        enabled: z.array(z.string()).optional(),
+        disabled: z.array(z.string()).optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+/**
+ * Reads and validates `crdmcp.config.yaml` in a data directory. A missing
+ * file is not an error; problems are returned as messages naming the file and
+ * the offending key so they can be reported as validation errors.
+ */
+export function readCatalogConfig(dataDir: string): {
+  config?: CatalogConfig;
+  errors: string[];
+} {
+  const configPath = join(dataDir, CATALOG_FILE);
+  if (!existsSync(configPath)) {
+    return { errors: [] };
+  }
+
+  let content: unknown;
+  try {
+    content = load(readFileSync(configPath, 'utf8')) ?? {};
+  } catch (error) {
+    return {
+      errors: [
+        `Failed to parse ${CATALOG_FILE}: ${error instanceof Error ? error.message : String(error)}`,
+      ],
+    };
+  }
+
+  const result = catalogConfigSchema.safeParse(content);
+  if (!result.success) {
+    return {
+      errors: result.error.issues.map(
+        (issue) =>
+          `Invalid ${CATALOG_FILE}: ${issue.path.join('.') || '(root)'}: ${issue.message}`
+      ),
+    };
+  }
+
+  return { config: result.data, errors: [] };
+}
+
+/**
+ * Combines the configs of all layers, lowest precedence first. Later layers
+ * override scalar settings and tool lists; categories are merged by name.
+ */
+export function mergeCatalogConfigs(
+  configs: (CatalogConfig | undefined)[]
+): CatalogConfig | undefined {
+  const present = configs.filter((config): config is CatalogConfig =>
+    Boolean(config)
+  );
+  if (present.length === 0) {
+    return undefined;
+  }
+
+  const categories = new Map<string, CategoryDefinition>();
+  for (const config of present) {
+    config.categories?.forEach((category) =>
+      categories.set(category.name, category)
+    );
+  }
+
+  // Folder paths only make sense for the layer that declares them
+  const merged: CatalogConfig = Object.assign({}, ...present);
+  delete merged.paths;
+
+  return { ...merged, categories: Array.from(categories.values()) };
+}
+
+/**
+ * Name of the first declared category matching the CRD, if any. Categories
+ * without groups or kinds only describe a category and never match.
+ */
+export function categoryFor(
+  crd: Pick<CRDMetadata, 'group' | 'kind'>,
+  categories: CategoryDefinition[] = []
+): string | undefined {
+  const matches = (value: string, patterns?: string[]) =>
+    !patterns?.length ||
+    patterns.some((pattern) => matchesPattern(value, pattern));
+
+  return categories.find(
+    (category) =>
+      Boolean(category.groups?.length || category.kinds?.length) &&
+      matches(crd.group, category.groups) &&
+      matches(crd.kind, category.kinds)
+  )?.name;
+}
@@ -2,17 +2,28 @@ import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
 import { existsSync } from 'fs';
 import { resolve } from 'path';
-import type { ServerConfig } from '../types/index.js';
+import type { CatalogConfig, ServerConfig } from '../types/index.js';
+import { isGitSource } from '../loaders/git-source.js';
+import { DEFAULT_KUBECONFIG } from '../loaders/cluster-source.js';
+import { DEFAULT_FOLDERS, readCatalogConfig } from './catalog.js';
+import { HASH_PROVIDER } from '../search/semantic.js';
 
 /* eslint-env node */
 
 export function parseConfig(): ServerConfig {
   const argv = yargs(hideBin(process.argv))
     .option('data-dir', {
-      alias: 'd',
+      alias: ['d', 'data-source'],
       type: 'string',
+      array: true,
       demandOption: true,
-      description: 'Path to company CRD data directory',
+      description:
+        'Company CRD data directory or git+<url>#<ref> source; repeat to layer them, later ones take precedence',
+    })
+    .option('cache-dir', {
+      type: 'string',
+      description:
+        'Where git data sources are checked out and embeddings are cached (default: ~/.cache/crdmcp)',
     })
     .option('verbose', {
       alias: 'v',
@@ -23,27 +34,159 @@ export function parseConfig(): ServerConfig {
     .option('port', {
       alias: 'p',
       type: 'number',
-      description: 'MCP server port (if applicable)',
+      description: 'Port for the HTTP transport (default: 3000)',
+    })
+    .option('host', {
+      type: 'string',
+      description:
+        'Interface the HTTP transport binds to (default: 127.0.0.1); use 0.0.0.0 to accept remote clients',
+    })
+    .option('allowed-host', {
+      type: 'string',
+      array: true,
+      description:
+        'Extra host name clients may use to reach the HTTP transport, e.g. a DNS name when binding 0.0.0.0 (repeatable)',
+    })
+    .option('transport', {
+      alias: 't',
+      choices: ['stdio', 'http'] as const,
+      default: 'stdio' as const,
+      description:
+        'MCP transport: stdio for a single local client, http for a shared Streamable HTTP server',
+    })
+    .option('watch', {
+      alias: 'w',
+      type: 'boolean',
+      default: false,
+      description:
+        'Watch the data directory and reload changed files without restarting',
+    })
+    .option('plugin', {
+      type: 'string',
+      array: true,
+      description:
+        'ESM module or directory of modules exporting extra tools (repeatable)',
+    })
+    .option('include', {
+      type: 'string',
+      array: true,
+      description:
+        'Only load files matching these gitignore-style patterns, relative to the data directory (repeatable)',
+    })
+    .option('exclude', {
+      type: 'string',
+      array: true,
+      description:
+        'Skip files matching these gitignore-style patterns, in addition to .crdmcpignore (repeatable)',
+    })
+    .option('embeddings', {
+      type: 'string',
+      description:
+        'Enable semantic search over instructions with an embedding provider: "hash" or an ESM module exporting a provider',
+    })
+    .option('cluster', {
+      type: 'boolean',
+      default: false,
+      description:
+        'Import the CRDs installed in a cluster; they take precedence over data directories',
+    })
+    .option('kubeconfig', {
+      type: 'string',
+      description:
+        'Kubeconfig for --cluster (default: $KUBECONFIG or ~/.kube/config)',
+    })
+    .option('kube-context', {
+      type: 'string',
+      description:
+        'Kubeconfig context for --cluster (default: current-context)',
+    })
+    .option('include-group', {
+      type: 'string',
+      array: true,
+      description:
+        'Only import cluster CRDs whose API group matches, e.g. "*.example.com" (repeatable)',
+    })
+    .option('exclude-group', {
+      type: 'string',
+      array: true,
+      description: 'Skip cluster CRDs whose API group matches (repeatable)',
     })
     .help()
     .example(
       '$0 --data-dir ./company-crds --verbose',
       'Start server with company CRD data and verbose logging'
     )
+    .example(
+      '$0 --data-dir ./company-crds --transport http --port 3000',
+      'Serve one shared instance over Streamable HTTP on /mcp'
+    )
+    .example(
+      '$0 --data-dir ./platform-crds --data-dir ./team-crds',
+      'Layer team samples and guides over shared platform CRDs'
+    )
+    .example(
+      '$0 --data-source git+https://example.com/platform/crds.git#v1.4.0',
+      'Load a pinned revision of a CRD catalog from git'
+    )
+    .example(
+      '$0 --data-dir ./company-crds --cluster --kube-context prod --include-group "*.example.com"',
+      'Import the company CRDs installed in the prod cluster'
+    )
+    .example(
+      "$0 --data-dir ./company-crds --exclude 'crds/deprecated/' --exclude '*~'",
+      'Skip deprecated CRDs and editor backup files'
+    )
+    .example(
+      '$0 --data-dir ./company-crds --watch',
+      'Reload CRDs, samples and instructions as they are edited'
+    )
+    .example(
+      '$0 --data-dir ./company-crds --embeddings ./embeddings/minilm.js',
+      'Rank instruction sections by meaning with a local embedding model'
+    )
+    .example(
+      '$0 --data-dir ./company-crds --plugin ./tools/cost-estimator.js',
+      'Register company-specific tools alongside the built-in ones'
+    )
     .parseSync();
 
-  const dataDir = resolve(argv['data-dir']);
+  const dataDirs = argv['data-dir'].map((dir) =>
+    isGitSource(String(dir)) ? String(dir) : resolve(String(dir))
+  );
 
-  // Validate data directory exists
-  if (!existsSync(dataDir)) {
-    console.error(`❌ Data directory does not exist: ${dataDir}`);
-    process.exit(1);
+  // Validate local data directories exist; git sources are fetched at load
+  for (const dataDir of dataDirs) {
+    if (!isGitSource(dataDir) && !existsSync(dataDir)) {
+      console.error(`❌ Data directory does not exist: ${dataDir}`);
+      process.exit(1);
+    }
   }
 
   return {
-    dataDir,
+    dataDir: dataDirs[0],
+    dataDirs,
     verbose: argv.verbose,
     port: argv.port,
+    host: argv.host,
+    allowedHosts: argv['allowed-host'],
+    watch: argv.watch,
+    transport: argv.transport,
+    plugins: argv.plugin?.map((plugin) => resolve(plugin)),
+    cacheDir: argv['cache-dir'] && resolve(argv['cache-dir']),
+    include: argv.include,
+    exclude: argv.exclude,
+    embeddings:
+      argv.embeddings === HASH_PROVIDER || !argv.embeddings
+        ? argv.embeddings
+        : resolve(argv.embeddings),
+    cluster: argv.cluster
+      ? {
+          kubeconfig: resolve(argv.kubeconfig || DEFAULT_KUBECONFIG),
+          context: argv['kube-context'],
+          includeGroups: argv['include-group'],
+          excludeGroups: argv['exclude-group'],
+        }
+      : undefined,
   };
 }
 
@@ -51,19 +194,22 @@ export function validateDataDirectory(dataDir: string): {
   valid: boolean;
   warnings: string[];
   errors: string[];
+  config?: CatalogConfig;
 } {
   const warnings: string[] = [];
-  const errors: string[] = [];
-  let valid = true;
+  const { config, errors } = readCatalogConfig(dataDir);
+  const valid = errors.length === 0;
 
-  // Check for expected subdirectories
-  const expectedDirs = ['crds', 'samples', 'instructions'];
-  for (const dir of expectedDirs) {
+  // Check for expected subdirectories, wherever the config puts them
+  const folders = { ...DEFAULT_FOLDERS, ...config?.paths };
+  for (const dir of Object.values(folders)) {
     const fullPath = resolve(dataDir, dir);
     if (!existsSync(fullPath)) {
       warnings.push(`Missing optional directory: ${dir}`);
     }
   }
 
-  return { valid, warnings, errors };
+  return { valid, warnings, errors, config };
 }
+
+export * from './catalog.js';
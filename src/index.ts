@@ -1,13 +1,18 @@
-import {
-  McpServer,
-  ResourceTemplate,
-} from '@modelcontextprotocol/sdk/server/mcp.js';
+import { existsSync } from 'fs';
+import { resolve } from 'path';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { parseConfig } from './config/index.js';
-import { DataLoader } from './loaders/index.js';
-import { ToolRegistry } from './tools/index.js';
+import { DataLoader, DataWatcher } from './loaders/index.js';
+import {
+  DEFAULT_HTTP_HOST,
+  McpServerFactory,
+  startHttpTransport,
+} from './server/index.js';
+import { PluginLoader, ToolRegistry } from './tools/index.js';
 import { Logger } from './utils/logger.js';
 
+const DEFAULT_HTTP_PORT = 3000;
+
 async function main() {
   let logger: Logger;
 
@@ -25,6 +30,25 @@ async function main() {
 
     // Initialize tool registry
     const toolRegistry = new ToolRegistry(loadedData);
+
+    // Load plugin tools from each local <data-dir>/plugins and any --plugin
+    // paths. Git sources are remote content, so their plugins never run.
+    const pluginPaths = [
+      ...dataLoader.localDataDirectories
+        .map((dataDir) => resolve(dataDir, 'plugins'))
+        .filter((pluginDir) => existsSync(pluginDir)),
+      ...(config.plugins || []),
+    ];
+
+    if (pluginPaths.length > 0) {
+      const { errors } = await new PluginLoader(logger).loadPlugins(
+        pluginPaths,
+        toolRegistry,
+        loadedData
+      );
+      errors.forEach((error) => logger.warn(`Plugin error: ${error}`));
+    }
+
     const tools = toolRegistry.getToolDefinitions();
 
     logger.success(`🔧 Registered ${tools.length} tools`);
@@ -32,120 +56,50 @@ async function main() {
       logger.debug(`   - ${tool.name}: ${tool.description}`);
     });
 
-    // Create MCP server
-    const server = new McpServer({
-      name: 'crd-mcp-server',
-      version: '1.0.0',
-    });
+    // Create the MCP server factory; every connection shares the loaded data
+    const serverFactory = new McpServerFactory(
+      config,
+      loadedData,
+      toolRegistry,
+      logger
+    );
 
-    // Register all tools with the MCP server
-    for (const toolDef of tools) {
-      server.registerTool(
-        toolDef.name,
-        {
-          title: toolDef.name,
-          description: toolDef.description,
-          inputSchema: toolDef.inputSchema,
-        },
-        async (args: any) => {
-          logger.error(
-            `🔧 Executing tool: ${toolDef.name} with args:`,
-            JSON.stringify(args, null, 2)
-          );
-          const startTime = Date.now();
-
-          try {
-            const result = await toolRegistry.executeTool(toolDef.name, args);
-            logger.timing(`Tool ${toolDef.name}`, startTime);
-            logger.error(`🔧 Tool ${toolDef.name} result:`, {
-              success: result.success,
-              hasData: !!result.data,
-              error: result.error,
-            });
-
-            if (result.success) {
-              return {
-                content: [
-                  {
-                    type: 'text' as const,
-                    text: JSON.stringify(result.data, null, 2),
-                  },
-                ],
-              };
-            } else {
-              logger.error(
-                `🔧 Tool ${toolDef.name} returned error: ${result.error}`
-              );
-              return {
-                content: [
-                  {
-                    type: 'text' as const,
-                    text: `Error: ${result.error}${
-                      result.suggestions
-                        ? '\n\nSuggestions:\n' +
-                          result.suggestions
-                            .map((s: string) => `• ${s}`)
-                            .join('\n')
-                        : ''
-                    }`,
-                  },
-                ],
-              };
-            }
-          } catch (error) {
-            logger.error(`🔧 Tool ${toolDef.name} threw exception:`, error);
-            logger.error(
-              `🔧 Stack trace:`,
-              error instanceof Error ? error.stack : 'No stack trace'
-            );
-            return {
-              content: [
-                {
-                  type: 'text' as const,
-                  text: `Internal error executing ${toolDef.name}: ${
-                    error instanceof Error ? error.message : String(error)
-                  }`,
-                },
-              ],
-            };
-          }
-        }
+    if (config.watch) {
+      const watcher = new DataWatcher(
+        dataLoader.dataDirectories,
+        dataLoader,
+        logger,
+        ({ data }) => serverFactory.updateData(data)
       );
+      watcher.start();
     }
 
-    // Add a server status resource
-    server.registerResource(
-      'server-status',
-      new ResourceTemplate('crd-server://status', { list: undefined }),
-      {
-        title: 'Server Status',
-        description: 'Current server status and statistics',
-      },
-      async () => ({
-        contents: [
-          {
-            uri: 'crd-server://status',
-            text: JSON.stringify(
-              {
-                status: 'running',
-                dataDirectory: config.dataDir,
-                statistics: loadedData.statistics,
-                availableTools: tools.map((t) => t.name),
-                timestamp: new Date().toISOString(),
-              },
-              null,
-              2
-            ),
-          },
-        ],
-      })
-    );
-
     logger.success('✅ Server initialization completed');
     logger.error('📡 Starting MCP transport...');
+
+    if (config.transport === 'http') {
+      const port = config.port ?? DEFAULT_HTTP_PORT;
+      const httpTransport = await startHttpTransport(
+        serverFactory,
+        port,
+        logger,
+        { host: config.host, allowedHosts: config.allowedHosts }
+      );
+
+      const host = config.host || DEFAULT_HTTP_HOST;
+      logger.success(
+        `🎉 CRD MCP Server is listening on http://${host}:${httpTransport.port}/mcp`
+      );
+      logger.info(
+        `   Health check: http://${host}:${httpTransport.port}/health`
+      );
+      return;
+    }
+
     logger.error('📡 Waiting for MCP client connection...');
 
     // Start the server
+    const server = serverFactory.createServer();
     const transport = new StdioServerTransport();
 
     // Add connection event handlers for debugging
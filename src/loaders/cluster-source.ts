@@ -0,0 +1,361 @@
+import { execFile } from 'child_process';
+import { readFileSync } from 'fs';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { homedir } from 'os';
+import { dirname, join, resolve } from 'path';
+import { Buffer } from 'buffer';
+import { URL } from 'url';
+import { promisify } from 'util';
+import { load } from 'js-yaml';
+import type {
+  CRDDefinition,
+  CRDMetadata,
+  ClusterSourceConfig,
+  ClusterSourceInfo,
+  FileLoadResult,
+} from '../types/index.js';
+import { matchesPattern } from '../utils/helpers.js';
+import type { Logger } from '../utils/logger.js';
+import { CRDLoader } from './crd-loader.js';
+
+/* eslint-env node */
+
+const execFileAsync = promisify(execFile);
+
+const CRD_LIST_PATH = '/apis/apiextensions.k8s.io/v1/customresourcedefinitions';
+const PAGE_SIZE = 250;
+const REQUEST_TIMEOUT_MS = 30000;
+const MAX_CREDENTIAL_OUTPUT_BYTES = 1024 * 1024;
+
+export const DEFAULT_KUBECONFIG =
+  process.env.KUBECONFIG?.split(':')[0] || join(homedir(), '.kube', 'config');
+
+/** Everything needed to talk to the API server selected in a kubeconfig. */
+export interface ClusterConnection {
+  context: string;
+  server: string;
+  headers: Record<string, string>;
+  ca?: Buffer;
+  cert?: Buffer;
+  key?: Buffer;
+  insecureSkipTLSVerify: boolean;
+}
+
+interface NamedEntry<T> {
+  name: string;
+  [key: string]: T | string;
+}
+
+interface KubeconfigCluster {
+  server: string;
+  'certificate-authority'?: string;
+  'certificate-authority-data'?: string;
+  'insecure-skip-tls-verify'?: boolean;
+}
+
+interface KubeconfigUser {
+  token?: string;
+  tokenFile?: string;
+  username?: string;
+  password?: string;
+  'client-certificate'?: string;
+  'client-certificate-data'?: string;
+  'client-key'?: string;
+  'client-key-data'?: string;
+  exec?: {
+    command: string;
+    args?: string[];
+    env?: { name: string; value: string }[];
+    apiVersion?: string;
+  };
+}
+
+interface Kubeconfig {
+  'current-context'?: string;
+  clusters?: NamedEntry<KubeconfigCluster>[];
+  users?: NamedEntry<KubeconfigUser>[];
+  contexts?: NamedEntry<{ cluster: string; user?: string }>[];
+}
+
+interface CRDList {
+  items?: CRDDefinition[];
+  metadata?: { continue?: string };
+}
+
+/**
+ * Reads the cluster, credentials and TLS settings for a kubeconfig context.
+ * Supports bearer tokens, token files, client certificates, basic auth and
+ * exec credential plugins.
+ */
+export async function readKubeconfig(
+  kubeconfigPath: string,
+  contextName?: string,
+  timeoutMs = REQUEST_TIMEOUT_MS
+): Promise<ClusterConnection> {
+  const kubeconfig = load(readFileSync(kubeconfigPath, 'utf8')) as Kubeconfig;
+  const baseDir = dirname(kubeconfigPath);
+
+  const context = contextName || kubeconfig['current-context'];
+  if (!context) {
+    throw new Error(`No context given and ${kubeconfigPath} has none set`);
+  }
+
+  const contextEntry = findEntry(kubeconfig.contexts, 'context', context);
+  if (!contextEntry) {
+    throw new Error(`Context "${context}" not found in ${kubeconfigPath}`);
+  }
+
+  const cluster = findEntry(
+    kubeconfig.clusters,
+    'cluster',
+    contextEntry.cluster
+  );
+  if (!cluster?.server) {
+    throw new Error(
+      `Cluster "${contextEntry.cluster}" not found in ${kubeconfigPath}`
+    );
+  }
+
+  const user = contextEntry.user
+    ? findEntry(kubeconfig.users, 'user', contextEntry.user) || {}
+    : {};
+
+  const readData = (data?: string, file?: string): Buffer | undefined => {
+    if (data) return Buffer.from(data, 'base64');
+    if (file) return readFileSync(resolve(baseDir, file));
+    return undefined;
+  };
+
+  const headers: Record<string, string> = {};
+  const token = await resolveToken(user, baseDir, timeoutMs);
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  } else if (user.username && user.password) {
+    headers.Authorization = `Basic ${Buffer.from(`${user.username}:${user.password}`).toString('base64')}`;
+  }
+
+  return {
+    context,
+    server: cluster.server.replace(/\/+$/, ''),
+    headers,
+    ca: readData(
+      cluster['certificate-authority-data'],
+      cluster['certificate-authority']
+    ),
+    cert: readData(user['client-certificate-data'], user['client-certificate']),
+    key: readData(user['client-key-data'], user['client-key']),
+    insecureSkipTLSVerify: cluster['insecure-skip-tls-verify'] === true,
+  };
+}
+
+function findEntry<T>(
+  entries: NamedEntry<T>[] | undefined,
+  field: string,
+  name: string
+): T | undefined {
+  return entries?.find((entry) => entry.name === name)?.[field] as
+    | T
+    | undefined;
+}
+
+async function resolveToken(
+  user: KubeconfigUser,
+  baseDir: string,
+  timeoutMs: number
+): Promise<string | undefined> {
+  if (user.token) {
+    return user.token;
+  }
+
+  if (user.tokenFile) {
+    return readFileSync(resolve(baseDir, user.tokenFile), 'utf8').trim();
+  }
+
+  if (user.exec) {
+    const { command, args = [], env = [], apiVersion } = user.exec;
+    // Plugins waiting for an interactive login would block startup forever
+    const { stdout } = await execFileAsync(command, args, {
+      cwd: baseDir,
+      timeout: timeoutMs,
+      maxBuffer: MAX_CREDENTIAL_OUTPUT_BYTES,
+      env: {
+        ...process.env,
+        ...Object.fromEntries(env.map(({ name, value }) => [name, value])),
+        KUBERNETES_EXEC_INFO: JSON.stringify({
+          apiVersion,
+          kind: 'ExecCredential',
+          spec: { interactive: false },
+        }),
+      },
+    }).catch((error) => {
+      throw error?.killed
+        ? new Error(
+            `Credential plugin ${command} did not finish within ${timeoutMs}ms; log in with it interactively first`
+          )
+        : error;
+    });
+    const token = JSON.parse(stdout)?.status?.token;
+    if (!token) {
+      throw new Error(`Credential plugin ${command} did not return a token`);
+    }
+    return token;
+  }
+
+  return undefined;
+}
+
+/**
+ * Imports the CustomResourceDefinitions installed in a cluster, so the
+ * catalog matches what the API server actually serves. Each CRD becomes one
+ * entry keyed `cluster://<context>/<crd name>`.
+ */
+export class ClusterCRDSource {
+  private crdLoader: CRDLoader;
+
+  constructor(
+    private config: ClusterSourceConfig,
+    private logger: Logger
+  ) {
+    this.crdLoader = new CRDLoader(dirname(config.kubeconfig), logger);
+  }
+
+  async loadCRDs(): Promise<{
+    files: Map<string, FileLoadResult<CRDMetadata>>;
+    info: ClusterSourceInfo;
+  }> {
+    const startTime = Date.now();
+    const connection = await readKubeconfig(
+      this.config.kubeconfig,
+      this.config.context,
+      this.timeoutMs
+    );
+    const layer = `cluster://${connection.context}`;
+
+    this.logger.debug(
+      `Listing CRDs from ${connection.server} (context ${connection.context})`
+    );
+
+    const files = new Map<string, FileLoadResult<CRDMetadata>>();
+    for (const crd of await this.listCRDs(connection)) {
+      if (!this.isGroupIncluded(crd.spec?.group)) {
+        continue;
+      }
+
+      const source = `${layer}/${crd.metadata?.name || crd.spec.names?.kind}`;
+      files.set(source, this.crdLoader.parseDocuments([crd], source, layer));
+    }
+
+    this.logger.timing('Cluster CRD import', startTime);
+    this.logger.info(
+      `Imported ${files.size} CRDs from cluster context ${connection.context}`
+    );
+
+    return {
+      files,
+      info: {
+        context: connection.context,
+        server: connection.server,
+        crdsImported: files.size,
+      },
+    };
+  }
+
+  private isGroupIncluded(group: string | undefined): boolean {
+    if (!group) {
+      return false;
+    }
+
+    const { includeGroups = [], excludeGroups = [] } = this.config;
+    if (
+      includeGroups.length > 0 &&
+      !includeGroups.some((pattern) => matchesPattern(group, pattern))
+    ) {
+      return false;
+    }
+
+    return !excludeGroups.some((pattern) => matchesPattern(group, pattern));
+  }
+
+  private async listCRDs(
+    connection: ClusterConnection
+  ): Promise<CRDDefinition[]> {
+    const crds: CRDDefinition[] = [];
+    let continueToken: string | undefined;
+
+    do {
+      const url = new URL(`${connection.server}${CRD_LIST_PATH}`);
+      url.searchParams.set('limit', String(PAGE_SIZE));
+      if (continueToken) {
+        url.searchParams.set('continue', continueToken);
+      }
+
+      const page = (await this.get(connection, url)) as CRDList;
+      crds.push(...(page.items || []));
+      continueToken = page.metadata?.continue || undefined;
+    } while (continueToken);
+
+    return crds;
+  }
+
+  private get timeoutMs(): number {
+    return this.config.timeoutMs ?? REQUEST_TIMEOUT_MS;
+  }
+
+  private get(connection: ClusterConnection, url: URL): Promise<unknown> {
+    const request = url.protocol === 'https:' ? httpsRequest : httpRequest;
+
+    return new Promise((resolvePromise, reject) => {
+      const req = request(
+        url,
+        {
+          method: 'GET',
+          headers: { Accept: 'application/json', ...connection.headers },
+          ca: connection.ca,
+          cert: connection.cert,
+          key: connection.key,
+          rejectUnauthorized: !connection.insecureSkipTLSVerify,
+          timeout: this.timeoutMs,
+        },
+        (res) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => {
+            const body = Buffer.concat(chunks).toString('utf8');
+            const status = res.statusCode ?? 0;
+
+            if (status < 200 || status >= 300) {
+              reject(
+                new Error(
+                  `API server returned ${status} for ${url.pathname}: ${this.statusMessage(body)}`
+                )
+              );
+              return;
+            }
+
+            try {
+              resolvePromise(JSON.parse(body));
+            } catch {
+              reject(new Error(`API server returned invalid JSON`));
+            }
+          });
+        }
+      );
+
+      req.on('timeout', () =>
+        req.destroy(new Error(`Request to ${url.host} timed out`))
+      );
+      req.on('error', reject);
+      req.end();
+    });
+  }
+
+  // Kubernetes errors come back as a Status object with a message
+  private statusMessage(body: string): string {
+    try {
+      return JSON.parse(body)?.message || body;
+    } catch {
+      return body;
+    }
+  }
+}
@@ -1,85 +1,106 @@
-import { readFileSync } from 'fs';
-import { glob } from 'glob';
-import { loadAll } from 'js-yaml';
 import { resolve } from 'path';
-import type { CRDDefinition, CRDMetadata } from '../types/index.js';
-import {
-  generateResourceKey,
-  inferResourceCategory,
-  generateDescription,
-} from '../utils/helpers.js';
+import type {
+  CRDDefinition,
+  CRDMetadata,
+  CRDVersion,
+  CRDVersionInfo,
+  FileLoadResult,
+  PrinterColumn,
+} from '../types/index.js';
+import { generateResourceKey, generateDescription } from '../utils/helpers.js';
 import type { Logger } from '../utils/logger.js';
+import { FileFilter } from './file-filter.js';
+import { isChartArchive } from './helm-chart.js';
+import {
+  MANIFEST_FILE_PATTERN,
+  isManifestFile,
+  parseManifestDocuments,
+  readManifestFile,
+} from './manifest-file.js';
+import {
+  findPackageRoot,
+  findSourceFiles,
+  isPackageSource,
+  loadPackageDocuments,
+} from './package-source.js';
+
+function toVersionInfo(version: CRDVersion): CRDVersionInfo {
+  return {
+    name: version.name,
+    // Both flags are required in v1; v1beta1 served every listed version
+    served: version.served !== false,
+    storage: Boolean(version.storage),
+    ...(version.deprecated && { deprecated: true }),
+    ...(version.deprecationWarning && {
+      deprecationWarning: version.deprecationWarning,
+    }),
+  };
+}
+
+type RawPrinterColumn = Partial<PrinterColumn> & { JSONPath?: string };
+
+function toPrinterColumn(column: RawPrinterColumn): PrinterColumn {
+  return {
+    name: String(column.name),
+    type: String(column.type),
+    // apiextensions v1beta1 spelled it JSONPath
+    jsonPath: String(column.jsonPath ?? column.JSONPath),
+    ...(column.description && { description: column.description }),
+    ...(column.format && { format: column.format }),
+    ...(column.priority !== undefined && { priority: column.priority }),
+  };
+}
+
+/** Annotation or label that sets a CRD's category explicitly. */
+export const CATEGORY_ANNOTATION = 'crdmcp.io/category';
+
+/** Category of CRDs that declare none. */
+export const DEFAULT_CATEGORY = 'other';
+
+const GENERIC_CATEGORIES = ['all'];
 
 export class CRDLoader {
   constructor(
     private dataDir: string,
-    private logger: Logger
+    private logger: Logger,
+    private filter: FileFilter = new FileFilter(dataDir),
+    private folder = 'crds'
   ) {}
 
+  get directory(): string {
+    return resolve(this.dataDir, this.folder);
+  }
+
   async loadCRDs(): Promise<{
     crds: Map<string, CRDMetadata>;
     errors: string[];
     warnings: string[];
+    files: Map<string, FileLoadResult<CRDMetadata>>;
   }> {
     const startTime = Date.now();
-    const crds = new Map<string, CRDMetadata>();
-    const errors: string[] = [];
-    const warnings: string[] = [];
+    const files = new Map<string, FileLoadResult<CRDMetadata>>();
+    const scanErrors: string[] = [];
 
-    const crdDir = resolve(this.dataDir, 'crds');
-    this.logger.debug(`Loading CRDs from: ${crdDir}`);
+    this.logger.debug(`Loading CRDs from: ${this.directory}`);
 
     try {
       // Find all YAML files recursively
-      const files = await glob('**/*.{yml,yaml}', {
-        cwd: crdDir,
-        nodir: true,
-        absolute: true,
-      });
+      const filePaths = await this.findFiles();
 
-      this.logger.debug(`Found ${files.length} CRD files to process`);
+      this.logger.debug(`Found ${filePaths.length} CRD files to process`);
 
-      for (const filePath of files) {
-        try {
-          const fileContent = readFileSync(filePath, 'utf8');
-          const documents = loadAll(fileContent) as unknown[];
-
-          for (const doc of documents) {
-            if (!doc || typeof doc !== 'object') continue;
-
-            if (this.isCRDDocument(doc)) {
-              try {
-                const crdMetadata = this.extractCRDMetadata(doc, filePath);
-                const key = generateResourceKey(
-                  crdMetadata.group,
-                  crdMetadata.kind
-                );
-
-                if (crds.has(key)) {
-                  warnings.push(`Duplicate CRD found: ${key} (${filePath})`);
-                }
-
-                crds.set(key, crdMetadata);
-                this.logger.debug(`Loaded CRD: ${key} from ${filePath}`);
-              } catch (error) {
-                errors.push(
-                  `Failed to process CRD in ${filePath}: ${error instanceof Error ? error.message : String(error)}`
-                );
-              }
-            }
-          }
-        } catch (error) {
-          errors.push(
-            `Failed to read file ${filePath}: ${error instanceof Error ? error.message : String(error)}`
-          );
-        }
+      for (const filePath of filePaths) {
+        files.set(filePath, this.loadFile(filePath));
       }
     } catch (error) {
-      errors.push(
+      scanErrors.push(
         `Failed to scan CRD directory: ${error instanceof Error ? error.message : String(error)}`
       );
     }
 
+    const { crds, errors, warnings } = this.merge(files);
+    errors.push(...scanErrors);
+
     this.logger.timing('CRD loading', startTime);
     this.logger.info(`Loaded ${crds.size} CRDs`);
 
@@ -87,6 +108,110 @@ export class CRDLoader {
       this.logger.warn(`CRD loading had ${errors.length} errors`);
     }
 
+    return { crds, errors, warnings, files };
+  }
+
+  // Manifest files, Helm charts and kustomizations that are not ignored
+  async findFiles(cwd: string = this.directory): Promise<string[]> {
+    return this.filter.apply(await findSourceFiles(cwd, MANIFEST_FILE_PATTERN));
+  }
+
+  handles(filePath: string): boolean {
+    return (
+      (isManifestFile(filePath) || isChartArchive(filePath)) &&
+      this.filter.accepts(filePath)
+    );
+  }
+
+  // A file inside a chart or kustomization is reloaded through its package
+  sourceOf(path: string): string {
+    return findPackageRoot(path, this.directory) ?? path;
+  }
+
+  loadFile(filePath: string): FileLoadResult<CRDMetadata> {
+    if (isPackageSource(filePath)) {
+      return loadPackageDocuments(filePath, this.dataDir, (documents, source) =>
+        this.parseDocuments(documents, source)
+      );
+    }
+
+    try {
+      return this.parseDocuments(
+        parseManifestDocuments(readManifestFile(filePath), filePath),
+        filePath
+      );
+    } catch (error) {
+      return {
+        items: [],
+        errors: [
+          `Failed to read file ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+        ],
+        warnings: [],
+      };
+    }
+  }
+
+  /**
+   * Extracts CRD metadata from already parsed documents. `source` is recorded
+   * as the file path, so documents that did not come from a file (e.g. a
+   * cluster) can pass an identifier of their own.
+   */
+  parseDocuments(
+    documents: unknown[],
+    source: string,
+    layer: string = this.dataDir
+  ): FileLoadResult<CRDMetadata> {
+    const items: CRDMetadata[] = [];
+    const errors: string[] = [];
+
+    for (const doc of documents) {
+      if (!doc || typeof doc !== 'object') continue;
+
+      if (this.isCRDDocument(doc)) {
+        try {
+          items.push(this.extractCRDMetadata(doc, source, layer));
+        } catch (error) {
+          errors.push(
+            `Failed to process CRD in ${source}: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      }
+    }
+
+    return { items, errors, warnings: [] };
+  }
+
+  merge(files: Map<string, FileLoadResult<CRDMetadata>>): {
+    crds: Map<string, CRDMetadata>;
+    errors: string[];
+    warnings: string[];
+  } {
+    const crds = new Map<string, CRDMetadata>();
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    for (const [filePath, result] of files) {
+      errors.push(...result.errors);
+      warnings.push(...result.warnings);
+
+      for (const crdMetadata of result.items) {
+        const key = generateResourceKey(crdMetadata.group, crdMetadata.kind);
+
+        // A CRD from a higher data layer replaces the lower one silently
+        const existing = crds.get(key);
+        if (existing && existing.layer === crdMetadata.layer) {
+          warnings.push(`Duplicate CRD found: ${key} (${filePath})`);
+        } else if (existing) {
+          this.logger.debug(
+            `CRD ${key} from ${filePath} overrides ${existing.filePath}`
+          );
+        }
+
+        crds.set(key, crdMetadata);
+        this.logger.debug(`Loaded CRD: ${key} from ${filePath}`);
+      }
+    }
+
     return { crds, errors, warnings };
   }
 
@@ -115,10 +240,31 @@ export class CRDLoader {
 
   private extractCRDMetadata(
     crd: CRDDefinition,
-    filePath: string
+    filePath: string,
+    layer: string
   ): CRDMetadata {
     const { spec } = crd;
     const versions = spec.versions?.map((v) => v.name) || ['v1'];
+    const storageVersion = spec.versions?.find((v) => v.storage)?.name;
+    const versionDetails = spec.versions?.map(toVersionInfo);
+
+    // Keep each version's schema so tools can expose the real field tree
+    const schemas: Record<string, any> = {};
+    for (const version of spec.versions || []) {
+      if (version.schema?.openAPIV3Schema) {
+        schemas[version.name] = version.schema.openAPIV3Schema;
+      }
+    }
+
+    // v1beta1 CRDs declare one set of columns for all versions
+    const printerColumns: Record<string, PrinterColumn[]> = {};
+    for (const version of spec.versions || []) {
+      const columns =
+        version.additionalPrinterColumns ?? spec.additionalPrinterColumns;
+      if (Array.isArray(columns) && columns.length > 0) {
+        printerColumns[version.name] = columns.map(toPrinterColumn);
+      }
+    }
 
     const metadata: CRDMetadata = {
       group: spec.group,
@@ -128,9 +274,15 @@ export class CRDLoader {
       shortNames: spec.names.shortNames,
       scope: spec.scope,
       versions,
+      storageVersion,
+      versionDetails,
+      schemas,
       filePath,
+      layer,
       description: this.extractDescription(crd),
-      category: inferResourceCategory(spec.names.kind),
+      category: this.extractCategory(crd),
+      categories: spec.names.categories,
+      printerColumns,
     };
 
     return metadata;
@@ -152,4 +304,24 @@ export class CRDLoader {
     // Generate from kind name
     return generateDescription(crd.spec.names.kind);
   }
+
+  private extractCategory(crd: CRDDefinition): string {
+    // An explicit annotation or label wins over anything derived
+    const explicit =
+      crd.metadata?.annotations?.[CATEGORY_ANNOTATION] ??
+      crd.metadata?.labels?.[CATEGORY_ANNOTATION];
+    if (typeof explicit === 'string' && explicit.trim()) {
+      return explicit.trim();
+    }
+
+    // kubectl categories such as `all` say nothing about what a resource is
+    const declared = crd.spec.names.categories?.find(
+      (category) => !GENERIC_CATEGORIES.includes(category)
+    );
+    if (declared) {
+      return declared;
+    }
+
+    return DEFAULT_CATEGORY;
+  }
 }
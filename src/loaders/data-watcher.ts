@@ -0,0 +1,101 @@
+import { watch, type FSWatcher } from 'fs';
+import { resolve } from 'path';
+import { clearTimeout, setTimeout } from 'timers';
+import type { DataLoader, ReloadResult } from './index.js';
+import type { Logger } from '../utils/logger.js';
+
+/* eslint-env node */
+
+export class DataWatcher {
+  private watchers: FSWatcher[] = [];
+  private pending = new Set<string>();
+  private timer?: ReturnType<typeof setTimeout>;
+  private reloading: Promise<void> = Promise.resolve();
+
+  constructor(
+    private dataDirs: string[],
+    private dataLoader: DataLoader,
+    private logger: Logger,
+    private onReload: (result: ReloadResult) => void,
+    private debounceMs: number = 200
+  ) {}
+
+  start(): void {
+    if (this.watchers.length > 0) {
+      return;
+    }
+
+    // Watch each data directory whole so crds/, samples/ and instructions/
+    // are picked up even if they are created after startup
+    for (const dataDir of this.dataDirs) {
+      const watcher = watch(
+        dataDir,
+        { recursive: true },
+        (_event, filename) => {
+          if (filename) {
+            this.enqueue(resolve(dataDir, filename.toString()));
+          }
+        }
+      );
+
+      watcher.on('error', (error) => {
+        this.logger.error('Data directory watcher error:', error);
+      });
+
+      this.watchers.push(watcher);
+      this.logger.info(`👀 Watching ${dataDir} for changes`);
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    this.watchers.forEach((watcher) => watcher.close());
+    this.watchers = [];
+    this.pending.clear();
+
+    await this.reloading;
+  }
+
+  private enqueue(path: string): void {
+    this.pending.add(path);
+
+    // Editors often write a file in several steps; batch them into one reload
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.flush(), this.debounceMs);
+  }
+
+  private flush(): void {
+    this.timer = undefined;
+    const paths = Array.from(this.pending);
+    this.pending.clear();
+
+    if (paths.length === 0) {
+      return;
+    }
+
+    // Reloads run one after another so results are applied in order
+    this.reloading = this.reloading.then(async () => {
+      try {
+        const result = await this.dataLoader.reloadFiles(paths);
+        const { changed } = result;
+
+        if (!changed.crds && !changed.samples && !changed.instructions) {
+          return;
+        }
+
+        this.logger.info(
+          `🔄 Reloaded data after changes to ${paths.length} path(s)`
+        );
+        this.onReload(result);
+      } catch (error) {
+        this.logger.error('Failed to reload data:', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,185 @@
+import { existsSync, readFileSync } from 'fs';
+import { isAbsolute, join, relative, sep } from 'path';
+
+export const IGNORE_FILE = '.crdmcpignore';
+
+export interface FileFilterOptions {
+  include?: string[]; // only load files matching one of these
+  exclude?: string[];
+}
+
+interface IgnoreRule {
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+/**
+ * Decides which files below a data directory are loaded. Patterns use
+ * gitignore syntax and are relative to the data directory; they come from
+ * its `.crdmcpignore` file and the `--include`/`--exclude` options. Paths
+ * that were rejected are remembered so they can be counted in statistics.
+ */
+export class FileFilter {
+  private ignoreRules: IgnoreRule[] = [];
+  private includeRules: IgnoreRule[];
+  private excludeRules: IgnoreRule[];
+  private skipped = new Set<string>();
+
+  constructor(
+    private dataDir: string,
+    options: FileFilterOptions = {}
+  ) {
+    this.includeRules = parseRules(options.include || []);
+    this.excludeRules = parseRules(options.exclude || []);
+    this.reload();
+  }
+
+  get ignoreFile(): string {
+    return join(this.dataDir, IGNORE_FILE);
+  }
+
+  get skippedCount(): number {
+    return this.skipped.size;
+  }
+
+  /** Re-reads the ignore file, e.g. after it changed. */
+  reload(): void {
+    this.ignoreRules = existsSync(this.ignoreFile)
+      ? parseRules(readFileSync(this.ignoreFile, 'utf8').split(/\r?\n/))
+      : [];
+  }
+
+  accepts(filePath: string): boolean {
+    const relativePath = relative(this.dataDir, filePath).split(sep).join('/');
+
+    // Nothing outside the data directory is ever loaded
+    if (relativePath.startsWith('..') || isAbsolute(relativePath)) {
+      return false;
+    }
+
+    const accepted =
+      (this.includeRules.length === 0 ||
+        matchesAny(this.includeRules, relativePath)) &&
+      !matchesAny(this.ignoreRules, relativePath) &&
+      !matchesAny(this.excludeRules, relativePath);
+
+    if (accepted) {
+      this.skipped.delete(filePath);
+    } else {
+      this.skipped.add(filePath);
+    }
+
+    return accepted;
+  }
+
+  apply(filePaths: string[]): string[] {
+    return filePaths.filter((filePath) => this.accepts(filePath));
+  }
+
+  /** Forgets skipped paths at or below `path`, before it is rescanned. */
+  forget(path: string): void {
+    for (const skippedPath of this.skipped) {
+      if (skippedPath === path || skippedPath.startsWith(path + sep)) {
+        this.skipped.delete(skippedPath);
+      }
+    }
+  }
+}
+
+function parseRules(lines: string[]): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of lines) {
+    let pattern = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!pattern || pattern.startsWith('#')) {
+      continue;
+    }
+
+    const negate = pattern.startsWith('!');
+    if (negate) {
+      pattern = pattern.slice(1);
+    }
+    pattern = pattern.replace(/^\\(?=[#!])/, '');
+
+    const dirOnly = pattern.endsWith('/');
+    pattern = pattern.replace(/\/+$/, '');
+
+    // A slash anywhere but the end anchors the pattern to the data directory
+    const anchored = pattern.includes('/');
+    pattern = pattern.replace(/^\//, '');
+
+    const body = globToRegex(pattern);
+    rules.push({
+      regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`),
+      negate,
+      dirOnly,
+    });
+  }
+
+  return rules;
+}
+
+function globToRegex(pattern: string): string {
+  let regex = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      if (pattern[i + 2] === '/') {
+        regex += '(?:.*/)?';
+        i += 2;
+      } else {
+        regex += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      regex += '[^/]*';
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        regex += '\\[';
+      } else {
+        regex += `[${pattern.slice(i + 1, end).replace(/^!/, '^')}]`;
+        i = end;
+      }
+    } else if (char === '\\' && i + 1 < pattern.length) {
+      regex += `\\${pattern[++i]}`;
+    } else {
+      regex += char.replace(/[.+^${}()|\]\\]/g, '\\$&');
+    }
+  }
+
+  return regex;
+}
+
+/**
+ * gitignore semantics: the last matching rule wins, and a path is also
+ * matched when one of its parent directories is, so `crds/deprecated/`
+ * covers every file below it.
+ */
+function matchesAny(rules: IgnoreRule[], relativePath: string): boolean {
+  const segments = relativePath.split('/');
+
+  for (let depth = 1; depth <= segments.length; depth++) {
+    const path = segments.slice(0, depth).join('/');
+    const isDir = depth < segments.length;
+    let matched = false;
+
+    for (const rule of rules) {
+      if ((!rule.dirOnly || isDir) && rule.regex.test(path)) {
+        matched = !rule.negate;
+      }
+    }
+
+    // An excluded directory cannot have files re-included below it
+    if (matched) {
+      return true;
+    }
+  }
+
+  return false;
+}
@@ -0,0 +1,148 @@
+import { execFile } from 'child_process';
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { promisify } from 'util';
+import type { DataSourceInfo } from '../types/index.js';
+import type { Logger } from '../utils/logger.js';
+
+const execFileAsync = promisify(execFile);
+
+const GIT_SOURCE_PREFIX = 'git+';
+
+export const DEFAULT_CACHE_DIR = join(homedir(), '.cache', 'crdmcp');
+
+export interface GitSource {
+  url: string;
+  ref?: string;
+}
+
+export function isGitSource(spec: string): boolean {
+  return spec.startsWith(GIT_SOURCE_PREFIX);
+}
+
+/**
+ * Parses `git+<url>[#ref]`, e.g. `git+file:///srv/crds.git#v1.2.0` or
+ * `git+https://example.com/platform/crds.git#main`.
+ */
+export function parseGitSource(spec: string): GitSource {
+  if (!isGitSource(spec)) {
+    throw new Error(`Not a git data source: ${spec}`);
+  }
+
+  const withoutPrefix = spec.slice(GIT_SOURCE_PREFIX.length);
+  const hash = withoutPrefix.indexOf('#');
+  const url = hash === -1 ? withoutPrefix : withoutPrefix.slice(0, hash);
+  const ref = hash === -1 ? undefined : withoutPrefix.slice(hash + 1);
+
+  if (!url) {
+    throw new Error(`Git data source has no repository URL: ${spec}`);
+  }
+
+  return { url, ref: ref || undefined };
+}
+
+/**
+ * Checks git data sources out into a cache directory, one working copy per
+ * repository URL, pinned to the requested ref.
+ */
+export class GitSourceResolver {
+  constructor(
+    private cacheDir: string,
+    private logger: Logger
+  ) {}
+
+  async checkout(spec: string): Promise<DataSourceInfo> {
+    const { url, ref } = parseGitSource(spec);
+    const dataDir = join(
+      this.cacheDir,
+      createHash('sha256').update(url).digest('hex').slice(0, 16)
+    );
+
+    try {
+      if (!existsSync(join(dataDir, '.git'))) {
+        mkdirSync(dataDir, { recursive: true });
+        await this.git(dataDir, 'init', '--quiet');
+        await this.git(dataDir, 'remote', 'add', 'origin', url);
+      } else {
+        await this.git(dataDir, 'remote', 'set-url', 'origin', url);
+      }
+
+      this.logger.debug(`Fetching ${url} into ${dataDir}`);
+      await this.git(
+        dataDir,
+        'fetch',
+        '--quiet',
+        '--tags',
+        '--force',
+        'origin',
+        '+refs/heads/*:refs/remotes/origin/*'
+      );
+
+      const commit = await this.resolveRef(dataDir, ref);
+      await this.git(
+        dataDir,
+        'checkout',
+        '--quiet',
+        '--force',
+        '--detach',
+        commit
+      );
+      await this.git(dataDir, 'clean', '--quiet', '-fdx');
+
+      this.logger.info(
+        `📦 Checked out ${url}${ref ? `#${ref}` : ''} at ${commit.slice(0, 12)}`
+      );
+
+      return { dataDir, url, ref, commit };
+    } catch (error) {
+      throw new Error(
+        `Failed to load data source ${spec}: ${this.errorMessage(error)}`
+      );
+    }
+  }
+
+  private async resolveRef(dataDir: string, ref?: string): Promise<string> {
+    if (!ref) {
+      // No ref pins the remote's default branch
+      await this.git(dataDir, 'fetch', '--quiet', 'origin', 'HEAD');
+      return this.git(dataDir, 'rev-parse', 'FETCH_HEAD^{commit}');
+    }
+
+    // Branches first, then tags, then anything git can resolve (e.g. a SHA)
+    for (const candidate of [
+      `refs/remotes/origin/${ref}`,
+      `refs/tags/${ref}`,
+      ref,
+    ]) {
+      try {
+        return await this.git(
+          dataDir,
+          'rev-parse',
+          '--verify',
+          '--quiet',
+          `${candidate}^{commit}`
+        );
+      } catch {
+        // Try the next candidate
+      }
+    }
+
+    throw new Error(`ref "${ref}" was not found`);
+  }
+
+  private async git(cwd: string, ...args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, { cwd });
+    return stdout.trim();
+  }
+
+  private errorMessage(error: unknown): string {
+    const stderr = (error as { stderr?: string })?.stderr?.trim();
+    if (stderr) {
+      return stderr;
+    }
+
+    return error instanceof Error ? error.message : String(error);
+  }
+}
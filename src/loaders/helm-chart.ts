@@ -0,0 +1,261 @@
+import { readFileSync } from 'fs';
+import { globSync } from 'glob';
+import { load } from 'js-yaml';
+import { join, posix } from 'path';
+import { Buffer } from 'buffer';
+import { gunzipSync } from 'zlib';
+import { deepMerge } from '../utils/helpers.js';
+import { renderTemplate } from './helm-template.js';
+import { decodeManifest, isManifestFile } from './manifest-file.js';
+
+const TAR_BLOCK_SIZE = 512;
+const TEMPLATE_PATTERN = /\.ya?ml$/i;
+
+// Placeholder release used for the values-free render
+const RELEASE = {
+  Name: 'release-name',
+  Namespace: 'default',
+  Service: 'Helm',
+  IsInstall: true,
+  IsUpgrade: false,
+  Revision: 1,
+};
+
+/** A manifest file produced from a package, with where it came from. */
+export interface PackageFile {
+  source: string;
+  content: string;
+}
+
+export interface PackageContents {
+  files: PackageFile[];
+  errors: string[];
+  warnings: string[];
+}
+
+// Chart files keyed by path relative to the chart root
+type ChartFiles = Map<string, Buffer>;
+
+export function isChartArchive(filePath: string): boolean {
+  return /\.(tgz|tar\.gz)$/i.test(filePath);
+}
+
+/**
+ * Reads the manifests a chart would install with its default values: every
+ * file in `crds/` as-is, templates rendered where the template syntax is
+ * supported, and the same for bundled subcharts. Templates that cannot be
+ * rendered are skipped with a warning.
+ *
+ * An archive without a Chart.yaml is read as a plain bundle of manifest
+ * files.
+ */
+export function loadChart(chartPath: string): PackageContents {
+  if (!isChartArchive(chartPath)) {
+    return renderChart(readChartDirectory(chartPath), chartPath);
+  }
+
+  const entries = readTar(gunzipSync(readFileSync(chartPath)));
+  const chart = chartFiles(entries);
+  if (chart) {
+    return renderChart(chart, chartPath);
+  }
+
+  return {
+    files: [...entries.keys()]
+      .filter((path) => isManifestFile(path))
+      .sort()
+      .map((path) => ({
+        source: `${chartPath}/${path}`,
+        content: decodeManifest(entries.get(path)!, path),
+      })),
+    errors: [],
+    warnings: [],
+  };
+}
+
+function renderChart(
+  files: ChartFiles,
+  source: string,
+  parentValues?: unknown
+): PackageContents {
+  const contents: PackageContents = { files: [], errors: [], warnings: [] };
+  const text = (path: string) => files.get(path)?.toString('utf8');
+
+  const chartYaml = text('Chart.yaml');
+  if (chartYaml === undefined) {
+    contents.errors.push(`Chart ${source} has no Chart.yaml`);
+    return contents;
+  }
+
+  const chart = (load(chartYaml) || {}) as Record<string, unknown>;
+  const values = deepMerge(
+    load(text('values.yaml') || '') || {},
+    parentValues ?? {}
+  ) as Record<string, unknown>;
+  const context = {
+    Values: values,
+    Release: RELEASE,
+    Chart: {
+      Name: chart.name,
+      Version: chart.version,
+      AppVersion: chart.appVersion,
+    },
+    Capabilities: { KubeVersion: { Version: 'v1.30.0' } },
+  };
+
+  for (const [path, data] of [...files].sort(([a], [b]) =>
+    a.localeCompare(b)
+  )) {
+    const fileSource = `${source}/${path}`;
+
+    if (path.startsWith('crds/') && isManifestFile(path)) {
+      contents.files.push({
+        source: fileSource,
+        content: decodeManifest(data, path),
+      });
+    } else if (
+      path.startsWith('templates/') &&
+      TEMPLATE_PATTERN.test(path) &&
+      !posix.basename(path).startsWith('_')
+    ) {
+      try {
+        contents.files.push({
+          source: fileSource,
+          content: renderTemplate(data.toString(), {
+            ...context,
+            Template: { Name: path },
+          }),
+        });
+      } catch (error) {
+        contents.warnings.push(
+          `Skipped template ${fileSource}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  }
+
+  for (const [name, subchart] of findSubcharts(files)) {
+    const rendered = renderChart(
+      subchart,
+      `${source}/charts/${name}`,
+      values[name]
+    );
+    contents.files.push(...rendered.files);
+    contents.errors.push(...rendered.errors);
+    contents.warnings.push(...rendered.warnings);
+  }
+
+  return contents;
+}
+
+function findSubcharts(files: ChartFiles): Map<string, ChartFiles> {
+  const subcharts = new Map<string, ChartFiles>();
+
+  for (const [path, data] of files) {
+    const match = path.match(/^charts\/([^/]+)\/(.+)$/);
+    if (match) {
+      const [, name, subPath] = match;
+      if (!subcharts.has(name)) subcharts.set(name, new Map());
+      subcharts.get(name)!.set(subPath, data);
+    } else if (/^charts\/[^/]+$/.test(path) && isChartArchive(path)) {
+      const archived = chartFiles(readTar(gunzipSync(data)));
+      if (archived) subcharts.set(path, archived);
+    }
+  }
+
+  // Values are scoped by chart name; directories that are not charts are
+  // left alone
+  const byName = new Map<string, ChartFiles>();
+  for (const [key, subchart] of subcharts) {
+    const chartYaml = subchart.get('Chart.yaml');
+    if (chartYaml) {
+      const { name } = (load(chartYaml.toString()) || {}) as { name?: string };
+      byName.set(name || key, subchart);
+    }
+  }
+
+  return byName;
+}
+
+function readChartDirectory(chartDir: string): ChartFiles {
+  const files: ChartFiles = new Map();
+
+  for (const path of globSync('**/*', { cwd: chartDir, nodir: true })) {
+    files.set(path.split('\\').join('/'), readFileSync(join(chartDir, path)));
+  }
+
+  return files;
+}
+
+/**
+ * Returns the chart in an archive's entries, if there is one. Helm archives
+ * contain a single top-level directory named after the chart, which is
+ * stripped from the paths.
+ */
+function chartFiles(entries: Map<string, Buffer>): ChartFiles | undefined {
+  if (entries.has('Chart.yaml')) {
+    return entries;
+  }
+
+  const [top] = [...entries.keys()].map((path) => path.split('/')[0]);
+  const prefix = `${top}/`;
+  if (
+    !entries.has(`${prefix}Chart.yaml`) ||
+    [...entries.keys()].some((path) => !path.startsWith(prefix))
+  ) {
+    return undefined;
+  }
+
+  return new Map(
+    [...entries].map(([path, data]) => [path.slice(prefix.length), data])
+  );
+}
+
+// Minimal ustar reader: regular files, GNU long names and pax paths
+function readTar(tar: Buffer): Map<string, Buffer> {
+  const entries = new Map<string, Buffer>();
+  const field = (block: Buffer, start: number, length: number) =>
+    block
+      .subarray(start, start + length)
+      .toString('utf8')
+      .replace(/\0[\s\S]*$/, '');
+
+  let offset = 0;
+  let longName: string | undefined;
+
+  while (offset + TAR_BLOCK_SIZE <= tar.length) {
+    const header = tar.subarray(offset, offset + TAR_BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+
+    const size = parseInt(field(header, 124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(header[156]);
+    const data = tar.subarray(
+      offset + TAR_BLOCK_SIZE,
+      offset + TAR_BLOCK_SIZE + size
+    );
+    offset +=
+      TAR_BLOCK_SIZE + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+
+    if (type === 'L') {
+      longName = data.toString('utf8').replace(/\0[\s\S]*$/, '');
+    } else if (type === 'x') {
+      longName = data.toString('utf8').match(/^\d+ path=(.*)$/m)?.[1];
+    } else if (type === '0' || type === '\0') {
+      // Only POSIX ustar headers carry a path prefix
+      const prefix =
+        field(header, 257, 6) === 'ustar' ? field(header, 345, 155) : '';
+      const name = field(header, 0, 100);
+      entries.set(
+        longName ?? (prefix ? `${prefix}/${name}` : name),
+        Buffer.from(data)
+      );
+      longName = undefined;
+    } else {
+      longName = undefined;
+    }
+  }
+
+  return entries;
+}
@@ -0,0 +1,236 @@
+import { dump } from 'js-yaml';
+
+// Matches `{{ ... }}` actions with optional `{{- ` / ` -}}` whitespace trimming
+const ACTION_PATTERN = /\{\{(-\s)?([\s\S]*?)(\s-)?\}\}/g;
+
+const UNSUPPORTED_ACTIONS = [
+  'range',
+  'with',
+  'define',
+  'template',
+  'block',
+  'break',
+  'continue',
+];
+
+export class UnsupportedTemplateError extends Error {}
+
+type TemplateFunction = (...args: unknown[]) => unknown;
+
+const str = (value: unknown): string =>
+  value === undefined || value === null ? '' : String(value);
+
+const FUNCTIONS: Record<string, TemplateFunction> = {
+  default: (fallback, value) => (isTruthy(value) ? value : fallback),
+  quote: (...values) => values.map((v) => JSON.stringify(str(v))).join(' '),
+  squote: (...values) => values.map((v) => `'${str(v)}'`).join(' '),
+  lower: (value) => str(value).toLowerCase(),
+  upper: (value) => str(value).toUpperCase(),
+  trim: (value) => str(value).trim(),
+  toString: (value: unknown) => str(value),
+  trunc: (length, value) => str(value).slice(0, Number(length)),
+  trimSuffix: (suffix, value) =>
+    str(value).endsWith(str(suffix))
+      ? str(value).slice(0, -str(suffix).length || undefined)
+      : str(value),
+  trimPrefix: (prefix, value) =>
+    str(value).startsWith(str(prefix))
+      ? str(value).slice(str(prefix).length)
+      : str(value),
+  not: (value) => !isTruthy(value),
+  eq: (a, b) => a === b,
+  ne: (a, b) => a !== b,
+  and: (...values) => values.find((v) => !isTruthy(v)) ?? values.at(-1),
+  or: (...values) => values.find((v) => isTruthy(v)) ?? values.at(-1),
+  toYaml: (value) =>
+    value === undefined || value === null ? '' : dump(value).trimEnd(),
+  indent: (spaces, value) => indent(str(value), Number(spaces)),
+  nindent: (spaces, value) => `\n${indent(str(value), Number(spaces))}`,
+  required: (message, value) => {
+    if (!isTruthy(value)) {
+      throw new UnsupportedTemplateError(`required value: ${str(message)}`);
+    }
+    return value;
+  },
+};
+
+/**
+ * Renders the subset of Helm's Go templates that CRD and sample templates
+ * commonly use: value lookups, `if`/`else`/`end` and a handful of Sprig
+ * functions. Anything else (range, include, variables, ...) throws an
+ * UnsupportedTemplateError so the caller can skip the template.
+ */
+export function renderTemplate(
+  template: string,
+  context: Record<string, unknown>
+): string {
+  const output: string[] = [];
+  const conditions: { parentActive: boolean; taken: boolean }[] = [];
+  let active = true;
+  let trimNext = false;
+  let last = 0;
+
+  const emitText = (text: string, trimEnd: boolean) => {
+    if (trimNext) text = text.replace(/^\s+/, '');
+    if (trimEnd) text = text.replace(/\s+$/, '');
+    if (active) output.push(text);
+  };
+
+  for (const match of template.matchAll(ACTION_PATTERN)) {
+    emitText(template.slice(last, match.index), Boolean(match[1]));
+    trimNext = Boolean(match[3]);
+    last = match.index! + match[0].length;
+
+    const action = match[2].trim();
+    const [keyword] = action.split(/\s+/, 1);
+    const rest = action.slice(keyword.length).trim();
+
+    if (action.startsWith('/*')) {
+      continue;
+    }
+
+    if (keyword === 'if') {
+      const taken: boolean =
+        active && isTruthy(evaluatePipeline(rest, context));
+      conditions.push({ parentActive: active, taken });
+      active = taken;
+    } else if (keyword === 'else') {
+      const condition = conditions.at(-1);
+      if (!condition) {
+        throw new UnsupportedTemplateError('{{ else }} without {{ if }}');
+      }
+
+      const elseIf = rest.startsWith('if ');
+      active =
+        condition.parentActive &&
+        !condition.taken &&
+        (!elseIf || isTruthy(evaluatePipeline(rest.slice(3), context)));
+      condition.taken ||= active;
+    } else if (keyword === 'end') {
+      const condition = conditions.pop();
+      if (!condition) {
+        throw new UnsupportedTemplateError('{{ end }} without {{ if }}');
+      }
+      active = condition.parentActive;
+    } else if (UNSUPPORTED_ACTIONS.includes(keyword)) {
+      throw new UnsupportedTemplateError(`{{ ${keyword} }} is not supported`);
+    } else if (active) {
+      output.push(format(evaluatePipeline(action, context)));
+    }
+  }
+
+  emitText(template.slice(last), false);
+
+  if (conditions.length > 0) {
+    throw new UnsupportedTemplateError('{{ if }} without {{ end }}');
+  }
+
+  return output.join('');
+}
+
+export function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (value && typeof value === 'object') return Object.keys(value).length > 0;
+  return Boolean(value);
+}
+
+function evaluatePipeline(
+  expression: string,
+  context: Record<string, unknown>
+): unknown {
+  if (/[()]/.test(expression) || expression.includes(':=')) {
+    throw new UnsupportedTemplateError(
+      `"${expression}" uses sub-expressions or variables`
+    );
+  }
+
+  let value: unknown;
+  splitOutsideQuotes(expression, '|').forEach((command, index) => {
+    const [head, ...args] = splitOutsideQuotes(command.trim(), ' ').filter(
+      Boolean
+    );
+    const fn = FUNCTIONS[head];
+
+    if (fn) {
+      const argValues = args.map((arg) => evaluateArgument(arg, context));
+      // The previous command's result is passed as the last argument
+      value = index > 0 ? fn(...argValues, value) : fn(...argValues);
+    } else if (index === 0 && args.length === 0) {
+      value = evaluateArgument(head, context);
+    } else {
+      throw new UnsupportedTemplateError(`function "${head}" is not supported`);
+    }
+  });
+
+  return value;
+}
+
+function evaluateArgument(
+  token: string,
+  context: Record<string, unknown>
+): unknown {
+  if (token.startsWith('"')) return JSON.parse(token);
+  if (token.startsWith('`')) return token.slice(1, -1);
+  if (/^-?\d+(\.\d+)?$/.test(token)) return Number(token);
+  if (token === 'true' || token === 'false') return token === 'true';
+  if (token === 'nil') return undefined;
+
+  if (token.startsWith('.') || token.startsWith('$')) {
+    return token
+      .replace(/^\$/, '')
+      .split('.')
+      .filter(Boolean)
+      .reduce<unknown>(
+        (current, key) =>
+          current && typeof current === 'object'
+            ? (current as Record<string, unknown>)[key]
+            : undefined,
+        context
+      );
+  }
+
+  throw new UnsupportedTemplateError(`function "${token}" is not supported`);
+}
+
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | undefined;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        current += char + (text[++i] ?? '');
+        continue;
+      }
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === '`') {
+      quote = char;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+
+    current += char;
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+function format(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function indent(text: string, spaces: number): string {
+  const padding = ' '.repeat(spaces);
+  return text
+    .split('\n')
+    .map((line) => padding + line)
+    .join('\n');
+}
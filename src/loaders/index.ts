@@ -1,50 +1,398 @@
 import { CRDLoader } from './crd-loader.js';
 import { SampleLoader } from './sample-loader.js';
 import { InstructionLoader } from './instruction-loader.js';
-import type { LoadedData, ServerConfig } from '../types/index.js';
+import { existsSync, statSync } from 'fs';
+import { relative, sep } from 'path';
+import type {
+  CRDMetadata,
+  CatalogConfig,
+  ClusterSourceInfo,
+  DataSourceInfo,
+  FileLoadResult,
+  InstructionDocument,
+  LoadedData,
+  SampleManifest,
+  ServerConfig,
+} from '../types/index.js';
 import { Logger } from '../utils/logger.js';
-import { validateDataDirectory } from '../config/index.js';
+import {
+  DEFAULT_FOLDERS,
+  categoryFor,
+  mergeCatalogConfigs,
+  readCatalogConfig,
+  validateDataDirectory,
+} from '../config/index.js';
+import {
+  DEFAULT_CACHE_DIR,
+  GitSourceResolver,
+  isGitSource,
+} from './git-source.js';
+import { ClusterCRDSource } from './cluster-source.js';
+import { FileFilter } from './file-filter.js';
+import { SearchIndex } from '../search/index.js';
+import {
+  EmbeddingCache,
+  SemanticIndex,
+  createEmbeddingProvider,
+} from '../search/semantic.js';
 
+export interface ReloadResult {
+  data: LoadedData;
+  changed: {
+    crds: boolean;
+    samples: boolean;
+    instructions: boolean;
+  };
+}
+
+interface DataLayer {
+  dataDir: string;
+  filter: FileFilter;
+  catalog?: CatalogConfig;
+  crdLoader: CRDLoader;
+  sampleLoader: SampleLoader;
+  instructionLoader: InstructionLoader;
+}
+
+type LayerLoader<T> = {
+  directory: string;
+  handles(filePath: string): boolean;
+  loadFile(filePath: string): FileLoadResult<T>;
+  findFiles(cwd?: string): Promise<string[]>;
+  sourceOf?(path: string): string;
+};
+
+export function getDataDirectories(config: ServerConfig): string[] {
+  return config.dataDirs?.length ? config.dataDirs : [config.dataDir];
+}
+
+/**
+ * Loads CRDs, samples and instructions from one or more data directories.
+ * Layers are applied in order: a file in a later layer replaces the file with
+ * the same relative path in an earlier one, and a later CRD replaces an
+ * earlier one with the same group/kind.
+ */
 export class DataLoader {
   private logger: Logger;
+  private layers: DataLayer[] = [];
+  private sources: DataSourceInfo[] = [];
+  private cluster?: ClusterSourceInfo;
+
+  // Per-file results, kept so that a single changed file can be reloaded
+  private crdFiles = new Map<string, FileLoadResult<CRDMetadata>>();
+  private sampleFiles = new Map<string, FileLoadResult<SampleManifest>>();
+  private instructionFiles = new Map<
+    string,
+    FileLoadResult<InstructionDocument>
+  >();
+  // CRDs imported from a cluster; they take precedence over every layer
+  private clusterFiles = new Map<string, FileLoadResult<CRDMetadata>>();
+  // Instruction embeddings with --embeddings, rebuilt when instructions change
+  private embeddingCache?: EmbeddingCache;
+  private semanticIndex?: SemanticIndex;
 
   constructor(private config: ServerConfig) {
     this.logger = new Logger(config.verbose);
+
+    // Git sources are only known once checked out in loadAllData
+    const specs = getDataDirectories(config);
+    if (!specs.some(isGitSource)) {
+      this.layers = specs.map((dataDir) => this.createLayer(dataDir));
+    }
+  }
+
+  get dataDirectories(): string[] {
+    return this.layers.map((layer) => layer.dataDir);
+  }
+
+  /** Layers given as local directories, i.e. not checked out from git. */
+  get localDataDirectories(): string[] {
+    const checkouts = new Set(this.sources.map((source) => source.dataDir));
+    return this.dataDirectories.filter((dataDir) => !checkouts.has(dataDir));
   }
 
   async loadAllData(): Promise<LoadedData> {
     const startTime = Date.now();
-    this.logger.info(`🚀 Loading data from: ${this.config.dataDir}`);
+
+    if (getDataDirectories(this.config).some(isGitSource)) {
+      await this.resolveSources();
+    }
+
+    this.logger.info(
+      `🚀 Loading data from: ${this.dataDirectories.join(', ')}`
+    );
 
     // Validate data directory structure
-    const validation = validateDataDirectory(this.config.dataDir);
+    for (const { dataDir } of this.layers) {
+      const validation = validateDataDirectory(dataDir);
+      const prefix = this.layers.length > 1 ? `${dataDir}: ` : '';
+
+      validation.warnings.forEach((warning) =>
+        this.logger.warn(`${prefix}${warning}`)
+      );
+
+      if (!validation.valid) {
+        validation.errors.forEach((error) =>
+          this.logger.error(`${prefix}${error}`)
+        );
+        throw new Error('Data directory validation failed');
+      }
+    }
+
+    // Load all data in parallel
+    this.logger.debug('Starting parallel data loading...');
+
+    const results = await Promise.all(
+      this.layers.map((layer) =>
+        Promise.all([
+          layer.crdLoader.loadCRDs(),
+          layer.sampleLoader.loadSamples(),
+          layer.instructionLoader.loadInstructions(),
+        ])
+      )
+    );
 
-    if (validation.warnings.length > 0) {
-      validation.warnings.forEach((warning) => this.logger.warn(warning));
+    this.crdFiles = new Map();
+    this.sampleFiles = new Map();
+    this.instructionFiles = new Map();
+    const scanErrors: string[] = [];
+
+    for (const [crdResult, sampleResult, instructionResult] of results) {
+      crdResult.files.forEach((r, f) => this.crdFiles.set(f, r));
+      sampleResult.files.forEach((r, f) => this.sampleFiles.set(f, r));
+      instructionResult.files.forEach((r, f) =>
+        this.instructionFiles.set(f, r)
+      );
+
+      // Directory scan failures are not tied to a file, keep them as-is
+      scanErrors.push(
+        ...this.scanErrors(crdResult.errors, crdResult.files),
+        ...this.scanErrors(sampleResult.errors, sampleResult.files),
+        ...this.scanErrors(instructionResult.errors, instructionResult.files)
+      );
     }
 
-    if (!validation.valid) {
-      validation.errors.forEach((error) => this.logger.error(error));
-      throw new Error('Data directory validation failed');
+    if (this.config.cluster) {
+      await this.loadClusterCRDs(scanErrors);
     }
 
-    // Initialize loaders
-    const crdLoader = new CRDLoader(this.config.dataDir, this.logger);
-    const sampleLoader = new SampleLoader(this.config.dataDir, this.logger);
-    const instructionLoader = new InstructionLoader(
-      this.config.dataDir,
+    const loadedData = this.mergeLayers(Date.now() - startTime);
+    loadedData.statistics.errors.push(...scanErrors);
+    await this.attachSemanticIndex(loadedData, true);
+
+    // Log final statistics
+    this.logLoadingStatistics(loadedData);
+
+    return loadedData;
+  }
+
+  /**
+   * Re-reads only the given paths (files or directories, added, changed or
+   * removed) and returns a freshly assembled LoadedData. The previous
+   * LoadedData object is left untouched so callers can swap it atomically.
+   */
+  async reloadFiles(paths: string[]): Promise<ReloadResult> {
+    const startTime = Date.now();
+    const changed = { crds: false, samples: false, instructions: false };
+
+    for (const path of new Set(paths)) {
+      for (const layer of this.layers) {
+        let targets = [path];
+        if (path === layer.filter.ignoreFile) {
+          // A changed ignore file can add or drop files anywhere in the layer
+          layer.filter.reload();
+          targets = [
+            layer.crdLoader.directory,
+            layer.sampleLoader.directory,
+            layer.instructionLoader.directory,
+          ];
+        }
+
+        for (const target of targets) {
+          layer.filter.forget(target);
+
+          if (this.isWithin(target, layer.crdLoader.directory)) {
+            await this.reloadPath(target, layer.crdLoader, this.crdFiles);
+            changed.crds = true;
+          } else if (this.isWithin(target, layer.sampleLoader.directory)) {
+            await this.reloadPath(target, layer.sampleLoader, this.sampleFiles);
+            changed.samples = true;
+          } else if (this.isWithin(target, layer.instructionLoader.directory)) {
+            await this.reloadPath(
+              target,
+              layer.instructionLoader,
+              this.instructionFiles
+            );
+            changed.instructions = true;
+          }
+        }
+      }
+    }
+
+    const data = this.mergeLayers(Date.now() - startTime);
+    await this.attachSemanticIndex(data, changed.instructions);
+
+    this.logger.debug(
+      `Reloaded ${paths.length} path(s) in ${data.statistics.loadTime}ms`
+    );
+
+    return { data, changed };
+  }
+
+  private createLayer(dataDir: string): DataLayer {
+    // One filter per layer, shared so skipped files are counted once
+    const filter = new FileFilter(dataDir, {
+      include: this.config.include,
+      exclude: this.config.exclude,
+    });
+
+    // An invalid config is reported by validateDataDirectory in loadAllData
+    const { config: catalog } = readCatalogConfig(dataDir);
+    const folders = { ...DEFAULT_FOLDERS, ...catalog?.paths };
+
+    return {
+      dataDir,
+      filter,
+      catalog,
+      crdLoader: new CRDLoader(dataDir, this.logger, filter, folders.crds),
+      sampleLoader: new SampleLoader(
+        dataDir,
+        this.logger,
+        filter,
+        folders.samples
+      ),
+      instructionLoader: new InstructionLoader(
+        dataDir,
+        this.logger,
+        filter,
+        folders.instructions
+      ),
+    };
+  }
+
+  private async resolveSources(): Promise<void> {
+    const resolver = new GitSourceResolver(
+      this.config.cacheDir || DEFAULT_CACHE_DIR,
       this.logger
     );
+    const layers: DataLayer[] = [];
+    const sources: DataSourceInfo[] = [];
 
-    // Load all data in parallel
-    this.logger.debug('Starting parallel data loading...');
+    for (const spec of getDataDirectories(this.config)) {
+      if (isGitSource(spec)) {
+        const source = await resolver.checkout(spec);
+        sources.push(source);
+        layers.push(this.createLayer(source.dataDir));
+      } else {
+        layers.push(this.createLayer(spec));
+      }
+    }
+
+    this.layers = layers;
+    this.sources = sources;
+  }
+
+  private async loadClusterCRDs(errors: string[]): Promise<void> {
+    try {
+      const { files, info } = await new ClusterCRDSource(
+        this.config.cluster!,
+        this.logger
+      ).loadCRDs();
+      this.clusterFiles = files;
+      this.cluster = info;
+    } catch (error) {
+      this.clusterFiles = new Map();
+      this.cluster = undefined;
+      errors.push(
+        `Failed to import CRDs from cluster: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
 
-    const [crdResult, sampleResult, instructionResult] = await Promise.all([
-      crdLoader.loadCRDs(),
-      sampleLoader.loadSamples(),
-      instructionLoader.loadInstructions(),
-    ]);
+  private mergeLayers(loadTime: number): LoadedData {
+    // Every layer's loader merges the same way, so the base layer's is used
+    const [base] = this.layers;
 
+    return this.buildLoadedData(
+      base.crdLoader.merge(
+        new Map([
+          ...this.applyOverrides(this.crdFiles, (l) => l.crdLoader.directory),
+          ...this.clusterFiles,
+        ])
+      ),
+      base.sampleLoader.merge(
+        this.applyOverrides(this.sampleFiles, (l) => l.sampleLoader.directory)
+      ),
+      base.instructionLoader.merge(
+        this.applyOverrides(
+          this.instructionFiles,
+          (l) => l.instructionLoader.directory
+        )
+      ),
+      loadTime
+    );
+  }
+
+  /**
+   * Orders per-file results by layer and drops files shadowed by a file with
+   * the same relative path in a later layer.
+   */
+  private applyOverrides<T>(
+    files: Map<string, FileLoadResult<T>>,
+    directoryOf: (layer: DataLayer) => string
+  ): Map<string, FileLoadResult<T>> {
+    const byRelativePath = new Map<string, [string, FileLoadResult<T>]>();
+
+    for (const layer of this.layers) {
+      const directory = directoryOf(layer);
+
+      for (const [filePath, result] of files) {
+        if (!this.isWithin(filePath, directory)) {
+          continue;
+        }
+
+        const relativePath = relative(directory, filePath);
+        const shadowed = byRelativePath.get(relativePath);
+        if (shadowed) {
+          this.logger.debug(`${filePath} overrides ${shadowed[0]}`);
+          byRelativePath.delete(relativePath);
+        }
+
+        byRelativePath.set(relativePath, [filePath, result]);
+      }
+    }
+
+    return new Map(byRelativePath.values());
+  }
+
+  private scanErrors<T>(
+    errors: string[],
+    files: Map<string, FileLoadResult<T>>
+  ): string[] {
+    const fileErrors = new Set(
+      Array.from(files.values()).flatMap((result) => result.errors)
+    );
+    return errors.filter((error) => !fileErrors.has(error));
+  }
+
+  private buildLoadedData(
+    crdResult: {
+      crds: Map<string, CRDMetadata>;
+      errors: string[];
+      warnings: string[];
+    },
+    sampleResult: {
+      samples: Map<string, SampleManifest[]>;
+      errors: string[];
+      warnings: string[];
+    },
+    instructionResult: {
+      instructions: InstructionDocument[];
+      errors: string[];
+      warnings: string[];
+    },
+    loadTime: number
+  ): LoadedData {
     // Compile results
     const allErrors = [
       ...crdResult.errors,
@@ -58,12 +406,21 @@ export class DataLoader {
       ...instructionResult.warnings,
     ];
 
-    const loadTime = Date.now() - startTime;
+    const catalog = mergeCatalogConfigs(
+      this.layers.map((layer) => layer.catalog)
+    );
 
-    const loadedData: LoadedData = {
-      crds: crdResult.crds,
+    const crds = this.applyCategories(crdResult.crds, catalog);
+    const data = {
+      crds,
       samples: sampleResult.samples,
       instructions: instructionResult.instructions,
+    };
+
+    return {
+      ...data,
+      ...(catalog && { catalog }),
+      searchIndex: new SearchIndex(data),
       statistics: {
         crdsLoaded: crdResult.crds.size,
         samplesLoaded: Array.from(sampleResult.samples.values()).reduce(
@@ -72,26 +429,139 @@ export class DataLoader {
         ),
         instructionsLoaded: instructionResult.instructions.length,
         loadTime,
+        layers: this.dataDirectories,
+        filesSkipped: this.layers.reduce(
+          (sum, layer) => sum + layer.filter.skippedCount,
+          0
+        ),
+        ...(this.sources.length > 0 && { sources: this.sources }),
+        ...(this.cluster && { cluster: this.cluster }),
         errors: allErrors,
         warnings: allWarnings,
       },
     };
+  }
 
-    // Log final statistics
-    this.logLoadingStatistics(loadedData);
+  /**
+   * Embeds the instruction chunks when --embeddings is set; chunks already in
+   * the cache are not embedded again. A failing provider disables semantic
+   * search instead of failing the load.
+   */
+  private async attachSemanticIndex(
+    data: LoadedData,
+    rebuild: boolean
+  ): Promise<void> {
+    if (!this.config.embeddings) {
+      return;
+    }
 
-    return loadedData;
+    try {
+      if (rebuild || !this.semanticIndex) {
+        if (!this.embeddingCache) {
+          const provider = await createEmbeddingProvider(
+            this.config.embeddings
+          );
+          this.embeddingCache = new EmbeddingCache(
+            provider,
+            EmbeddingCache.fileFor(
+              this.config.cacheDir || DEFAULT_CACHE_DIR,
+              provider
+            )
+          );
+        }
+        this.semanticIndex = await SemanticIndex.build(
+          data.instructions,
+          this.embeddingCache
+        );
+      }
+      data.semanticIndex = this.semanticIndex;
+    } catch (error) {
+      this.semanticIndex = undefined;
+      data.statistics.errors.push(
+        `Failed to build semantic index: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /** Categories declared in crdmcp.config.yaml win over inferred ones. */
+  private applyCategories(
+    crds: Map<string, CRDMetadata>,
+    catalog?: CatalogConfig
+  ): Map<string, CRDMetadata> {
+    if (!catalog?.categories?.length) {
+      return crds;
+    }
+
+    return new Map(
+      Array.from(crds, ([key, crd]) => {
+        const category = categoryFor(crd, catalog.categories);
+        return [key, category ? { ...crd, category } : crd];
+      })
+    );
+  }
+
+  private async reloadPath<T>(
+    path: string,
+    loader: LayerLoader<T>,
+    files: Map<string, FileLoadResult<T>>
+  ): Promise<void> {
+    // Files inside a chart or kustomization are reloaded with the package,
+    // including one that was loaded as a package before this change
+    path = loader.sourceOf?.(path) ?? path;
+    for (const filePath of files.keys()) {
+      if (filePath !== path && this.isWithin(path, filePath)) {
+        path = filePath;
+      }
+    }
+
+    // Drop everything previously loaded from this path (or below it)
+    for (const filePath of Array.from(files.keys())) {
+      if (this.isWithin(filePath, path)) {
+        files.delete(filePath);
+      }
+    }
+
+    if (!existsSync(path)) {
+      return;
+    }
+
+    if (statSync(path).isDirectory()) {
+      for (const filePath of await loader.findFiles(path)) {
+        files.set(filePath, loader.loadFile(filePath));
+      }
+    } else if (loader.handles(path)) {
+      files.set(path, loader.loadFile(path));
+    }
+  }
+
+  private isWithin(path: string, directory: string): boolean {
+    return path === directory || path.startsWith(directory + sep);
   }
 
   private logLoadingStatistics(data: LoadedData): void {
     const { statistics } = data;
 
     this.logger.success('📊 Data loading completed!');
+    if (data.catalog?.name) {
+      this.logger.info(
+        `   Catalog: ${[data.catalog.name, data.catalog.version].filter(Boolean).join(' ')}`
+      );
+    }
     this.logger.info(`   CRDs: ${statistics.crdsLoaded}`);
     this.logger.info(`   Samples: ${statistics.samplesLoaded}`);
     this.logger.info(`   Instructions: ${statistics.instructionsLoaded}`);
     this.logger.info(`   Load time: ${statistics.loadTime}ms`);
 
+    if (data.semanticIndex) {
+      this.logger.info(
+        `   Embedded sections: ${data.semanticIndex.size} (${data.semanticIndex.providerId})`
+      );
+    }
+
+    if (statistics.filesSkipped) {
+      this.logger.info(`   Files skipped: ${statistics.filesSkipped}`);
+    }
+
     if (statistics.errors.length > 0) {
       this.logger.warn(`   Errors: ${statistics.errors.length}`);
       if (this.config.verbose) {
@@ -115,10 +585,21 @@ export class DataLoader {
 export * from './crd-loader.js';
 export * from './sample-loader.js';
 export * from './instruction-loader.js';
+export * from './data-watcher.js';
+export * from './git-source.js';
+export * from './cluster-source.js';
+export * from './file-filter.js';
+export * from './helm-chart.js';
+export * from './manifest-file.js';
+export * from './package-source.js';
 
-export async function loadAllData(dataDir: string): Promise<LoadedData> {
+export async function loadAllData(
+  dataDir: string | string[]
+): Promise<LoadedData> {
+  const dataDirs = Array.isArray(dataDir) ? dataDir : [dataDir];
   const config: ServerConfig = {
-    dataDir,
+    dataDir: dataDirs[0],
+    dataDirs,
     verbose: false,
   };
   const loader = new DataLoader(config);
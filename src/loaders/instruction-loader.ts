@@ -2,66 +2,61 @@ import { readFileSync } from 'fs';
 import { glob } from 'glob';
 import { resolve, basename } from 'path';
 import matter from 'gray-matter';
-import type { InstructionDocument } from '../types/index.js';
+import type { FileLoadResult, InstructionDocument } from '../types/index.js';
 import {
   extractTagsFromContent,
   generateDescription,
 } from '../utils/helpers.js';
 import type { Logger } from '../utils/logger.js';
+import { parseSections } from '../utils/markdown.js';
+import { FileFilter } from './file-filter.js';
+
+const INSTRUCTION_FILE_PATTERN = '**/*.{md,txt,markdown}';
 
 export class InstructionLoader {
   constructor(
     private dataDir: string,
-    private logger: Logger
+    private logger: Logger,
+    private filter: FileFilter = new FileFilter(dataDir),
+    private folder = 'instructions'
   ) {}
 
+  get directory(): string {
+    return resolve(this.dataDir, this.folder);
+  }
+
   async loadInstructions(): Promise<{
     instructions: InstructionDocument[];
     errors: string[];
     warnings: string[];
+    files: Map<string, FileLoadResult<InstructionDocument>>;
   }> {
     const startTime = Date.now();
-    const instructions: InstructionDocument[] = [];
-    const errors: string[] = [];
-    const warnings: string[] = [];
+    const files = new Map<string, FileLoadResult<InstructionDocument>>();
+    const scanErrors: string[] = [];
 
-    const instructionDir = resolve(this.dataDir, 'instructions');
-    this.logger.debug(`Loading instructions from: ${instructionDir}`);
+    this.logger.debug(`Loading instructions from: ${this.directory}`);
 
     try {
       // Find all markdown and text files recursively
-      const files = await glob('**/*.{md,txt,markdown}', {
-        cwd: instructionDir,
-        nodir: true,
-        absolute: true,
-      });
+      const filePaths = await this.findFiles();
 
-      this.logger.debug(`Found ${files.length} instruction files to process`);
-
-      for (const filePath of files) {
-        try {
-          const fileContent = readFileSync(filePath, 'utf8');
-          const instruction = this.createInstructionDocument(
-            fileContent,
-            filePath
-          );
-
-          instructions.push(instruction);
-          this.logger.debug(
-            `Loaded instruction: ${instruction.title} from ${filePath}`
-          );
-        } catch (error) {
-          errors.push(
-            `Failed to read instruction file ${filePath}: ${error instanceof Error ? error.message : String(error)}`
-          );
-        }
+      this.logger.debug(
+        `Found ${filePaths.length} instruction files to process`
+      );
+
+      for (const filePath of filePaths) {
+        files.set(filePath, this.loadFile(filePath));
       }
     } catch (error) {
-      errors.push(
+      scanErrors.push(
         `Failed to scan instructions directory: ${error instanceof Error ? error.message : String(error)}`
       );
     }
 
+    const { instructions, errors, warnings } = this.merge(files);
+    errors.push(...scanErrors);
+
     this.logger.timing('Instruction loading', startTime);
     this.logger.info(`Loaded ${instructions.length} instruction documents`);
 
@@ -69,6 +64,63 @@ export class InstructionLoader {
       this.logger.warn(`Instruction loading had ${errors.length} errors`);
     }
 
+    return { instructions, errors, warnings, files };
+  }
+
+  async findFiles(cwd: string = this.directory): Promise<string[]> {
+    return this.filter.apply(
+      await glob(INSTRUCTION_FILE_PATTERN, {
+        cwd,
+        nodir: true,
+        absolute: true,
+      })
+    );
+  }
+
+  handles(filePath: string): boolean {
+    return (
+      /\.(md|txt|markdown)$/i.test(filePath) && this.filter.accepts(filePath)
+    );
+  }
+
+  loadFile(filePath: string): FileLoadResult<InstructionDocument> {
+    try {
+      const fileContent = readFileSync(filePath, 'utf8');
+      const instruction = this.createInstructionDocument(fileContent, filePath);
+
+      return { items: [instruction], errors: [], warnings: [] };
+    } catch (error) {
+      return {
+        items: [],
+        errors: [
+          `Failed to read instruction file ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+        ],
+        warnings: [],
+      };
+    }
+  }
+
+  merge(files: Map<string, FileLoadResult<InstructionDocument>>): {
+    instructions: InstructionDocument[];
+    errors: string[];
+    warnings: string[];
+  } {
+    const instructions: InstructionDocument[] = [];
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    for (const [filePath, result] of files) {
+      errors.push(...result.errors);
+      warnings.push(...result.warnings);
+
+      for (const instruction of result.items) {
+        instructions.push(instruction);
+        this.logger.debug(
+          `Loaded instruction: ${instruction.title} from ${filePath}`
+        );
+      }
+    }
+
     return { instructions, errors, warnings };
   }
 
@@ -94,9 +146,11 @@ export class InstructionLoader {
       title,
       content,
       filePath,
+      layer: this.dataDir,
       frontmatter,
       detectedCRDs,
       tags,
+      sections: parseSections(content),
     };
   }
 
@@ -0,0 +1,90 @@
+import { readFileSync } from 'fs';
+import { basename } from 'path';
+import { Buffer } from 'buffer';
+import { gunzipSync } from 'zlib';
+import { load, loadAll } from 'js-yaml';
+import { splitYamlDocuments } from '../utils/yaml.js';
+
+/** Manifest files the CRD and sample loaders read: YAML or JSON, optionally gzipped. */
+export const MANIFEST_FILE_PATTERN =
+  '**/*.{yml,yaml,json,yml.gz,yaml.gz,json.gz}';
+
+const MANIFEST_FILE_REGEX = /\.(ya?ml|json)(\.gz)?$/i;
+
+export function isManifestFile(filePath: string): boolean {
+  return MANIFEST_FILE_REGEX.test(filePath);
+}
+
+/** File name without the manifest extensions, e.g. `crds.json.gz` -> `crds`. */
+export function manifestBaseName(filePath: string): string {
+  return basename(filePath).replace(MANIFEST_FILE_REGEX, '');
+}
+
+export function readManifestFile(filePath: string): string {
+  return decodeManifest(readFileSync(filePath), filePath);
+}
+
+export function decodeManifest(data: Buffer, filePath: string): string {
+  return (
+    /\.gz$/i.test(filePath) ? gunzipSync(data) : Buffer.from(data)
+  ).toString('utf8');
+}
+
+/**
+ * Parses the documents in a manifest file. JSON files may hold a single
+ * object or an array; YAML files may hold several documents. `List` objects
+ * (`kind: List`, `CustomResourceDefinitionList`, ...) are replaced by their
+ * items.
+ */
+export function parseManifestDocuments(
+  content: string,
+  filePath: string
+): unknown[] {
+  const isJson = /\.json(\.gz)?$/i.test(filePath);
+  const parsed = isJson ? JSON.parse(content) : loadAll(content);
+
+  return unwrapLists(Array.isArray(parsed) ? parsed : [parsed]);
+}
+
+/**
+ * Source text of each YAML document in a manifest file, keyed by the JSON of
+ * the parsed document, so a document can be shown with its comments. JSON
+ * files have none.
+ */
+export function manifestDocumentSources(
+  content: string,
+  filePath: string
+): Map<string, string> {
+  const sources = new Map<string, string>();
+  if (/\.json(\.gz)?$/i.test(filePath)) {
+    return sources;
+  }
+
+  for (const source of splitYamlDocuments(content)) {
+    try {
+      const doc = load(source);
+      if (doc && typeof doc === 'object') {
+        sources.set(JSON.stringify(doc), source);
+      }
+    } catch {
+      // Parse errors are reported when the whole file is loaded
+    }
+  }
+  return sources;
+}
+
+function unwrapLists(documents: unknown[]): unknown[] {
+  return documents.flatMap((doc) => {
+    const { kind, items } = (doc ?? {}) as { kind?: unknown; items?: unknown };
+
+    if (
+      typeof kind === 'string' &&
+      kind.endsWith('List') &&
+      Array.isArray(items)
+    ) {
+      return unwrapLists(items);
+    }
+
+    return [doc];
+  });
+}
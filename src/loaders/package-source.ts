@@ -0,0 +1,239 @@
+import { existsSync, readFileSync, realpathSync, statSync } from 'fs';
+import { glob } from 'glob';
+import { load } from 'js-yaml';
+import type { FileLoadResult } from '../types/index.js';
+import { dirname, isAbsolute, join, relative, resolve, sep } from 'path';
+import {
+  isChartArchive,
+  loadChart,
+  type PackageContents,
+} from './helm-chart.js';
+import { parseManifestDocuments, readManifestFile } from './manifest-file.js';
+
+const CHART_FILE = 'Chart.yaml';
+const KUSTOMIZATION_FILES = [
+  'kustomization.yaml',
+  'kustomization.yml',
+  'Kustomization',
+];
+const PACKAGE_MARKER_PATTERN = `**/{${[CHART_FILE, ...KUSTOMIZATION_FILES].join(',')}}`;
+const ARCHIVE_PATTERN = '**/*.{tgz,tar.gz}';
+
+/**
+ * Whether a path is loaded as a package rather than as a plain manifest
+ * file: a chart archive, or a directory holding a Chart.yaml or a
+ * kustomization.
+ */
+export function isPackageSource(path: string): boolean {
+  if (isChartArchive(path)) {
+    return existsSync(path) && statSync(path).isFile();
+  }
+
+  return (
+    existsSync(path) &&
+    statSync(path).isDirectory() &&
+    [CHART_FILE, ...KUSTOMIZATION_FILES].some((file) =>
+      existsSync(join(path, file))
+    )
+  );
+}
+
+/**
+ * Finds the outermost chart or kustomization directory containing a path,
+ * without looking above `stopDir`.
+ */
+export function findPackageRoot(
+  path: string,
+  stopDir: string
+): string | undefined {
+  let root: string | undefined;
+  let current = resolve(path);
+
+  while (current === stopDir || current.startsWith(stopDir + sep)) {
+    if (!isChartArchive(current) && isPackageSource(current)) {
+      root = current;
+    }
+    if (current === stopDir) break;
+    current = dirname(current);
+  }
+
+  return root;
+}
+
+/**
+ * Lists what a loader should read below `cwd`: plain manifest files matching
+ * `pattern`, chart archives and chart/kustomization directories. Files that
+ * belong to a package are read through the package, not on their own.
+ */
+export async function findSourceFiles(
+  cwd: string,
+  pattern: string
+): Promise<string[]> {
+  if (isPackageSource(cwd)) {
+    return [cwd];
+  }
+
+  const options = { cwd, nodir: true, absolute: true };
+  const [files, markers, archives] = await Promise.all([
+    glob(pattern, options),
+    glob(PACKAGE_MARKER_PATTERN, options),
+    glob(ARCHIVE_PATTERN, options),
+  ]);
+
+  // Nested charts and kustomizations are read through the outermost one
+  const roots = [...new Set(markers.map((marker) => dirname(marker)))]
+    .sort((a, b) => a.length - b.length)
+    .filter(
+      (root, index, all) =>
+        !all.slice(0, index).some((outer) => root.startsWith(outer + sep))
+    );
+  const inPackage = (filePath: string) =>
+    roots.some((root) => filePath.startsWith(root + sep));
+
+  return [
+    ...files.filter((filePath) => !inPackage(filePath)),
+    ...archives.filter((filePath) => !inPackage(filePath)),
+    ...roots,
+  ];
+}
+
+/**
+ * Reads the manifests of a chart (directory or archive) or kustomization.
+ * Kustomizations may only reference files below `root`, the data directory
+ * they were found in.
+ */
+export function loadPackage(path: string, root: string): PackageContents {
+  if (isChartArchive(path) || existsSync(join(path, CHART_FILE))) {
+    return loadChart(path);
+  }
+
+  return loadKustomization(path, root, new Set());
+}
+
+/**
+ * Loads a package and parses each manifest it yields with `parse`, which
+ * receives the YAML documents, their source and the raw text.
+ */
+export function loadPackageDocuments<T>(
+  path: string,
+  root: string,
+  parse: (
+    documents: unknown[],
+    source: string,
+    content: string
+  ) => FileLoadResult<T>
+): FileLoadResult<T> {
+  const result: FileLoadResult<T> = { items: [], errors: [], warnings: [] };
+
+  try {
+    const { files, errors, warnings } = loadPackage(path, root);
+    result.errors.push(...errors);
+    result.warnings.push(...warnings);
+
+    for (const { source, content } of files) {
+      try {
+        const parsed = parse(
+          parseManifestDocuments(content, source),
+          source,
+          content
+        );
+        result.items.push(...parsed.items);
+        result.errors.push(...parsed.errors);
+        result.warnings.push(...parsed.warnings);
+      } catch (error) {
+        result.errors.push(
+          `Failed to parse ${source}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  } catch (error) {
+    result.errors.push(
+      `Failed to read package ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Expands the `resources` (and legacy `bases`) and `crds` of a kustomization
+ * into the manifest files they reference. Patches, generators and
+ * transformers are not applied; remote resources are skipped.
+ */
+function loadKustomization(
+  dir: string,
+  root: string,
+  visited: Set<string>
+): PackageContents {
+  const contents: PackageContents = { files: [], errors: [], warnings: [] };
+  const kustomizationFile = KUSTOMIZATION_FILES.map((file) =>
+    join(dir, file)
+  ).find((file) => existsSync(file));
+
+  if (!kustomizationFile) {
+    contents.errors.push(`No kustomization found in ${dir}`);
+    return contents;
+  }
+
+  if (visited.has(dir)) {
+    contents.errors.push(`Kustomization cycle through ${dir}`);
+    return contents;
+  }
+  visited.add(dir);
+
+  const kustomization = (load(readFileSync(kustomizationFile, 'utf8')) ||
+    {}) as Record<string, unknown>;
+  const entries = ['resources', 'bases', 'crds'].flatMap((field) =>
+    Array.isArray(kustomization[field])
+      ? (kustomization[field] as unknown[]).map(String)
+      : []
+  );
+
+  if (kustomization.helmCharts) {
+    contents.warnings.push(
+      `Skipped helmCharts in ${kustomizationFile}: vendor the charts instead`
+    );
+  }
+
+  for (const entry of entries) {
+    if (/^[a-z]+:\/\/|^github\.com\/|\?ref=/i.test(entry)) {
+      contents.warnings.push(
+        `Skipped remote resource ${entry} in ${kustomizationFile}`
+      );
+      continue;
+    }
+
+    const path = resolve(dir, entry);
+    if (!existsSync(path)) {
+      contents.errors.push(
+        `Resource ${entry} in ${kustomizationFile} does not exist`
+      );
+    } else if (!isWithin(path, root)) {
+      // Anything loaded is served to clients, so stay inside the data
+      contents.errors.push(
+        `Resource ${entry} in ${kustomizationFile} is outside the data directory`
+      );
+    } else if (statSync(path).isDirectory()) {
+      const nested = existsSync(join(path, CHART_FILE))
+        ? loadChart(path)
+        : loadKustomization(path, root, visited);
+      contents.files.push(...nested.files);
+      contents.errors.push(...nested.errors);
+      contents.warnings.push(...nested.warnings);
+    } else {
+      contents.files.push({
+        source: path,
+        content: readManifestFile(path),
+      });
+    }
+  }
+
+  visited.delete(dir);
+  return contents;
+}
+
+/** Whether an existing path is `root` or below it, following symlinks. */
+function isWithin(path: string, root: string): boolean {
+  const relativePath = relative(realpathSync(root), realpathSync(path));
+  return !relativePath.startsWith('..') && !isAbsolute(relativePath);
+}
@@ -1,87 +1,72 @@
-import { readFileSync } from 'fs';
-import { glob } from 'glob';
-import { loadAll } from 'js-yaml';
 import { resolve, basename } from 'path';
-import type { SampleManifest } from '../types/index.js';
+import type { FileLoadResult, SampleManifest } from '../types/index.js';
 import {
+  CORE_GROUP,
   extractTagsFromContent,
   generateDescription,
+  generateResourceKey,
+  parseApiVersion,
 } from '../utils/helpers.js';
 import type { Logger } from '../utils/logger.js';
+import { FileFilter } from './file-filter.js';
+import { isChartArchive } from './helm-chart.js';
+import {
+  MANIFEST_FILE_PATTERN,
+  isManifestFile,
+  manifestBaseName,
+  manifestDocumentSources,
+  parseManifestDocuments,
+  readManifestFile,
+} from './manifest-file.js';
+import {
+  findPackageRoot,
+  findSourceFiles,
+  isPackageSource,
+  loadPackageDocuments,
+} from './package-source.js';
 
 export class SampleLoader {
   constructor(
     private dataDir: string,
-    private logger: Logger
+    private logger: Logger,
+    private filter: FileFilter = new FileFilter(dataDir),
+    private folder = 'samples'
   ) {}
 
+  get directory(): string {
+    return resolve(this.dataDir, this.folder);
+  }
+
   async loadSamples(): Promise<{
     samples: Map<string, SampleManifest[]>;
     errors: string[];
     warnings: string[];
+    files: Map<string, FileLoadResult<SampleManifest>>;
   }> {
     const startTime = Date.now();
-    const samples = new Map<string, SampleManifest[]>();
-    const errors: string[] = [];
-    const warnings: string[] = [];
+    const files = new Map<string, FileLoadResult<SampleManifest>>();
+    const scanErrors: string[] = [];
 
-    const sampleDir = resolve(this.dataDir, 'samples');
-    this.logger.debug(`Loading samples from: ${sampleDir}`);
+    this.logger.debug(`Loading samples from: ${this.directory}`);
 
     try {
       // Find all YAML files recursively
-      const files = await glob('**/*.{yml,yaml}', {
-        cwd: sampleDir,
-        nodir: true,
-        absolute: true,
-      });
+      const filePaths = await this.findFiles();
 
-      this.logger.debug(`Found ${files.length} sample files to process`);
+      this.logger.debug(`Found ${filePaths.length} sample files to process`);
 
-      for (const filePath of files) {
-        try {
-          const fileContent = readFileSync(filePath, 'utf8');
-          const documents = loadAll(fileContent) as unknown[];
-
-          for (const doc of documents) {
-            if (!doc || typeof doc !== 'object') continue;
-
-            if (this.isKubernetesManifest(doc)) {
-              try {
-                const sample = this.createSampleManifest(
-                  doc,
-                  filePath,
-                  fileContent
-                );
-                const kind = sample.kind;
-
-                if (!samples.has(kind)) {
-                  samples.set(kind, []);
-                }
-
-                samples.get(kind)!.push(sample);
-                this.logger.debug(
-                  `Loaded sample: ${kind}/${sample.metadata.name || 'unnamed'} from ${filePath}`
-                );
-              } catch (error) {
-                errors.push(
-                  `Failed to process sample in ${filePath}: ${error instanceof Error ? error.message : String(error)}`
-                );
-              }
-            }
-          }
-        } catch (error) {
-          errors.push(
-            `Failed to read sample file ${filePath}: ${error instanceof Error ? error.message : String(error)}`
-          );
-        }
+      for (const filePath of filePaths) {
+        files.set(filePath, this.loadFile(filePath));
       }
     } catch (error) {
-      errors.push(
+      scanErrors.push(
         `Failed to scan samples directory: ${error instanceof Error ? error.message : String(error)}`
       );
     }
 
+    const { samples, errors, warnings } = this.merge(files);
+    errors.push(...scanErrors);
+
     this.logger.timing('Sample loading', startTime);
     const totalSamples = Array.from(samples.values()).reduce(
       (sum, arr) => sum + arr.length,
@@ -95,6 +80,118 @@ export class SampleLoader {
       this.logger.warn(`Sample loading had ${errors.length} errors`);
     }
 
+    return { samples, errors, warnings, files };
+  }
+
+  // Manifest files, Helm charts and kustomizations that are not ignored
+  async findFiles(cwd: string = this.directory): Promise<string[]> {
+    return this.filter.apply(await findSourceFiles(cwd, MANIFEST_FILE_PATTERN));
+  }
+
+  handles(filePath: string): boolean {
+    return (
+      (isManifestFile(filePath) || isChartArchive(filePath)) &&
+      this.filter.accepts(filePath)
+    );
+  }
+
+  // A file inside a chart or kustomization is reloaded through its package
+  sourceOf(path: string): string {
+    return findPackageRoot(path, this.directory) ?? path;
+  }
+
+  loadFile(filePath: string): FileLoadResult<SampleManifest> {
+    if (isPackageSource(filePath)) {
+      return loadPackageDocuments(
+        filePath,
+        this.dataDir,
+        (documents, source, content) =>
+          this.parseDocuments(documents, source, content)
+      );
+    }
+
+    try {
+      const fileContent = readManifestFile(filePath);
+      return this.parseDocuments(
+        parseManifestDocuments(fileContent, filePath),
+        filePath,
+        fileContent
+      );
+    } catch (error) {
+      return {
+        items: [],
+        errors: [
+          `Failed to read sample file ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+        ],
+        warnings: [],
+      };
+    }
+  }
+
+  private parseDocuments(
+    documents: unknown[],
+    filePath: string,
+    fileContent: string
+  ): FileLoadResult<SampleManifest> {
+    const items: SampleManifest[] = [];
+    const errors: string[] = [];
+    const sources = manifestDocumentSources(fileContent, filePath);
+
+    for (const doc of documents) {
+      if (!doc || typeof doc !== 'object') continue;
+
+      if (this.isKubernetesManifest(doc)) {
+        try {
+          items.push(
+            this.createSampleManifest(
+              doc,
+              filePath,
+              fileContent,
+              sources.get(JSON.stringify(doc))
+            )
+          );
+        } catch (error) {
+          errors.push(
+            `Failed to process sample in ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      }
+    }
+
+    return { items, errors, warnings: [] };
+  }
+
+  merge(files: Map<string, FileLoadResult<SampleManifest>>): {
+    samples: Map<string, SampleManifest[]>;
+    errors: string[];
+    warnings: string[];
+  } {
+    const samples = new Map<string, SampleManifest[]>();
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    for (const [filePath, result] of files) {
+      errors.push(...result.errors);
+      warnings.push(...result.warnings);
+
+      for (const sample of result.items) {
+        // Kinds are only unique within an API group
+        const key = generateResourceKey(
+          sample.group || CORE_GROUP,
+          sample.kind
+        );
+
+        if (!samples.has(key)) {
+          samples.set(key, []);
+        }
+
+        samples.get(key)!.push(sample);
+        this.logger.debug(
+          `Loaded sample: ${key}/${sample.metadata.name || 'unnamed'} from ${filePath}`
+        );
+      }
+    }
+
     return { samples, errors, warnings };
   }
 
@@ -114,7 +211,8 @@ export class SampleLoader {
   private createSampleManifest(
     doc: Record<string, unknown>,
     filePath: string,
-    fileContent: string
+    fileContent: string,
+    source?: string
   ): SampleManifest {
     const tags = extractTagsFromContent(fileContent);
     const fileName = basename(filePath);
@@ -133,12 +231,18 @@ export class SampleLoader {
       fileContent
     );
 
+    const { group, version } = parseApiVersion(doc.apiVersion as string);
+
     return {
       content: doc,
+      source,
       apiVersion: doc.apiVersion as string,
+      group,
+      version,
       kind: doc.kind as string,
       metadata: doc.metadata as Record<string, unknown>,
       filePath,
+      layer: this.dataDir,
       description,
       tags: [...new Set(tags)], // Remove duplicates
       complexity,
@@ -147,7 +251,7 @@ export class SampleLoader {
 
   private extractTagsFromFileName(fileName: string): string[] {
     const tags: string[] = [];
-    const baseName = fileName.replace(/\.(ya?ml)$/i, '');
+    const baseName = manifestBaseName(fileName);
 
     // Extract common patterns from filename
     if (baseName.includes('simple') || baseName.includes('basic')) {
@@ -254,7 +358,7 @@ export class SampleLoader {
     }
 
     // Generate from filename and resource info
-    const baseName = fileName.replace(/\.(ya?ml)$/i, '');
+    const baseName = manifestBaseName(fileName);
     const resourceName = (metadata?.name as string | undefined) || 'unnamed';
 
     return `${generateDescription(baseName)} - ${doc.kind} example${
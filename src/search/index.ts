@@ -0,0 +1,463 @@
+import type {
+  CRDMetadata,
+  InstructionDocument,
+  LoadedData,
+  SampleManifest,
+  SchemaField,
+} from '../types/index.js';
+import { CORE_GROUP, generateResourceKey } from '../utils/helpers.js';
+import { buildFieldTree, getVersionSchema } from '../utils/schema.js';
+
+export type SearchDocumentType = 'crd' | 'schema' | 'sample' | 'instruction';
+
+export const SEARCH_DOCUMENT_TYPES: SearchDocumentType[] = [
+  'crd',
+  'schema',
+  'sample',
+  'instruction',
+];
+
+export interface SearchHit {
+  type: SearchDocumentType;
+  id: string; // resource key, or file path for samples and instructions
+  title: string;
+  score: number;
+  snippet: string;
+  resourceType?: string; // group/kind the hit belongs to
+  filePath?: string;
+  matchedFields?: string[]; // schema field paths matching the query
+}
+
+export interface SearchOptions {
+  types?: SearchDocumentType[];
+  limit?: number;
+  matchAll?: boolean; // only documents matching every query term
+}
+
+// Field boosts: a match in a kind or title counts far more than one in prose
+const FIELD_BOOSTS = {
+  title: 5,
+  names: 3,
+  headings: 3,
+  fields: 3,
+  tags: 2,
+  text: 1,
+} as const;
+
+type FieldName = keyof typeof FIELD_BOOSTS;
+
+// BM25 parameters: term frequency saturation and length normalisation
+const K1 = 1.2;
+const B = 0.75;
+
+// Query terms also match longer index terms they are a prefix of, weighted
+// lower, so "postgres" finds PostgreSQLCluster
+const PREFIX_WEIGHT = 0.5;
+const MIN_PREFIX_LENGTH = 3;
+
+const SNIPPET_LENGTH = 160;
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'for',
+  'from',
+  'how',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'that',
+  'the',
+  'this',
+  'to',
+  'with',
+]);
+
+interface IndexedDocument {
+  hit: Omit<SearchHit, 'score' | 'snippet' | 'matchedFields'>;
+  lengths: Partial<Record<FieldName, number>>;
+  snippetText: string; // prose the snippet is cut from
+  schemaFields?: SchemaField[];
+}
+
+/**
+ * In-memory inverted index over CRDs, their schemas, samples and instruction
+ * documents, ranked with BM25 and per-field boosts. Built once per LoadedData
+ * by the DataLoader; tools query it instead of scanning the data.
+ */
+export class SearchIndex {
+  private documents: IndexedDocument[] = [];
+  // term -> document index -> field -> term frequency
+  private postings = new Map<
+    string,
+    Map<number, Partial<Record<FieldName, number>>>
+  >();
+  private averageLengths: Partial<Record<FieldName, number>> = {};
+
+  constructor(data: Pick<LoadedData, 'crds' | 'samples' | 'instructions'>) {
+    for (const crd of data.crds.values()) {
+      this.addCRD(crd);
+    }
+    for (const samples of data.samples.values()) {
+      samples.forEach((sample) => this.addSample(sample));
+    }
+    data.instructions.forEach((doc) => this.addInstruction(doc));
+
+    this.computeAverageLengths();
+  }
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  search(query: string, options: SearchOptions = {}): SearchHit[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const scores = new Map<number, number>();
+    const termCounts = new Map<number, number>();
+    for (const term of terms) {
+      const matched = new Set<number>();
+      for (const [indexTerm, weight] of this.expand(term)) {
+        const postings = this.postings.get(indexTerm)!;
+        const idf = Math.log(
+          1 + (this.size - postings.size + 0.5) / (postings.size + 0.5)
+        );
+
+        for (const [docIndex, frequencies] of postings) {
+          const score = weight * idf * this.termScore(docIndex, frequencies);
+          scores.set(docIndex, (scores.get(docIndex) || 0) + score);
+          matched.add(docIndex);
+        }
+      }
+      for (const docIndex of matched) {
+        termCounts.set(docIndex, (termCounts.get(docIndex) || 0) + 1);
+      }
+    }
+
+    const types = options.types?.length ? options.types : undefined;
+
+    return Array.from(scores)
+      .filter(
+        ([docIndex]) =>
+          (!types || types.includes(this.documents[docIndex].hit.type)) &&
+          (!options.matchAll || termCounts.get(docIndex) === terms.length)
+      )
+      .sort(
+        ([a, scoreA], [b, scoreB]) =>
+          scoreB - scoreA ||
+          this.documents[a].hit.id.localeCompare(this.documents[b].hit.id)
+      )
+      .slice(0, options.limit ?? 10)
+      .map(([docIndex, score]) => this.toHit(docIndex, score, terms));
+  }
+
+  private addCRD(crd: CRDMetadata): void {
+    const resourceType = generateResourceKey(crd.group, crd.kind);
+    const description = crd.description || '';
+
+    this.addDocument(
+      {
+        hit: {
+          type: 'crd',
+          id: resourceType,
+          title: crd.kind,
+          resourceType,
+          filePath: crd.filePath,
+        },
+        snippetText: description,
+      },
+      {
+        title: crd.kind,
+        names: [
+          crd.plural,
+          crd.singular,
+          ...(crd.shortNames || []),
+          ...(crd.categories || []),
+          crd.category,
+        ].join(' '),
+        tags: crd.group,
+        text: description,
+      }
+    );
+
+    const schemaFields = flattenFields(buildFieldTree(getVersionSchema(crd)));
+    if (schemaFields.length === 0) {
+      return;
+    }
+
+    this.addDocument(
+      {
+        hit: {
+          type: 'schema',
+          id: `${resourceType}#schema`,
+          title: `${crd.kind} schema`,
+          resourceType,
+          filePath: crd.filePath,
+        },
+        snippetText: '',
+        schemaFields,
+      },
+      {
+        title: crd.kind,
+        fields: schemaFields.map((field) => field.name).join(' '),
+        text: schemaFields.map((field) => field.description || '').join(' '),
+      }
+    );
+  }
+
+  private addSample(sample: SampleManifest): void {
+    const name = sample.metadata.name || '';
+
+    this.addDocument(
+      {
+        hit: {
+          type: 'sample',
+          id: `${sample.filePath}#${sample.kind}/${name}`,
+          title: `${sample.kind} ${name}`.trim(),
+          resourceType: generateResourceKey(
+            sample.group || CORE_GROUP,
+            sample.kind
+          ),
+          filePath: sample.filePath,
+        },
+        snippetText: sample.description,
+      },
+      {
+        title: `${sample.kind} ${name}`,
+        tags: sample.tags.join(' '),
+        fields: collectKeys(sample.content).join(' '),
+        text: `${sample.description} ${collectValues(sample.content).join(' ')}`,
+      }
+    );
+  }
+
+  private addInstruction(doc: InstructionDocument): void {
+    const headings = doc.content
+      .split('\n')
+      .filter((line) => /^#{1,6}\s/.test(line))
+      .map((line) => line.replace(/^#+\s*/, ''));
+
+    this.addDocument(
+      {
+        hit: {
+          type: 'instruction',
+          id: doc.filePath,
+          title: doc.title,
+          filePath: doc.filePath,
+        },
+        snippetText: doc.content,
+      },
+      {
+        title: doc.title,
+        headings: headings.join(' '),
+        names: [
+          ...(doc.frontmatter.applicableCRDs || []),
+          ...doc.detectedCRDs,
+        ].join(' '),
+        tags: doc.tags.join(' '),
+        text: doc.content,
+      }
+    );
+  }
+
+  private addDocument(
+    entry: Omit<IndexedDocument, 'lengths'>,
+    fields: Partial<Record<FieldName, string | undefined>>
+  ): void {
+    const docIndex = this.documents.length;
+    const doc: IndexedDocument = { ...entry, lengths: {} };
+    this.documents.push(doc);
+
+    for (const [field, text] of Object.entries(fields) as [
+      FieldName,
+      string | undefined,
+    ][]) {
+      const tokens = tokenize(text || '');
+      doc.lengths[field] = tokens.length;
+
+      for (const token of tokens) {
+        let postings = this.postings.get(token);
+        if (!postings) {
+          postings = new Map();
+          this.postings.set(token, postings);
+        }
+
+        let frequencies = postings.get(docIndex);
+        if (!frequencies) {
+          frequencies = {};
+          postings.set(docIndex, frequencies);
+        }
+        frequencies[field] = (frequencies[field] || 0) + 1;
+      }
+    }
+  }
+
+  private computeAverageLengths(): void {
+    for (const field of Object.keys(FIELD_BOOSTS) as FieldName[]) {
+      const lengths = this.documents
+        .map((doc) => doc.lengths[field])
+        .filter((length): length is number => length !== undefined);
+      this.averageLengths[field] =
+        lengths.reduce((sum, length) => sum + length, 0) /
+        Math.max(lengths.length, 1);
+    }
+  }
+
+  /** BM25F: boosted, length-normalised frequencies summed before saturation. */
+  private termScore(
+    docIndex: number,
+    frequencies: Partial<Record<FieldName, number>>
+  ): number {
+    const doc = this.documents[docIndex];
+    let weighted = 0;
+
+    for (const [field, frequency] of Object.entries(frequencies) as [
+      FieldName,
+      number,
+    ][]) {
+      const average = this.averageLengths[field] || 1;
+      const normalisation = 1 - B + (B * (doc.lengths[field] || 0)) / average;
+      weighted += (FIELD_BOOSTS[field] * frequency) / normalisation;
+    }
+
+    return (weighted * (K1 + 1)) / (weighted + K1);
+  }
+
+  private expand(term: string): Array<[string, number]> {
+    const matches: Array<[string, number]> = [];
+    if (this.postings.has(term)) {
+      matches.push([term, 1]);
+    }
+
+    if (term.length >= MIN_PREFIX_LENGTH) {
+      for (const indexTerm of this.postings.keys()) {
+        if (indexTerm !== term && indexTerm.startsWith(term)) {
+          matches.push([indexTerm, PREFIX_WEIGHT]);
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  private toHit(docIndex: number, score: number, terms: string[]): SearchHit {
+    const doc = this.documents[docIndex];
+    const matchesTerm = (text: string) =>
+      tokenize(text).some((token) =>
+        terms.some((term) => token.startsWith(term))
+      );
+
+    const matchedFields = doc.schemaFields
+      ?.filter(
+        (field) =>
+          matchesTerm(field.name) || matchesTerm(field.description || '')
+      )
+      .map((field) => field.path);
+
+    return {
+      ...doc.hit,
+      score: Math.round(score * 1000) / 1000,
+      snippet: matchedFields
+        ? matchedFields.slice(0, 5).join(', ')
+        : snippet(doc.snippetText, terms),
+      ...(matchedFields && { matchedFields }),
+    };
+  }
+}
+
+/**
+ * Lowercased words with stop words removed. Identifiers are split on case
+ * changes as well as kept whole: `PostgreSQLCluster` yields `postgresqlcluster`,
+ * `postgre`, `sql`, `cluster`, `postgresql` and `sqlcluster`.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const word of text.match(/[A-Za-z0-9]+/g) || []) {
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(' ');
+
+    // Adjacent parts joined too, since acronyms split badly: PostgreSQL
+    const joined = parts.slice(1).map((part, i) => parts[i] + part);
+
+    for (const token of parts.length > 1
+      ? [word, ...parts, ...joined]
+      : parts) {
+      const lower = stem(token.toLowerCase());
+      if (!STOP_WORDS.has(lower)) {
+        tokens.push(lower);
+      }
+    }
+  }
+
+  return tokens;
+}
+
+// Just enough stemming for plurals: "clusters" finds "cluster"
+function stem(token: string): string {
+  return token.length > 3 && token.endsWith('s') && !token.endsWith('ss')
+    ? token.slice(0, -1)
+    : token;
+}
+
+function snippet(text: string, terms: string[]): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const lower = flat.toLowerCase();
+
+  const positions = terms
+    .map((term) => lower.indexOf(term))
+    .filter((position) => position !== -1);
+  const position = positions.length > 0 ? Math.min(...positions) : 0;
+
+  const start = Math.max(0, position - SNIPPET_LENGTH / 4);
+  const end = Math.min(flat.length, start + SNIPPET_LENGTH);
+
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end).trim()}${
+    end < flat.length ? '…' : ''
+  }`;
+}
+
+function flattenFields(fields: SchemaField[]): SchemaField[] {
+  return fields.flatMap((field) => [
+    field,
+    ...flattenFields(field.fields || []),
+    ...(field.items ? flattenFields(field.items.fields || []) : []),
+  ]);
+}
+
+function collectKeys(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(collectKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, child]) => [
+      key,
+      ...collectKeys(child),
+    ]);
+  }
+  return [];
+}
+
+function collectValues(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(collectValues);
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value).flatMap(collectValues);
+  }
+  return value === undefined || value === null ? [] : [String(value)];
+}
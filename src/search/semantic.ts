@@ -0,0 +1,316 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import type { InstructionDocument } from '../types/index.js';
+import { tokenize } from './index.js';
+import {
+  flattenSections,
+  getSections,
+  sectionMarkdown,
+} from '../utils/markdown.js';
+
+/**
+ * Turns text into vectors whose cosine similarity reflects how close the
+ * texts are in meaning. Vectors from different providers are never compared,
+ * so `id` must change whenever the model does.
+ */
+export interface EmbeddingProvider {
+  readonly id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface InstructionChunk {
+  id: string; // file path and heading anchor
+  filePath: string;
+  title: string; // title of the instruction document
+  anchor: string;
+  heading?: string; // unset for the text before the first heading
+  breadcrumbs: string[];
+  content: string;
+}
+
+export interface ChunkHit extends InstructionChunk {
+  score: number; // cosine similarity to the query
+}
+
+export interface SemanticSearchOptions {
+  limit?: number;
+  filePaths?: string[]; // only search chunks of these documents
+}
+
+export const HASH_PROVIDER = 'hash';
+
+const HASH_DIMENSIONS = 256;
+const EMBED_BATCH_SIZE = 32;
+
+/**
+ * One chunk per section of an instruction document that has text of its own
+ * below the heading.
+ */
+export function chunkInstruction(doc: InstructionDocument): InstructionChunk[] {
+  return flattenSections(getSections(doc))
+    .filter((section) => section.content)
+    .map((section) => ({
+      id: `${doc.filePath}#${section.anchor}`,
+      filePath: doc.filePath,
+      title: doc.title,
+      anchor: section.anchor,
+      ...(section.level > 0 && { heading: section.heading }),
+      breadcrumbs: section.breadcrumbs,
+      content: sectionMarkdown(section, false),
+    }));
+}
+
+/**
+ * Deterministic bag-of-words embedding: words and their character trigrams
+ * are hashed into a fixed number of dimensions. It needs no model, so it is
+ * used in tests and as a fallback, but it only finds texts sharing words or
+ * word fragments, not synonyms.
+ */
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  readonly id = `${HASH_PROVIDER}-${HASH_DIMENSIONS}`;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector: number[] = new Array(HASH_DIMENSIONS).fill(0);
+    const add = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      // The top bit picks the sign so that collisions tend to cancel out
+      vector[hash % HASH_DIMENSIONS] += hash & 0x80000000 ? -weight : weight;
+    };
+
+    for (const token of tokenize(text)) {
+      add(token, 1);
+      const padded = `^${token}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(padded.slice(i, i + 3), 0.5);
+      }
+    }
+
+    return normalize(vector);
+  }
+}
+
+/**
+ * Embeddings of instruction chunks, keyed by a hash of the chunk text and
+ * persisted in a JSON file, so only new or edited chunks are embedded on the
+ * next start or reload.
+ */
+export class EmbeddingCache {
+  private vectors?: Map<string, number[]>;
+
+  constructor(
+    readonly provider: EmbeddingProvider,
+    readonly filePath?: string
+  ) {}
+
+  /** Cache file for a provider in a cache directory. */
+  static fileFor(cacheDir: string, provider: EmbeddingProvider): string {
+    const name = provider.id.replace(/[^\w.-]+/g, '_');
+    return join(cacheDir, 'embeddings', `${name}.json`);
+  }
+
+  /**
+   * Returns a vector for each text, embedding only the ones not cached. The
+   * cache is then pruned to these texts and written back if it changed.
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    const cached = this.load();
+    const keys = texts.map(hashText);
+
+    const missing = new Map<string, string>();
+    keys.forEach((key, i) => {
+      if (!cached.has(key)) {
+        missing.set(key, texts[i]);
+      }
+    });
+
+    const missingKeys = Array.from(missing.keys());
+    for (let i = 0; i < missingKeys.length; i += EMBED_BATCH_SIZE) {
+      const batch = missingKeys.slice(i, i + EMBED_BATCH_SIZE);
+      const vectors = await this.provider.embed(
+        batch.map((key) => missing.get(key)!)
+      );
+      if (vectors.length !== batch.length) {
+        throw new Error(
+          `Embedding provider ${this.provider.id} returned ${vectors.length} vectors for ${batch.length} texts`
+        );
+      }
+      batch.forEach((key, j) => cached.set(key, normalize(vectors[j])));
+    }
+
+    const current = new Set(keys);
+    let pruned = false;
+    for (const key of Array.from(cached.keys())) {
+      if (!current.has(key)) {
+        cached.delete(key);
+        pruned = true;
+      }
+    }
+
+    if (missing.size > 0 || pruned) {
+      this.save(cached);
+    }
+
+    return keys.map((key) => cached.get(key)!);
+  }
+
+  private load(): Map<string, number[]> {
+    if (this.vectors) {
+      return this.vectors;
+    }
+
+    this.vectors = new Map();
+    if (this.filePath && existsSync(this.filePath)) {
+      try {
+        const content = JSON.parse(readFileSync(this.filePath, 'utf8'));
+        if (content.provider === this.provider.id) {
+          this.vectors = new Map(Object.entries(content.vectors ?? {}));
+        }
+      } catch {
+        // A corrupt cache is rebuilt from scratch
+      }
+    }
+    return this.vectors;
+  }
+
+  private save(vectors: Map<string, number[]>): void {
+    if (!this.filePath) {
+      return;
+    }
+
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      writeFileSync(
+        this.filePath,
+        JSON.stringify({
+          provider: this.provider.id,
+          vectors: Object.fromEntries(vectors),
+        })
+      );
+    } catch {
+      // Without a writable cache the chunks are embedded again next start
+    }
+  }
+}
+
+/**
+ * Instruction chunks with their embeddings, ranked by cosine similarity to
+ * a free-text query.
+ */
+export class SemanticIndex {
+  private constructor(
+    private provider: EmbeddingProvider,
+    private chunks: InstructionChunk[],
+    private vectors: number[][]
+  ) {}
+
+  static async build(
+    instructions: InstructionDocument[],
+    cache: EmbeddingCache
+  ): Promise<SemanticIndex> {
+    const chunks = instructions.flatMap(chunkInstruction);
+    const vectors = await cache.embed(chunks.map(embeddingText));
+    return new SemanticIndex(cache.provider, chunks, vectors);
+  }
+
+  get size(): number {
+    return this.chunks.length;
+  }
+
+  get providerId(): string {
+    return this.provider.id;
+  }
+
+  async search(
+    query: string,
+    options: SemanticSearchOptions = {}
+  ): Promise<ChunkHit[]> {
+    const { limit = 10, filePaths } = options;
+    const [queryVector] = await this.provider.embed([query]);
+    const normalized = normalize(queryVector);
+    const allowed = filePaths && new Set(filePaths);
+
+    return this.chunks
+      .map((chunk, i) => ({
+        ...chunk,
+        score: Math.round(dot(normalized, this.vectors[i]) * 1000) / 1000,
+      }))
+      .filter((hit) => hit.score > 0 && (!allowed || allowed.has(hit.filePath)))
+      .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id))
+      .slice(0, limit);
+  }
+}
+
+/**
+ * Resolves the --embeddings option: "hash" for the built-in provider, or the
+ * path of an ESM module whose default (or `createEmbeddingProvider`) export
+ * is a provider, a provider class or a factory returning one.
+ */
+export async function createEmbeddingProvider(
+  spec: string
+): Promise<EmbeddingProvider> {
+  if (spec === HASH_PROVIDER) {
+    return new HashEmbeddingProvider();
+  }
+
+  const module = await import(pathToFileURL(resolve(spec)).href);
+  const exported = module.createEmbeddingProvider ?? module.default;
+
+  let provider = exported;
+  if (typeof exported === 'function') {
+    provider =
+      typeof exported.prototype?.embed === 'function'
+        ? new exported()
+        : await exported();
+  }
+
+  if (
+    !provider ||
+    typeof provider.id !== 'string' ||
+    typeof provider.embed !== 'function'
+  ) {
+    throw new Error(
+      `${spec} does not export an embedding provider with an id and an embed() method`
+    );
+  }
+  return provider;
+}
+
+function embeddingText(chunk: InstructionChunk): string {
+  // The title and enclosing headings give short sections their context
+  const context = Array.from(new Set([chunk.title, ...chunk.breadcrumbs]));
+  return chunk.heading && chunk.heading !== chunk.title
+    ? `${context.join(' > ')}\n${chunk.content}`
+    : chunk.content;
+}
+
+function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(dot(vector, vector));
+  return length > 0 ? vector.map((value) => value / length) : vector;
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
@@ -0,0 +1,287 @@
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from 'http';
+import { randomUUID } from 'crypto';
+import { Buffer } from 'buffer';
+import { clearInterval, setInterval } from 'timers';
+import { URL } from 'url';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { McpServerFactory } from './index.js';
+import type { Logger } from '../utils/logger.js';
+
+export const MCP_ENDPOINT = '/mcp';
+export const HEALTH_ENDPOINT = '/health';
+export const MAX_BODY_BYTES = 4 * 1024 * 1024;
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+export const DEFAULT_SESSION_TTL_MS = 30 * 60 * 1000;
+
+// Host names a local client may use to reach a loopback-bound server
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+const WILDCARD_HOSTS = ['0.0.0.0', '::'];
+
+export interface HttpTransportHandle {
+  server: Server;
+  port: number;
+  close(): Promise<void>;
+}
+
+export interface HttpTransportOptions {
+  host?: string; // interface to bind, loopback only by default
+  allowedHosts?: string[]; // extra names clients may send in Host/Origin
+  sessionTtlMs?: number; // sessions idle for longer are closed
+}
+
+/**
+ * Serves MCP over Streamable HTTP. Every client session gets its own
+ * McpServer and transport, all backed by the factory's shared data.
+ * Requests must name an allowed host in their Host (and Origin, if any)
+ * header, which keeps web pages from reaching a local server through DNS
+ * rebinding.
+ */
+export async function startHttpTransport(
+  factory: McpServerFactory,
+  port: number,
+  logger: Logger,
+  options: HttpTransportOptions = {}
+): Promise<HttpTransportHandle> {
+  const host = options.host || DEFAULT_HTTP_HOST;
+  const sessionTtlMs = options.sessionTtlMs ?? DEFAULT_SESSION_TTL_MS;
+  const transports = new Map<string, StreamableHTTPServerTransport>();
+  const lastSeen = new Map<string, number>();
+  // Host header values, known once the port is bound
+  let allowedHosts: string[] = [];
+
+  const httpServer = createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      logger.error('🔌 HTTP request failed:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    });
+  });
+
+  async function handleRequest(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+
+    if (path === HEALTH_ENDPOINT && req.method === 'GET') {
+      const { statistics } = factory.getData();
+      sendJson(res, 200, {
+        status: 'ok',
+        sessions: transports.size,
+        crdsLoaded: statistics.crdsLoaded,
+        samplesLoaded: statistics.samplesLoaded,
+        instructionsLoaded: statistics.instructionsLoaded,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (path !== MCP_ENDPOINT) {
+      sendJson(res, 404, { error: `Not found: ${path}` });
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        if (!(error instanceof BodyTooLargeError)) {
+          throw error;
+        }
+        // The rest of the body is not read, so the connection can't be reused
+        res.setHeader('Connection', 'close');
+        sendJsonRpcError(res, 413, -32600, error.message);
+        return;
+      }
+    }
+    if (req.method === 'POST' && body === undefined) {
+      sendJsonRpcError(res, 400, -32700, 'Parse error: invalid JSON body');
+      return;
+    }
+
+    // Browsers send an Origin; other clients usually don't
+    const origin = req.headers.origin;
+    if (origin && !allowedHosts.some((name) => isOriginOf(origin, name))) {
+      sendJsonRpcError(res, 403, -32000, `Invalid Origin header: ${origin}`);
+      return;
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    const existing =
+      typeof sessionId === 'string' ? transports.get(sessionId) : undefined;
+
+    if (existing) {
+      lastSeen.set(sessionId as string, Date.now());
+      await existing.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || sessionId || !isInitializeRequest(body)) {
+      sendJsonRpcError(
+        res,
+        400,
+        -32000,
+        'Bad Request: No valid session ID provided'
+      );
+      return;
+    }
+
+    const mcpServer = factory.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (newSessionId) => {
+        transports.set(newSessionId, transport);
+        lastSeen.set(newSessionId, Date.now());
+        logger.debug(`🔌 MCP session started: ${newSessionId}`);
+      },
+      enableDnsRebindingProtection: true,
+      allowedHosts,
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        transports.delete(transport.sessionId);
+        lastSeen.delete(transport.sessionId);
+        logger.debug(`🔌 MCP session closed: ${transport.sessionId}`);
+      }
+      factory.releaseServer(mcpServer);
+    };
+
+    transport.onerror = (error: Error) => {
+      logger.error('🔌 MCP transport error:', error);
+    };
+
+    await mcpServer.connect(transport);
+    await transport.handleRequest(req, res, body);
+
+    // The transport rejected the initialize request, so no later request can
+    // reach this server
+    if (!transport.sessionId) {
+      await mcpServer.close();
+      factory.releaseServer(mcpServer);
+    }
+  }
+
+  await new Promise<void>((resolveListen, rejectListen) => {
+    httpServer.once('error', rejectListen);
+    httpServer.listen(port, host, () => {
+      httpServer.off('error', rejectListen);
+      resolveListen();
+    });
+  });
+
+  const address = httpServer.address();
+  const boundPort =
+    typeof address === 'object' && address ? address.port : port;
+
+  allowedHosts = [
+    ...new Set([
+      ...LOOPBACK_HOSTS,
+      ...(WILDCARD_HOSTS.includes(host) ? [] : [formatHost(host)]),
+      ...(options.allowedHosts || []),
+    ]),
+  ].map((name) => `${name}:${boundPort}`);
+
+  // Clients that go away without closing their session would otherwise keep
+  // its McpServer forever
+  const sweep = setInterval(
+    () => {
+      const now = Date.now();
+      for (const [sessionId, seen] of lastSeen) {
+        if (now - seen > sessionTtlMs) {
+          logger.debug(`🔌 MCP session expired: ${sessionId}`);
+          transports
+            .get(sessionId)
+            ?.close()
+            .catch((error) =>
+              logger.error('🔌 Failed to close MCP session:', error)
+            );
+        }
+      }
+    },
+    Math.min(sessionTtlMs, 60 * 1000)
+  );
+  sweep.unref();
+
+  return {
+    server: httpServer,
+    port: boundPort,
+    async close() {
+      clearInterval(sweep);
+      for (const transport of Array.from(transports.values())) {
+        await transport.close();
+      }
+      await new Promise<void>((resolveClose) =>
+        httpServer.close(() => resolveClose())
+      );
+    },
+  };
+}
+
+function formatHost(host: string): string {
+  return host.includes(':') ? `[${host}]` : host;
+}
+
+function isOriginOf(origin: string, host: string): boolean {
+  return origin === `http://${host}` || origin === `https://${host}`;
+}
+
+class BodyTooLargeError extends Error {
+  constructor() {
+    super(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+  }
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  if (Number(req.headers['content-length']) > MAX_BODY_BYTES) {
+    throw new BodyTooLargeError();
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+    size += buffer.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new BodyTooLargeError();
+    }
+    chunks.push(buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf8');
+  if (!raw) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string
+): void {
+  sendJson(res, status, {
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
+  });
+}
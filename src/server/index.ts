@@ -0,0 +1,278 @@
+import {
+  McpServer,
+  ResourceTemplate,
+  type RegisteredTool,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { LoadedData, ServerConfig } from '../types/index.js';
+import { getDataDirectories } from '../loaders/index.js';
+import type { ToolRegistry } from '../tools/index.js';
+import type { Logger } from '../utils/logger.js';
+import { formatData } from '../utils/format.js';
+import { registerDataResources } from './resources.js';
+import { registerWorkflowPrompts } from './prompts.js';
+
+interface ServerInstance {
+  server: McpServer;
+  tools: Map<string, RegisteredTool>;
+}
+
+type ToolDefinition = ReturnType<ToolRegistry['getToolDefinitions']>[number];
+
+/**
+ * Builds MCP server instances that share one ToolRegistry and LoadedData.
+ * stdio uses a single instance; the HTTP transport creates one per session.
+ */
+export class McpServerFactory {
+  private instances = new Set<ServerInstance>();
+  private toolSignatures = new Map<string, string>();
+  private lastReloadAt?: string;
+
+  constructor(
+    private config: ServerConfig,
+    private data: LoadedData,
+    private toolRegistry: ToolRegistry,
+    private logger: Logger
+  ) {
+    for (const toolDef of toolRegistry.getToolDefinitions()) {
+      this.toolSignatures.set(toolDef.name, this.toolSignature(toolDef));
+    }
+  }
+
+  get activeServers(): number {
+    return this.instances.size;
+  }
+
+  getData(): LoadedData {
+    return this.data;
+  }
+
+  createServer(): McpServer {
+    const server = new McpServer({
+      name: 'crd-mcp-server',
+      version: '1.0.0',
+    });
+
+    // Register all tools with the MCP server
+    const tools = new Map<string, RegisteredTool>();
+    for (const toolDef of this.toolRegistry.getToolDefinitions()) {
+      tools.set(toolDef.name, this.registerTool(server, toolDef));
+    }
+
+    // Add a server status resource
+    server.registerResource(
+      'server-status',
+      new ResourceTemplate('crd-server://status', { list: undefined }),
+      {
+        title: 'Server Status',
+        description: 'Current server status and statistics',
+      },
+      async () => ({
+        contents: [
+          {
+            uri: 'crd-server://status',
+            text: JSON.stringify(
+              {
+                status: 'running',
+                dataDirectory: this.config.dataDir,
+                dataDirectories:
+                  this.data.statistics.layers ||
+                  getDataDirectories(this.config),
+                dataSources: this.data.statistics.sources,
+                catalog: this.data.catalog && {
+                  name: this.data.catalog.name,
+                  version: this.data.catalog.version,
+                },
+                semanticSearch: this.data.semanticIndex && {
+                  provider: this.data.semanticIndex.providerId,
+                  sections: this.data.semanticIndex.size,
+                },
+                transport: this.config.transport || 'stdio',
+                activeSessions: this.instances.size,
+                watching: !!this.config.watch,
+                lastReloadAt: this.lastReloadAt,
+                statistics: this.data.statistics,
+                availableTools: this.toolRegistry.getToolNames(),
+                plugins: this.toolRegistry.getPluginTools(),
+                timestamp: new Date().toISOString(),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      })
+    );
+
+    registerDataResources(server, () => this.data, this.config.dataDir);
+    registerWorkflowPrompts(server, () => this.data);
+
+    this.instances.add({ server, tools });
+    return server;
+  }
+
+  releaseServer(server: McpServer): void {
+    for (const instance of this.instances) {
+      if (instance.server === server) {
+        this.instances.delete(instance);
+      }
+    }
+  }
+
+  /**
+   * Swaps the data under every tool in one step between requests and tells
+   * connected clients what changed.
+   */
+  updateData(data: LoadedData): void {
+    this.data = data;
+    this.lastReloadAt = new Date().toISOString();
+    this.toolRegistry.updateData(data);
+
+    // Only tools whose definition changed need a tools/list_changed
+    for (const toolDef of this.toolRegistry.getToolDefinitions()) {
+      const signature = this.toolSignature(toolDef);
+      if (this.toolSignatures.get(toolDef.name) === signature) {
+        continue;
+      }
+
+      // RegisteredTool.update() cannot change the output schema, so the
+      // tool is registered again; both steps notify the client
+      this.toolSignatures.set(toolDef.name, signature);
+      for (const instance of this.instances) {
+        const registeredTool = instance.tools.get(toolDef.name);
+        if (registeredTool) {
+          registeredTool.remove();
+          instance.tools.set(
+            toolDef.name,
+            this.registerTool(instance.server, toolDef)
+          );
+        }
+      }
+    }
+
+    for (const instance of this.instances) {
+      instance.server.sendResourceListChanged();
+    }
+  }
+
+  private registerTool(
+    server: McpServer,
+    toolDef: ToolDefinition
+  ): RegisteredTool {
+    return server.registerTool(
+      toolDef.name,
+      {
+        title: toolDef.name,
+        description: toolDef.description,
+        inputSchema: toolDef.inputSchema,
+        outputSchema: toolDef.outputSchema,
+      },
+      async (args: any) => this.executeTool(toolDef.name, args)
+    );
+  }
+
+  private toolSignature(toolDef: ToolDefinition): string {
+    return JSON.stringify([
+      toolDef.description,
+      toolDef.inputSchema,
+      toolDef.outputSchema,
+    ]);
+  }
+
+  /**
+   * Metadata is not sent to clients, so tell them when there is another page
+   * or the response was trimmed to its budget.
+   */
+  private pagingNotice(metadata?: Record<string, any>): string | undefined {
+    const lines: string[] = [];
+    const page = metadata?.pagination;
+    if (metadata?.nextCursor) {
+      lines.push(
+        `More results available (${page.offset + 1}-${page.offset + page.returned} of ${page.total}): call again with cursor "${metadata.nextCursor}"`
+      );
+    }
+    if (metadata?.trimmed) {
+      const { originalBytes, maxBytes } = metadata.trimmed;
+      lines.push(
+        `Response trimmed from ${originalBytes} to fit ${maxBytes} bytes; raise maxTokens or maxBytes for more`
+      );
+    }
+    return lines.length > 0 ? lines.join('\n') : undefined;
+  }
+
+  private async executeTool(name: string, args: any): Promise<CallToolResult> {
+    const logger = this.logger;
+
+    logger.error(
+      `🔧 Executing tool: ${name} with args:`,
+      JSON.stringify(args, null, 2)
+    );
+    const startTime = Date.now();
+
+    try {
+      const result = await this.toolRegistry.executeTool(name, args);
+      logger.timing(`Tool ${name}`, startTime);
+      logger.error(`🔧 Tool ${name} result:`, {
+        success: result.success,
+        hasData: !!result.data,
+        error: result.error,
+      });
+
+      if (result.success) {
+        const notice = this.pagingNotice(result.metadata);
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: formatData(result.data, args?.outputFormat, name),
+            },
+            ...(notice ? [{ type: 'text' as const, text: notice }] : []),
+          ],
+          // Clients that read structured content get the data as is
+          ...(result.data &&
+            typeof result.data === 'object' &&
+            !Array.isArray(result.data) && {
+              structuredContent: result.data,
+            }),
+        };
+      } else {
+        logger.error(`🔧 Tool ${name} returned error: ${result.error}`);
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Error: ${result.error}${
+                result.suggestions
+                  ? '\n\nSuggestions:\n' +
+                    result.suggestions.map((s: string) => `• ${s}`).join('\n')
+                  : ''
+              }`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    } catch (error) {
+      logger.error(`🔧 Tool ${name} threw exception:`, error);
+      logger.error(
+        `🔧 Stack trace:`,
+        error instanceof Error ? error.stack : 'No stack trace'
+      );
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `Internal error executing ${name}: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+}
+
+export * from './http-transport.js';
+export * from './resources.js';
+export * from './prompts.js';
@@ -0,0 +1,301 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import {
+  ErrorCode,
+  McpError,
+  type GetPromptResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { LoadedData, SchemaField, ToolResult } from '../types/index.js';
+import type { BaseTool } from '../tools/base-tool.js';
+import { ResourceDetailsTool } from '../tools/resource-details-tool.js';
+import { ResourceGuidanceTool } from '../tools/resource-guidance-tool.js';
+import { FindSamplesTool } from '../tools/find-samples-tool.js';
+import { ValidateManifestTool } from '../tools/validate-manifest-tool.js';
+
+// How deep into spec the field summary goes before leaving the rest to
+// get-resource-details
+const FIELD_SUMMARY_DEPTH = 2;
+
+/**
+ * Registers prompts that run the discovery → guidance → samples workflow
+ * server-side, so clients get the assembled context without pasting in
+ * SYSTEM_MESSAGE.md. The tools run directly rather than through the
+ * registry, so the prompts still work when crdmcp.config.yaml hides them.
+ */
+export function registerWorkflowPrompts(
+  server: McpServer,
+  getData: () => LoadedData
+): void {
+  const runTool = async (
+    Tool: new (data: LoadedData) => BaseTool,
+    args: Record<string, unknown>
+  ): Promise<ToolResult> => {
+    const tool = new Tool(getData());
+    return tool.applyBudget(await tool.execute(args), args);
+  };
+
+  const resourceType = completable(
+    z
+      .string()
+      .describe(
+        'Resource kind, group/kind or short name (e.g. "RedisCluster")'
+      ),
+    (value) => {
+      const lowerValue = (value || '').toLowerCase();
+      return Array.from(getData().crds.values())
+        .map((crd) => crd.kind)
+        .filter((kind) => kind.toLowerCase().startsWith(lowerValue));
+    }
+  );
+
+  server.registerPrompt(
+    'create-resource',
+    {
+      title: 'Create Resource',
+      description:
+        'Gathers schema, guidance and samples for a resource type and asks for a manifest that follows them',
+      argsSchema: {
+        resourceType,
+        requirements: z
+          .string()
+          .optional()
+          .describe('What the resource should do (e.g. "production, HA")'),
+        namespace: z
+          .string()
+          .optional()
+          .describe('Namespace to create the resource in'),
+      },
+    },
+    async ({ resourceType, requirements, namespace }) => {
+      const details = expectSuccess(
+        await runTool(ResourceDetailsTool, { resourceType })
+      );
+      const { kind, group } = details.data.metadata;
+
+      const guidance = await runTool(ResourceGuidanceTool, {
+        resourceType: kind,
+      });
+      const samples = await runTool(FindSamplesTool, {
+        kind: `${group}/${kind}`,
+      });
+
+      const sections = [
+        `I need to create a ${kind} (${group}) resource.`,
+        requirements && `Requirements: ${requirements}`,
+        namespace && `Namespace: ${namespace}`,
+        [
+          'Work through the material below before writing any YAML:',
+          '1. Read the guidance in full; it documents required procedures and prerequisites.',
+          '2. Start from the sample closest to the requirements and keep its conventions.',
+          '3. Include every required field from the resource details.',
+          '4. Run `validate-manifest` on the result and fix any reported errors before presenting it.',
+          '5. Explain which guidance and sample the manifest is based on.',
+        ].join('\n'),
+        formatDetails(details),
+        formatGuidance(guidance),
+        formatSamples(samples),
+      ];
+
+      return userMessage(
+        `Create a ${kind} resource`,
+        sections.filter(Boolean).join('\n\n')
+      );
+    }
+  );
+
+  server.registerPrompt(
+    'review-manifest',
+    {
+      title: 'Review Manifest',
+      description:
+        'Validates a manifest against the loaded CRD schemas and asks for a review against the documented guidance',
+      argsSchema: {
+        manifest: z.string().describe('YAML manifest to review'),
+        requirements: z
+          .string()
+          .optional()
+          .describe('What the manifest is meant to achieve'),
+      },
+    },
+    async ({ manifest, requirements }) => {
+      const validation = expectSuccess(
+        await runTool(ValidateManifestTool, { manifest })
+      );
+      const results: any[] = validation.data.results;
+
+      const kinds = [
+        ...new Set(results.filter((r) => r.resourceType).map((r) => r.kind)),
+      ];
+      const guidance = await Promise.all(
+        kinds.map((kind) =>
+          runTool(ResourceGuidanceTool, { resourceType: kind })
+        )
+      );
+
+      const sections = [
+        'Review the following Kubernetes manifest.',
+        requirements && `It is meant to: ${requirements}`,
+        ['```yaml', manifest.trim(), '```'].join('\n'),
+        [
+          'For each document:',
+          '1. Explain every schema error below and how to fix it.',
+          '2. Check the configuration against the documented guidance and call out anything it contradicts or omits.',
+          '3. Suggest a corrected manifest and run `validate-manifest` on it.',
+        ].join('\n'),
+        formatValidation(results),
+        ...guidance.map((result, i) =>
+          formatGuidance(result, `Guidance for ${kinds[i]}`)
+        ),
+      ];
+
+      return userMessage(
+        'Review a manifest',
+        sections.filter(Boolean).join('\n\n')
+      );
+    }
+  );
+}
+
+function expectSuccess(result: ToolResult): ToolResult {
+  if (!result.success) {
+    const suggestions = result.suggestions?.length
+      ? ` (${result.suggestions.join('; ')})`
+      : '';
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `${result.error}${suggestions}`
+    );
+  }
+
+  return result;
+}
+
+function userMessage(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+  };
+}
+
+function formatDetails(details: ToolResult): string {
+  const { metadata, schema } = details.data;
+  const lines = [
+    '## Resource details',
+    `- Kind: ${metadata.kind}`,
+    `- Group: ${metadata.group}`,
+    `- Scope: ${metadata.scope}`,
+    `- Versions: ${metadata.versions.join(', ')}`,
+    `- Description: ${metadata.description}`,
+  ];
+
+  const spec = schema?.fields?.find((f: SchemaField) => f.name === 'spec');
+  if (spec?.fields?.length) {
+    lines.push('', `### spec fields (${schema.version})`);
+    lines.push(...formatFields(spec.fields, 0));
+  }
+
+  return lines.join('\n');
+}
+
+function formatFields(fields: SchemaField[], depth: number): string[] {
+  return fields.flatMap((field) => {
+    const flags = [field.type, field.required && 'required']
+      .filter(Boolean)
+      .join(', ');
+    const line = `${'  '.repeat(depth)}- ${field.name} (${flags})${
+      field.description ? `: ${field.description}` : ''
+    }`;
+
+    const children = field.fields || field.items?.fields;
+    if (!children?.length || depth + 1 >= FIELD_SUMMARY_DEPTH) {
+      return [line];
+    }
+
+    return [line, ...formatFields(children, depth + 1)];
+  });
+}
+
+function formatGuidance(
+  guidance: ToolResult,
+  heading: string = 'Guidance'
+): string {
+  if (!guidance.success) {
+    return `## ${heading}\nNo guidance documents are loaded for this resource.`;
+  }
+
+  return [
+    `## ${heading}`,
+    ...guidance.data.guidance.map(
+      (doc: any) => `### ${doc.title}\n\n${guidanceText(doc)}`
+    ),
+  ].join('\n\n');
+}
+
+/**
+ * Long documents come back as their most relevant sections and an outline
+ * instead of their full content.
+ */
+function guidanceText(doc: any): string {
+  if (typeof doc.content === 'string') {
+    return doc.content.trim();
+  }
+
+  const shown = new Set<string>();
+  const sections = (doc.sections || []).map((section: any) => {
+    shown.add(section.anchor);
+    return `#### ${section.heading}\n\n${section.content.trim()}`;
+  });
+  const others = (doc.outline || [])
+    .filter((entry: any) => !shown.has(entry.anchor))
+    .map((entry: any) => `- ${entry.heading} (${entry.anchor})`);
+
+  return [
+    ...sections,
+    ...(others.length > 0
+      ? [
+          `Other sections, available through "get-instruction-section" with filePath "${doc.filePath}":\n${others.join('\n')}`,
+        ]
+      : []),
+  ].join('\n\n');
+}
+
+function formatSamples(samples: ToolResult): string {
+  if (!samples.success) {
+    return '## Samples\nNo samples are loaded for this resource.';
+  }
+
+  return [
+    '## Samples',
+    ...samples.data.samples.map(
+      (sample: any) =>
+        `### ${sample.description} (${sample.complexity})\n\n\`\`\`yaml\n${sample.yaml.trim()}\n\`\`\``
+    ),
+  ].join('\n\n');
+}
+
+function formatValidation(results: any[]): string {
+  const lines = ['## Validation results'];
+
+  for (const result of results) {
+    const label = `${result.kind || 'document'} ${result.name || `#${result.index + 1}`}`;
+    if (result.validated === false) {
+      lines.push(`- ${label}: not validated (no CRD loaded)`);
+      continue;
+    }
+    if (result.valid) {
+      lines.push(`- ${label}: valid`);
+      continue;
+    }
+
+    lines.push(`- ${label}:`);
+    for (const error of result.errors) {
+      lines.push(`  - ${error.path}: ${error.message}`);
+    }
+    if (result.didYouMean?.length) {
+      lines.push(`  - Did you mean: ${result.didYouMean.join(', ')}`);
+    }
+  }
+
+  return lines.join('\n');
+}
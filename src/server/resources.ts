@@ -0,0 +1,290 @@
+import { basename, relative, sep } from 'path';
+import * as yaml from 'js-yaml';
+import {
+  ResourceTemplate,
+  type McpServer,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type {
+  CRDMetadata,
+  InstructionDocument,
+  LoadedData,
+  SampleManifest,
+} from '../types/index.js';
+import { manifestBaseName } from '../loaders/manifest-file.js';
+import { CORE_GROUP } from '../utils/helpers.js';
+import { toYaml } from '../utils/yaml.js';
+
+export const YAML_MIME_TYPE = 'application/yaml';
+export const MARKDOWN_MIME_TYPE = 'text/markdown';
+
+type Variables = Record<string, string | string[]>;
+
+/**
+ * Registers CRDs, schemas, samples and instruction documents as browsable
+ * resources. Data is looked up on every request so reloads show up without
+ * re-registering anything.
+ */
+export function registerDataResources(
+  server: McpServer,
+  getData: () => LoadedData,
+  dataDir: string
+): void {
+  const crds = () => Array.from(getData().crds.values());
+  const samples = () => Array.from(getData().samples.values()).flat();
+  const instructions = () => getData().instructions;
+
+  server.registerResource(
+    'crd',
+    new ResourceTemplate('crd://{group}/{kind}', {
+      list: async () => ({
+        resources: crds().map((crd) => ({
+          uri: crdUri(crd),
+          name: `${crd.group}/${crd.kind}`,
+          description: crd.description,
+          mimeType: YAML_MIME_TYPE,
+        })),
+      }),
+      complete: {
+        group: (value) =>
+          matching(
+            crds().map((crd) => crd.group),
+            value
+          ),
+        kind: (value, context) =>
+          matching(
+            crds()
+              .filter(
+                (crd) =>
+                  !context?.arguments?.group ||
+                  crd.group === context.arguments.group
+              )
+              .map((crd) => crd.kind),
+            value
+          ),
+      },
+    }),
+    {
+      title: 'Custom Resource Definition',
+      description: 'Summary of a CRD: names, scope, versions and description',
+      mimeType: YAML_MIME_TYPE,
+    },
+    async (uri, variables) => {
+      const crd = findCRD(getData(), variables);
+      if (!crd) {
+        throw notFound(uri.href);
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: YAML_MIME_TYPE,
+            text: yaml.dump(describeCRD(crd)),
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerResource(
+    'crd-schema',
+    new ResourceTemplate('crd://{group}/{kind}/schema/{version}', {
+      list: async () => ({
+        resources: crds().flatMap((crd) =>
+          Object.keys(crd.schemas || {}).map((version) => ({
+            uri: schemaUri(crd, version),
+            name: `${crd.group}/${crd.kind} ${version} schema`,
+            mimeType: YAML_MIME_TYPE,
+          }))
+        ),
+      }),
+    }),
+    {
+      title: 'CRD Schema',
+      description: 'openAPIV3Schema for one version of a CRD',
+      mimeType: YAML_MIME_TYPE,
+    },
+    async (uri, variables) => {
+      const crd = findCRD(getData(), variables);
+      const schema = crd?.schemas?.[variable(variables, 'version')];
+      if (!schema) {
+        throw notFound(uri.href);
+      }
+
+      return {
+        contents: [
+          { uri: uri.href, mimeType: YAML_MIME_TYPE, text: yaml.dump(schema) },
+        ],
+      };
+    }
+  );
+
+  server.registerResource(
+    'sample',
+    new ResourceTemplate('sample://{group}/{kind}/{name}/{+path}', {
+      list: async () => ({
+        resources: samples().map((sample) => ({
+          uri: sampleUri(sample, dataDir),
+          name: `${sample.kind}/${sampleName(sample)}`,
+          description: sample.description,
+          mimeType: YAML_MIME_TYPE,
+        })),
+      }),
+      complete: {
+        kind: (value) =>
+          matching(
+            samples().map((sample) => sample.kind),
+            value
+          ),
+      },
+    }),
+    {
+      title: 'Sample Manifest',
+      description: 'Example manifest for a custom resource',
+      mimeType: YAML_MIME_TYPE,
+    },
+    async (uri) => {
+      const sample = samples().find((s) => sampleUri(s, dataDir) === uri.href);
+      if (!sample) {
+        throw notFound(uri.href);
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: YAML_MIME_TYPE,
+            text: sample.source ?? toYaml(sample.content),
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerResource(
+    'instruction',
+    new ResourceTemplate('instruction://{+path}', {
+      list: async () => ({
+        resources: instructions().map((doc) => ({
+          uri: instructionUri(doc, dataDir),
+          name: doc.title,
+          mimeType: MARKDOWN_MIME_TYPE,
+        })),
+      }),
+    }),
+    {
+      title: 'Instruction Document',
+      description: 'Guidance document for working with custom resources',
+      mimeType: MARKDOWN_MIME_TYPE,
+    },
+    async (uri) => {
+      const doc = instructions().find(
+        (d) => instructionUri(d, dataDir) === uri.href
+      );
+      if (!doc) {
+        throw notFound(uri.href);
+      }
+
+      return {
+        contents: [
+          { uri: uri.href, mimeType: MARKDOWN_MIME_TYPE, text: doc.content },
+        ],
+      };
+    }
+  );
+}
+
+export function crdUri(crd: CRDMetadata): string {
+  return `crd://${encodeURIComponent(crd.group)}/${encodeURIComponent(crd.kind)}`;
+}
+
+export function schemaUri(crd: CRDMetadata, version: string): string {
+  return `${crdUri(crd)}/schema/${encodeURIComponent(version)}`;
+}
+
+/**
+ * Samples often share a kind and name (simple and advanced variants, or the
+ * same kind in several groups), so the URI also holds the group and file.
+ */
+export function sampleUri(sample: SampleManifest, dataDir: string): string {
+  return [
+    `sample://${encodeURIComponent(sample.group || CORE_GROUP)}`,
+    encodeURIComponent(sample.kind),
+    encodeURIComponent(sampleName(sample)),
+    layerPath(sample.filePath, sample.layer, dataDir),
+  ].join('/');
+}
+
+export function instructionUri(
+  doc: InstructionDocument,
+  dataDir: string
+): string {
+  return `instruction://${layerPath(doc.filePath, doc.layer, dataDir)}`;
+}
+
+/**
+ * Path of a file relative to the layer it came from, which is also what
+ * overrides match on; anything outside falls back to the file name.
+ */
+function layerPath(
+  filePath: string,
+  layer: string | undefined,
+  dataDir: string
+): string {
+  let path = relative(layer || dataDir, filePath);
+  if (!path || path.startsWith('..')) {
+    path = basename(filePath);
+  }
+
+  return path.split(sep).map(encodeURIComponent).join('/');
+}
+
+function sampleName(sample: SampleManifest): string {
+  return sample.metadata.name || manifestBaseName(sample.filePath);
+}
+
+function describeCRD(crd: CRDMetadata): Record<string, unknown> {
+  return {
+    group: crd.group,
+    kind: crd.kind,
+    plural: crd.plural,
+    singular: crd.singular,
+    shortNames: crd.shortNames,
+    scope: crd.scope,
+    category: crd.category,
+    categories: crd.categories,
+    description: crd.description,
+    versions: crd.versions,
+    storageVersion: crd.storageVersion,
+    versionDetails: crd.versionDetails,
+    schemas: Object.keys(crd.schemas || {}).map((version) =>
+      schemaUri(crd, version)
+    ),
+  };
+}
+
+function findCRD(
+  data: LoadedData,
+  variables: Variables
+): CRDMetadata | undefined {
+  const group = variable(variables, 'group');
+  const kind = variable(variables, 'kind');
+  return data.crds.get(`${group}/${kind}`);
+}
+
+function variable(variables: Variables, name: string): string {
+  const value = variables[name];
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value || '');
+}
+
+function matching(values: string[], prefix: string): string[] {
+  const lowerPrefix = prefix.toLowerCase();
+  return Array.from(new Set(values)).filter((value) =>
+    value.toLowerCase().startsWith(lowerPrefix)
+  );
+}
+
+function notFound(uri: string): McpError {
+  return new McpError(ErrorCode.InvalidParams, `Resource ${uri} not found`);
+}
@@ -0,0 +1,352 @@
+import { z, type ZodRawShape } from 'zod';
+import { BaseTool } from './base-tool.js';
+import type {
+  CRDMetadata,
+  InstructionDocument,
+  ToolResult,
+} from '../types/index.js';
+import { generateResourceKey } from '../utils/helpers.js';
+import { getVersionSchema } from '../utils/schema.js';
+
+// Well-known ports used when the guidance does not declare one
+const CONVENTIONAL_PORTS: Array<{ pattern: RegExp; port: number }> = [
+  { pattern: /postgres/i, port: 5432 },
+  { pattern: /mysql|maria/i, port: 3306 },
+  { pattern: /redis/i, port: 6379 },
+  { pattern: /mongo/i, port: 27017 },
+  { pattern: /kafka/i, port: 9092 },
+  { pattern: /rabbit/i, port: 5672 },
+  { pattern: /elastic|opensearch/i, port: 9200 },
+];
+
+// A field is about connecting when its last word, ignoring trailing
+// qualifiers, is one of these: connectionSecretRef and servicePort are,
+// serviceAccountName and hostNetwork are not
+const CONNECTION_WORDS = new Set([
+  'secret',
+  'connection',
+  'credential',
+  'endpoint',
+  'host',
+  'hostname',
+  'port',
+  'service',
+  'url',
+  'uri',
+  'dns',
+  'address',
+]);
+const QUALIFIER_WORDS = new Set([
+  'ref',
+  'name',
+  'key',
+  'info',
+  'detail',
+  'string',
+]);
+
+export class AccessPatternsTool extends BaseTool {
+  get name(): string {
+    return 'get-access-patterns';
+  }
+
+  get description(): string {
+    return 'Explains how workloads connect to an instance of a resource type: connection secrets, service DNS names, ports and environment variable conventions. Use this when wiring an application to a database or other backing service.';
+  }
+
+  get inputSchema(): any {
+    return {
+      resourceType: z
+        .string()
+        .describe(
+          'Resource type in format "group/kind", or a kind or short name'
+        ),
+      name: z
+        .string()
+        .optional()
+        .describe('Name of the resource instance (default: "<name>")'),
+      namespace: z
+        .string()
+        .optional()
+        .describe(
+          'Namespace of the resource instance (default: the catalog default namespace, usually "default")'
+        ),
+    };
+  }
+
+  get outputSchema(): ZodRawShape {
+    return {
+      resourceType: z.string(),
+      instance: z.record(z.unknown()),
+      connection: z
+        .record(z.unknown())
+        .describe('Service DNS, ports, secret and environment variables'),
+      documentedPatterns: z.array(z.record(z.unknown())),
+      schemaFields: z.array(z.record(z.unknown())),
+    };
+  }
+
+  async execute(args: any): Promise<ToolResult> {
+    try {
+      const {
+        resourceType,
+        name = '<name>',
+        namespace = this.defaultNamespace,
+      } = args;
+
+      if (!resourceType || typeof resourceType !== 'string') {
+        return this.error(
+          'resourceType is required and must be a string in format "group/kind"',
+          ['Use "list-available-resources" to see all available resource types']
+        );
+      }
+
+      const crd = this.resolveCRD(resourceType);
+      if (!crd) {
+        const suggestions = this.findSimilarResources(resourceType, 5);
+        return this.error(
+          `Resource type "${resourceType}" not found`,
+          suggestions.length > 0
+            ? [`Did you mean: ${suggestions.join(', ')}?`]
+            : [
+                'Use "list-available-resources" to see all available resource types',
+              ]
+        );
+      }
+
+      const variables = { name, namespace, kind: crd.kind };
+      const documentedPatterns = this.findDocumentedPatterns(crd, variables);
+      const schemaFields = this.findConnectionFields(crd);
+      const connection = this.buildConnection(
+        crd,
+        variables,
+        documentedPatterns,
+        schemaFields
+      );
+
+      const result = {
+        resourceType: generateResourceKey(crd.group, crd.kind),
+        instance: { name, namespace },
+        connection,
+        documentedPatterns,
+        schemaFields,
+      };
+
+      return this.success(
+        result,
+        this.generateAccessSuggestions(crd, documentedPatterns, schemaFields),
+        {
+          documentedPatternsFound: documentedPatterns.length,
+          schemaFieldsFound: schemaFields.length,
+        }
+      );
+    } catch (error) {
+      return this.error(
+        `Failed to get access patterns: ${error instanceof Error ? error.message : String(error)}`,
+        ['Check that the resource type format is correct (group/kind)']
+      );
+    }
+  }
+
+  private findDocumentedPatterns(
+    crd: CRDMetadata,
+    variables: Record<string, string>
+  ): any[] {
+    const patterns: any[] = [];
+
+    for (const instruction of this.data.instructions) {
+      const accessPatterns = instruction.frontmatter.accessPatterns;
+      if (!accessPatterns || !this.appliesTo(instruction, crd)) {
+        continue;
+      }
+
+      const entries = Array.isArray(accessPatterns)
+        ? accessPatterns
+        : [accessPatterns];
+
+      for (const entry of entries) {
+        if (!entry || typeof entry !== 'object') continue;
+
+        // Entries may be scoped to a kind when a guide covers several CRDs
+        if (entry.kind && entry.kind !== crd.kind) continue;
+
+        patterns.push({
+          ...this.substitute(entry, variables),
+          source: instruction.title,
+          filePath: instruction.filePath,
+        });
+      }
+    }
+
+    return patterns;
+  }
+
+  private appliesTo(
+    instruction: InstructionDocument,
+    crd: CRDMetadata
+  ): boolean {
+    const lowerKind = crd.kind.toLowerCase();
+    const applicableCRDs =
+      instruction.frontmatter.applicableCRDs || instruction.detectedCRDs;
+
+    return applicableCRDs.some(
+      (applicable: string) =>
+        applicable.toLowerCase() === lowerKind ||
+        applicable.toLowerCase() ===
+          generateResourceKey(crd.group, crd.kind).toLowerCase()
+    );
+  }
+
+  private findConnectionFields(crd: CRDMetadata): any[] {
+    const schema = getVersionSchema(crd);
+    const fields: any[] = [];
+
+    const visit = (node: any, path: string, depth: number) => {
+      if (!node?.properties || depth > 4) return;
+
+      for (const [fieldName, property] of Object.entries<any>(
+        node.properties
+      )) {
+        const fieldPath = path ? `${path}.${fieldName}` : fieldName;
+
+        if (isConnectionField(fieldName)) {
+          fields.push({
+            path: fieldPath,
+            type: property?.type,
+            description: property?.description,
+            // status fields are populated by the operator once the instance is ready
+            providedBy: fieldPath.startsWith('status') ? 'operator' : 'user',
+          });
+        }
+
+        visit(property, fieldPath, depth + 1);
+      }
+    };
+
+    visit(schema, '', 0);
+    return fields;
+  }
+
+  private buildConnection(
+    crd: CRDMetadata,
+    variables: Record<string, string>,
+    documentedPatterns: any[],
+    schemaFields: any[]
+  ): any {
+    const documented = documentedPatterns[0] || {};
+    const { name, namespace } = variables;
+    const envPrefix = crd.kind
+      .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+      .toUpperCase();
+
+    const conventionalPort = CONVENTIONAL_PORTS.find(({ pattern }) =>
+      pattern.test(crd.kind)
+    )?.port;
+
+    const serviceName = documented.serviceName || name;
+    const serviceDNS =
+      documented.serviceDNS ||
+      (crd.scope === 'Namespaced'
+        ? `${serviceName}.${namespace}.svc.cluster.local`
+        : undefined);
+    const secretField = schemaFields.find((field) =>
+      /secret|credential/i.test(field.path)
+    );
+
+    return {
+      serviceName,
+      serviceDNS,
+      ports:
+        documented.ports ||
+        (documented.port !== undefined
+          ? [documented.port]
+          : conventionalPort
+            ? [conventionalPort]
+            : []),
+      secretName: documented.secretName,
+      secretKeys: documented.secretKeys,
+      secretFromField: documented.secretName ? undefined : secretField?.path,
+      envVars: documented.envVars || {
+        ...(serviceDNS && { [`${envPrefix}_HOST`]: serviceDNS }),
+        ...(conventionalPort && {
+          [`${envPrefix}_PORT`]: String(conventionalPort),
+        }),
+      },
+      notes: documented.notes,
+      source: documentedPatterns.length > 0 ? 'documented' : 'convention',
+    };
+  }
+
+  private substitute(value: any, variables: Record<string, string>): any {
+    if (typeof value === 'string') {
+      return value.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key) =>
+        key in variables ? variables[key] : match
+      );
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item) => this.substitute(item, variables));
+    }
+
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          this.substitute(item, variables),
+        ])
+      );
+    }
+
+    return value;
+  }
+
+  private generateAccessSuggestions(
+    crd: CRDMetadata,
+    documentedPatterns: any[],
+    schemaFields: any[]
+  ): string[] {
+    const suggestions: string[] = [];
+
+    if (documentedPatterns.length === 0) {
+      suggestions.push(
+        `No documented access patterns for ${crd.kind} - connection details are based on conventions, confirm them with the platform team`
+      );
+      suggestions.push(
+        'Add an "accessPatterns" block to the frontmatter of the resource guide to document the real values'
+      );
+    }
+
+    if (schemaFields.some((field) => field.providedBy === 'operator')) {
+      suggestions.push(
+        'Some connection details are published in the resource status once it is ready - read them with kubectl get'
+      );
+    }
+
+    suggestions.push(
+      `Use "get-resource-guidance" with resourceType "${crd.kind}" for full connection instructions`
+    );
+
+    return suggestions;
+  }
+}
+
+function isConnectionField(fieldName: string): boolean {
+  const words = fieldName
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[\s_-]+/)
+    .filter(Boolean)
+    .map((word) => singular(word.toLowerCase()));
+
+  while (words.length > 1 && QUALIFIER_WORDS.has(words[words.length - 1])) {
+    words.pop();
+  }
+  return CONNECTION_WORDS.has(words[words.length - 1]);
+}
+
+function singular(word: string): string {
+  return word.length > 3 && word.endsWith('s') && !word.endsWith('ss')
+    ? word.slice(0, -1)
+    : word;
+}
@@ -1,5 +1,75 @@
-import type { LoadedData, ToolResult } from '../types/index.js';
-import { calculateSimilarity } from '../utils/helpers.js';
+import { z, type ZodRawShape } from 'zod';
+import { Buffer } from 'buffer';
+import { createHash } from 'crypto';
+import type {
+  CRDMetadata,
+  InstructionDocument,
+  InstructionSection,
+  LoadedData,
+  SampleManifest,
+  ToolResult,
+} from '../types/index.js';
+import { generateResourceKey, parseResourceKey } from '../utils/helpers.js';
+import { versionWarning } from '../utils/schema.js';
+import { SearchIndex, tokenize } from '../search/index.js';
+import { flattenSections, getSections } from '../utils/markdown.js';
+import {
+  BYTES_PER_TOKEN,
+  DEFAULT_MAX_BYTES,
+  responseSize,
+  trimToBudget,
+} from '../utils/budget.js';
+import { OUTPUT_FORMATS } from '../utils/format.js';
+
+// Sections of an instruction document returned when it is too long to
+// return whole
+const MAX_SECTIONS = 3;
+
+// Arguments that page through, size or format a response rather than
+// select data
+const PAGING_ARGS = new Set([
+  'limit',
+  'cursor',
+  'maxTokens',
+  'maxBytes',
+  'outputFormat',
+]);
+
+/** Response size parameters accepted by every tool. */
+export const RESPONSE_BUDGET_SCHEMA = {
+  maxTokens: z
+    .number()
+    .int()
+    .min(100)
+    .optional()
+    .describe(
+      'Approximate token budget for the response; larger results are trimmed (default: about 25000)'
+    ),
+  maxBytes: z
+    .number()
+    .int()
+    .min(400)
+    .optional()
+    .describe('Byte budget for the JSON response; larger results are trimmed'),
+};
+
+/** Output format parameter accepted by every tool. */
+export const OUTPUT_FORMAT_SCHEMA = {
+  outputFormat: z
+    .enum(OUTPUT_FORMATS)
+    .optional()
+    .describe(
+      'Format of the text response: json (default), yaml, or markdown; manifests keep their comments in yaml and markdown'
+    ),
+};
+
+export interface PageInfo {
+  field: string; // data property holding the paginated list
+  offset: number;
+  limit: number;
+  returned: number;
+  total: number;
+}
 
 export abstract class BaseTool {
   constructor(protected data: LoadedData) {}
@@ -10,6 +80,312 @@ export abstract class BaseTool {
 
   abstract execute(args: any): Promise<ToolResult>;
 
+  /**
+   * Zod shape of `data` in successful results, declared to clients as the
+   * tool's output schema and returned as structured content.
+   */
+  get outputSchema(): ZodRawShape | undefined {
+    return undefined;
+  }
+
+  /** The tool's own parameters plus the shared response options. */
+  get parameters(): any {
+    return {
+      ...this.inputSchema,
+      ...RESPONSE_BUDGET_SCHEMA,
+      ...OUTPUT_FORMAT_SCHEMA,
+    };
+  }
+
+  /**
+   * Trims a successful result to the call's maxTokens/maxBytes, or to the
+   * default budget. When items of a page are dropped, metadata.nextCursor
+   * points at the first dropped one.
+   */
+  applyBudget(result: ToolResult, args: any = {}): ToolResult {
+    if (!result.success || result.data === undefined) {
+      return result;
+    }
+
+    const maxBytes = this.responseBudget(args);
+    const originalBytes = responseSize(result.data);
+    if (originalBytes <= maxBytes) {
+      return result;
+    }
+
+    const page: PageInfo | undefined = result.metadata?.pagination;
+    const trimmed = trimToBudget(result.data, maxBytes, page?.field);
+    const droppedItems =
+      page && trimmed.itemsKept !== undefined
+        ? page.returned - trimmed.itemsKept
+        : 0;
+
+    const metadata: Record<string, any> = {
+      ...result.metadata,
+      trimmed: {
+        originalBytes,
+        bytes: trimmed.bytes,
+        maxBytes,
+        ...(droppedItems > 0 && { droppedItems }),
+        ...(trimmed.stringsShortened > 0 && {
+          stringsShortened: trimmed.stringsShortened,
+        }),
+        ...(trimmed.arraysShortened.length > 0 && {
+          arraysShortened: trimmed.arraysShortened,
+        }),
+      },
+    };
+    if (page && droppedItems > 0) {
+      Object.assign(
+        metadata,
+        this.pageMetadata(args, { ...page, returned: trimmed.itemsKept! })
+      );
+    }
+
+    return {
+      ...result,
+      data: trimmed.data,
+      suggestions: [
+        ...(result.suggestions || []),
+        `Response trimmed to fit ${maxBytes} bytes; ${metadata.nextCursor ? 'pass metadata.nextCursor as cursor for the rest, or ' : ''}raise maxTokens or maxBytes`,
+      ],
+      metadata,
+    };
+  }
+
+  updateData(data: LoadedData): void {
+    this.data = data;
+  }
+
+  /** limit and cursor parameters for a tool returning a list of `noun`. */
+  protected paginationSchema(
+    noun: string,
+    defaultLimit: number,
+    maxLimit: number
+  ) {
+    return {
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(maxLimit)
+        .default(defaultLimit)
+        .optional()
+        .describe(
+          `Maximum number of ${noun} per page (default: ${defaultLimit})`
+        ),
+      cursor: z
+        .string()
+        .optional()
+        .describe(
+          'metadata.nextCursor from the previous page, to get the next one'
+        ),
+    };
+  }
+
+  /**
+   * One page of `items`, with the pagination metadata for it. The cursor
+   * holds the offset and a fingerprint of the other arguments, so it cannot
+   * be used with a different query.
+   */
+  protected paginate<T>(
+    items: T[],
+    args: any,
+    field: string,
+    defaultLimit: number
+  ): { items: T[]; metadata: Record<string, any> } {
+    const offset = args.cursor ? this.decodeCursor(args.cursor, args) : 0;
+    const limit = args.limit ?? defaultLimit;
+    const page = items.slice(offset, offset + limit);
+
+    return {
+      items: page,
+      metadata: this.pageMetadata(args, {
+        field,
+        offset,
+        limit,
+        returned: page.length,
+        total: items.length,
+      }),
+    };
+  }
+
+  private pageMetadata(args: any, page: PageInfo): Record<string, any> {
+    const next = page.offset + page.returned;
+    return {
+      pagination: page,
+      ...(next < page.total && { nextCursor: this.encodeCursor(next, args) }),
+    };
+  }
+
+  private encodeCursor(offset: number, args: any): string {
+    return Buffer.from(
+      JSON.stringify({ offset, query: this.queryFingerprint(args) })
+    ).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string, args: any): number {
+    let decoded: any;
+    try {
+      decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      decoded = undefined;
+    }
+
+    if (!Number.isInteger(decoded?.offset) || decoded.offset < 0) {
+      throw new Error(
+        `Invalid cursor "${cursor}"; omit cursor to start from the first page`
+      );
+    }
+    if (decoded.query !== this.queryFingerprint(args)) {
+      throw new Error(
+        'The cursor belongs to a different query; omit cursor to start from the first page'
+      );
+    }
+    return decoded.offset;
+  }
+
+  private queryFingerprint(args: any): string {
+    const query = Object.keys(args)
+      .filter((key) => !PAGING_ARGS.has(key) && args[key] !== undefined)
+      .sort()
+      .map((key) => [key, args[key]]);
+    return createHash('sha1')
+      .update(JSON.stringify([this.name, query]))
+      .digest('hex')
+      .slice(0, 12);
+  }
+
+  private responseBudget(args: any): number {
+    const budgets = [
+      args.maxBytes,
+      args.maxTokens && args.maxTokens * BYTES_PER_TOKEN,
+    ].filter((budget) => typeof budget === 'number' && budget > 0);
+    return budgets.length > 0 ? Math.min(...budgets) : DEFAULT_MAX_BYTES;
+  }
+
+  /** The DataLoader builds the index; data assembled elsewhere gets one lazily. */
+  protected get searchIndex(): SearchIndex {
+    this.data.searchIndex ??= new SearchIndex(this.data);
+    return this.data.searchIndex;
+  }
+
+  /** Namespace for examples and generated manifests, from crdmcp.config.yaml. */
+  protected get defaultNamespace(): string {
+    return this.data.catalog?.defaultNamespace || 'default';
+  }
+
+  /** Categories of the loaded CRDs, including spec.names.categories, sorted. */
+  protected get categories(): string[] {
+    const categories = new Set<string>();
+    for (const crd of this.data.crds.values()) {
+      if (crd.category) {
+        categories.add(crd.category);
+      }
+      crd.categories?.forEach((category) => categories.add(category));
+    }
+    return Array.from(categories).sort();
+  }
+
+  /** Warning when a sample uses a deprecated or unserved CRD version. */
+  protected sampleVersionWarning(sample: SampleManifest): string | undefined {
+    const crd = this.data.crds.get(
+      generateResourceKey(sample.group, sample.kind)
+    );
+    return crd && versionWarning(crd, sample.version);
+  }
+
+  protected hasCategory(crd: CRDMetadata, category: string): boolean {
+    return (
+      crd.category === category || Boolean(crd.categories?.includes(category))
+    );
+  }
+
+  /**
+   * Optional category parameter restricted to the categories actually in the
+   * data, so the enum follows whatever the catalog defines.
+   */
+  protected categorySchema(description: string, extra: string[] = []) {
+    const categories = Array.from(
+      new Set([...this.categories, ...extra])
+    ).sort();
+    if (categories.length === 0) {
+      return z.string().optional().describe(description);
+    }
+
+    const definitions = this.data.catalog?.categories || [];
+    const listed = categories.map((name) => {
+      const definition = definitions.find((d) => d.name === name);
+      return definition?.description
+        ? `${name} (${definition.description})`
+        : name;
+    });
+
+    return z
+      .enum(categories as [string, ...string[]])
+      .optional()
+      .describe(`${description}: ${listed.join(', ')}`);
+  }
+
+  /** A section as returned by tools, with the headings leading to it. */
+  protected sectionView(section: InstructionSection) {
+    return {
+      anchor: section.anchor,
+      heading: section.heading,
+      breadcrumbs: section.breadcrumbs,
+      content: section.content,
+      ...(section.children.length > 0 && {
+        subsections: section.children.map((child) => child.anchor),
+      }),
+    };
+  }
+
+  /** Headings of a document with their anchors, in document order. */
+  protected documentOutline(doc: InstructionDocument) {
+    return flattenSections(getSections(doc)).map((section) => ({
+      anchor: section.anchor,
+      heading: section.heading,
+      level: section.level,
+    }));
+  }
+
+  /**
+   * The sections of a document that best match the given words, in document
+   * order. A word in the heading counts three times as much as one in the
+   * text, and sections scoring under half the best are left out. Without any
+   * match the opening sections are returned.
+   */
+  protected relevantSections(
+    doc: InstructionDocument,
+    terms: string[],
+    limit: number = MAX_SECTIONS
+  ) {
+    const words = new Set(terms.flatMap((term) => tokenize(term)));
+    const matches = (text: string) =>
+      new Set(tokenize(text).filter((word) => words.has(word))).size;
+
+    const scored = flattenSections(getSections(doc))
+      .filter((section) => section.content)
+      .map((section, position) => ({
+        section,
+        position,
+        score: matches(section.heading) * 3 + matches(section.content),
+      }));
+
+    const best = Math.max(0, ...scored.map(({ score }) => score));
+    const selected =
+      best > 0
+        ? scored
+            .filter(({ score }) => score >= best / 2)
+            .sort((a, b) => b.score - a.score || a.position - b.position)
+        : scored;
+
+    return selected
+      .slice(0, limit)
+      .sort((a, b) => a.position - b.position)
+      .map(({ section }) => this.sectionView(section));
+  }
+
   protected success(
     data: any,
     suggestions?: string[],
@@ -31,40 +407,74 @@ export abstract class BaseTool {
     };
   }
 
-  protected findSimilarResources(query: string, limit: number = 5): string[] {
-    const candidates: { key: string; similarity: number }[] = [];
+  protected resolveCRD(resourceType: string): CRDMetadata | undefined {
+    // Try exact match first, then alternative lookups
+    const exact = this.data.crds.get(resourceType);
+    if (exact) {
+      return exact;
+    }
 
-    // Check CRD kinds and groups
-    for (const [key, crd] of this.data.crds) {
-      const kindSimilarity = calculateSimilarity(
-        query.toLowerCase(),
-        crd.kind.toLowerCase()
-      );
-      const groupSimilarity = calculateSimilarity(
-        query.toLowerCase(),
-        crd.group.toLowerCase()
-      );
-      const pluralSimilarity = calculateSimilarity(
-        query.toLowerCase(),
-        crd.plural.toLowerCase()
-      );
+    const lowerResourceType = resourceType.toLowerCase();
 
-      const maxSimilarity = Math.max(
-        kindSimilarity,
-        groupSimilarity,
-        pluralSimilarity
-      );
+    // Try to find by kind only
+    for (const [, crd] of this.data.crds) {
+      if (crd.kind.toLowerCase() === lowerResourceType) {
+        return crd;
+      }
+    }
 
-      if (maxSimilarity > 0.3) {
-        // Threshold for similarity
-        candidates.push({ key, similarity: maxSimilarity });
+    // Try to find by short name
+    for (const [, crd] of this.data.crds) {
+      if (
+        crd.shortNames?.some(
+          (shortName) => shortName.toLowerCase() === lowerResourceType
+        )
+      ) {
+        return crd;
       }
     }
 
-    return candidates
-      .sort((a, b) => b.similarity - a.similarity)
-      .slice(0, limit)
-      .map((c) => c.key);
+    return undefined;
+  }
+
+  protected getSamples(crd: CRDMetadata): SampleManifest[] {
+    return (
+      this.data.samples.get(generateResourceKey(crd.group, crd.kind)) || []
+    );
+  }
+
+  protected resolveSamples(
+    resourceType: string
+  ): { key: string; samples: SampleManifest[] } | undefined {
+    const exact = this.data.samples.get(resourceType);
+    if (exact) {
+      return { key: resourceType, samples: exact };
+    }
+
+    // Resolve the same way as CRDs so kinds and short names work
+    const crd = this.resolveCRD(resourceType);
+    if (crd) {
+      return {
+        key: generateResourceKey(crd.group, crd.kind),
+        samples: this.getSamples(crd),
+      };
+    }
+
+    // Samples may exist for kinds without a loaded CRD, e.g. core resources
+    const lowerResourceType = resourceType.toLowerCase();
+    for (const [key, samples] of this.data.samples) {
+      if (parseResourceKey(key).kind.toLowerCase() === lowerResourceType) {
+        return { key, samples };
+      }
+    }
+
+    return undefined;
+  }
+
+  protected findSimilarResources(query: string, limit: number = 5): string[] {
+    return this.searchIndex
+      .search(query, { types: ['crd'], limit })
+      .map((hit) => hit.id);
   }
 
   protected findRelevantInstructions(
@@ -116,11 +526,13 @@ export abstract class BaseTool {
       })
       .map((instruction) => ({
         title: instruction.title,
-        content:
-          instruction.content.slice(0, 500) +
-          (instruction.content.length > 500 ? '...' : ''),
+        sections: this.relevantSections(instruction, [
+          resourceType || '',
+          ...(tags || []),
+        ]),
         tags: instruction.tags,
         filePath: instruction.filePath,
+        layer: instruction.layer,
       }));
   }
 
@@ -130,7 +542,7 @@ export abstract class BaseTool {
     const results = [];
 
     for (const [key, crd] of this.data.crds) {
-      if (!category || crd.category === category) {
+      if (!category || this.hasCategory(crd, category)) {
         results.push({ key, crd });
       }
     }
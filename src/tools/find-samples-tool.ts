@@ -1,6 +1,8 @@
-import { z } from 'zod';
+import { z, type ZodRawShape } from 'zod';
 import { BaseTool } from './base-tool.js';
 import type { ToolResult } from '../types/index.js';
+import { parseResourceKey } from '../utils/helpers.js';
+import { toYaml } from '../utils/yaml.js';
 
 export class FindSamplesTool extends BaseTool {
   get name(): string {
@@ -15,7 +17,9 @@ export class FindSamplesTool extends BaseTool {
     return {
       kind: z
         .string()
-        .describe('Resource kind to find samples for (e.g., "RedisCluster")'),
+        .describe(
+          'Resource type to find samples for: kind, group/kind or short name (e.g., "RedisCluster")'
+        ),
       complexity: z
         .enum(['simple', 'intermediate', 'advanced'])
         .optional()
@@ -28,7 +32,26 @@ export class FindSamplesTool extends BaseTool {
         .boolean()
         .default(true)
         .optional()
-        .describe('Include full manifest content in response (default: true)'),
+        .describe(
+          'Include the full manifest, as parsed content and as YAML with its comments (default: true)'
+        ),
+      ...this.paginationSchema('samples', 20, 100),
+    };
+  }
+
+  get outputSchema(): ZodRawShape {
+    return {
+      kind: z.string(),
+      resourceType: z.string(),
+      totalSamples: z.number(),
+      filteredCount: z.number().describe('Samples matching the filters'),
+      samples: z
+        .array(z.record(z.unknown()))
+        .describe(
+          'Samples on this page; with includeContent, content holds the manifest and yaml its source text'
+        ),
+      availableComplexities: z.array(z.string()),
+      availableTags: z.array(z.string()),
     };
   }
 
@@ -42,9 +65,10 @@ export class FindSamplesTool extends BaseTool {
         ]);
       }
 
-      const allSamples = this.data.samples.get(kind) || [];
+      const resolved = this.resolveSamples(kind);
+      const allSamples = resolved?.samples || [];
 
-      if (allSamples.length === 0) {
+      if (!resolved || allSamples.length === 0) {
         const suggestions = this.findAlternativeKinds(kind);
         return this.error(
           `No samples found for resource kind "${kind}"`,
@@ -94,19 +118,26 @@ export class FindSamplesTool extends BaseTool {
 
         return a.description.localeCompare(b.description);
       });
+      const page = this.paginate(sortedSamples, args, 'samples', 20);
 
       const result = {
         kind,
+        resourceType: resolved.key,
         totalSamples: allSamples.length,
         filteredCount: sortedSamples.length,
-        samples: sortedSamples.map((sample) => ({
+        samples: page.items.map((sample) => ({
           description: sample.description,
           complexity: sample.complexity,
           tags: sample.tags,
           apiVersion: sample.apiVersion,
+          version: sample.version,
           filePath: sample.filePath,
           metadata: sample.metadata,
-          ...(includeContent && { content: sample.content }),
+          warning: this.sampleVersionWarning(sample),
+          ...(includeContent && {
+            content: sample.content,
+            yaml: sample.source ?? toYaml(sample.content),
+          }),
         })),
         availableComplexities: [
           ...new Set(allSamples.map((s) => s.complexity)),
@@ -118,6 +149,7 @@ export class FindSamplesTool extends BaseTool {
         result,
         this.generateSampleSuggestions(kind, sortedSamples, allSamples),
         {
+          ...page.metadata,
           filtersApplied: { complexity, tags },
           loadedAt: new Date().toISOString(),
         }
@@ -141,13 +173,13 @@ export class FindSamplesTool extends BaseTool {
       return suggestions;
     }
 
-    // Find similar kind names
+    // Find similar kind names, comparing against the kind part of each key
     const similar = availableKinds
       .map((k) => ({
         kind: k,
         similarity: this.calculateSimilarity(
           kind.toLowerCase(),
-          k.toLowerCase()
+          (kind.includes('/') ? k : parseResourceKey(k).kind).toLowerCase()
         ),
       }))
       .filter((item) => item.similarity > 0.3)
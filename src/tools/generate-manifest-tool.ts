@@ -0,0 +1,368 @@
+import { z, type ZodRawShape } from 'zod';
+import { BaseTool } from './base-tool.js';
+import type {
+  CRDMetadata,
+  ManifestGenerationRequest,
+  SampleManifest,
+  ToolResult,
+} from '../types/index.js';
+import { deepMerge, generateResourceKey } from '../utils/helpers.js';
+import {
+  buildSkeleton,
+  getVersionSchema,
+  resolveSchemaVersion,
+} from '../utils/schema.js';
+import { dumpWithComments, toYaml } from '../utils/yaml.js';
+
+export class GenerateManifestTool extends BaseTool {
+  get name(): string {
+    return 'generate-manifest';
+  }
+
+  get description(): string {
+    return 'Generates a manifest skeleton for a resource type from its CRD schema, using the closest matching sample as a base. Fills in required fields, defaults and enum values, and can add RBAC resources. Review the guidance and validate the result before use.';
+  }
+
+  get inputSchema(): any {
+    return {
+      resourceType: z
+        .string()
+        .describe(
+          'Resource type in format "group/kind", or a kind or short name'
+        ),
+      requirements: z
+        .string()
+        .describe(
+          'Free-text description of what the resource should do; used to pick the closest sample'
+        ),
+      name: z.string().optional().describe('metadata.name for the resource'),
+      namespace: z
+        .string()
+        .optional()
+        .describe('metadata.namespace for namespaced resources'),
+      complexity: z
+        .enum(['simple', 'intermediate', 'advanced'])
+        .optional()
+        .describe(
+          'How much of the schema to fill in and which samples to prefer (default: simple)'
+        ),
+      includeRBAC: z
+        .boolean()
+        .optional()
+        .describe(
+          'Also generate a ServiceAccount, Role and RoleBinding for managing the resource'
+        ),
+    };
+  }
+
+  get outputSchema(): ZodRawShape {
+    return {
+      resourceType: z.string(),
+      apiVersion: z.string(),
+      requirements: z.string().optional(),
+      complexity: z.string(),
+      schemaAvailable: z.boolean(),
+      baseSample: z.record(z.unknown()).nullable(),
+      placeholders: z
+        .array(z.string())
+        .describe('Field paths left for the user to fill in'),
+      manifest: z.record(z.unknown()),
+      documents: z.array(z.record(z.unknown())),
+      yaml: z
+        .string()
+        .describe(
+          'All documents as YAML, with the comments of the base sample'
+        ),
+    };
+  }
+
+  async execute(args: any): Promise<ToolResult> {
+    try {
+      const request = args as ManifestGenerationRequest;
+
+      if (!request.resourceType || typeof request.resourceType !== 'string') {
+        return this.error(
+          'resourceType is required and must be a string in format "group/kind"',
+          ['Use "list-available-resources" to see all available resource types']
+        );
+      }
+
+      const crd = this.resolveCRD(request.resourceType);
+      if (!crd) {
+        const suggestions = this.findSimilarResources(request.resourceType, 5);
+        return this.error(
+          `Resource type "${request.resourceType}" not found`,
+          suggestions.length > 0
+            ? [`Did you mean: ${suggestions.join(', ')}?`]
+            : [
+                'Use "list-available-resources" to see all available resource types',
+              ]
+        );
+      }
+
+      const complexity = request.complexity || 'simple';
+      const version = resolveSchemaVersion(crd, undefined) || 'v1';
+      const schema = getVersionSchema(crd, version);
+      const baseSample = this.findClosestSample(
+        crd,
+        request.requirements || '',
+        complexity,
+        version
+      );
+      // A spec written for another version may not fit this version's schema
+      const sampleMatches = baseSample?.version === version;
+
+      const { manifest, placeholders } = this.buildManifest(
+        crd,
+        version,
+        schema,
+        baseSample,
+        request
+      );
+
+      const documents: any[] = [manifest];
+      if (request.includeRBAC) {
+        documents.push(...this.buildRBAC(crd, manifest.metadata));
+      }
+
+      const result = {
+        resourceType: generateResourceKey(crd.group, crd.kind),
+        apiVersion: manifest.apiVersion,
+        requirements: request.requirements,
+        complexity,
+        schemaAvailable: !!schema,
+        baseSample: baseSample
+          ? {
+              description: baseSample.description,
+              filePath: baseSample.filePath,
+              complexity: baseSample.complexity,
+              apiVersion: baseSample.apiVersion,
+              specMerged: sampleMatches,
+            }
+          : null,
+        placeholders,
+        manifest,
+        documents,
+        // The base sample's comments are kept on the fields it provided
+        yaml: [
+          dumpWithComments(
+            manifest,
+            sampleMatches ? baseSample?.source : undefined
+          ),
+          ...documents.slice(1).map(toYaml),
+        ].join('---\n'),
+      };
+
+      return this.success(
+        result,
+        this.generateManifestSuggestions(
+          crd,
+          version,
+          baseSample,
+          placeholders
+        ),
+        {
+          documentCount: documents.length,
+          generatedAt: new Date().toISOString(),
+        }
+      );
+    } catch (error) {
+      return this.error(
+        `Failed to generate manifest: ${error instanceof Error ? error.message : String(error)}`,
+        ['Check that the resource type format is correct (group/kind)']
+      );
+    }
+  }
+
+  private buildManifest(
+    crd: CRDMetadata,
+    version: string,
+    schema: any,
+    baseSample: SampleManifest | undefined,
+    request: ManifestGenerationRequest
+  ): { manifest: any; placeholders: string[] } {
+    const complexity = request.complexity || 'simple';
+    const { value: specSkeleton, placeholders } = buildSkeleton(
+      schema?.properties?.spec,
+      complexity,
+      'spec'
+    );
+
+    // Sample values win over generated ones; the skeleton only fills gaps
+    const sampleSpec =
+      baseSample?.version === version ? baseSample.content?.spec : undefined;
+    const spec = deepMerge(specSkeleton ?? {}, sampleSpec);
+
+    const name =
+      request.name ||
+      baseSample?.metadata.name ||
+      `example-${crd.kind.toLowerCase()}`;
+
+    const metadata: Record<string, unknown> = { name };
+    if (crd.scope === 'Namespaced') {
+      metadata.namespace =
+        request.namespace ||
+        baseSample?.metadata.namespace ||
+        this.defaultNamespace;
+    }
+
+    const labels = baseSample?.metadata.labels;
+    if (labels && typeof labels === 'object') {
+      metadata.labels = { ...labels };
+    }
+
+    return {
+      manifest: {
+        apiVersion: `${crd.group}/${version}`,
+        kind: crd.kind,
+        metadata,
+        spec,
+      },
+      // Placeholders that a sample already filled are no longer open
+      placeholders: placeholders.filter(
+        (path) =>
+          this.getPath(sampleSpec, path.replace(/^spec\.?/, '')) === undefined
+      ),
+    };
+  }
+
+  private findClosestSample(
+    crd: CRDMetadata,
+    requirements: string,
+    complexity: string,
+    version: string
+  ): SampleManifest | undefined {
+    const samples = this.getSamples(crd);
+
+    if (samples.length === 0) {
+      return undefined;
+    }
+
+    const words = requirements
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length > 2);
+
+    const scored = samples.map((sample) => {
+      // Only a sample of the emitted version can provide the spec
+      let score = sample.version === version ? 10 : 0;
+      score += sample.complexity === complexity ? 3 : 0;
+      const haystack = [sample.description, ...sample.tags]
+        .join(' ')
+        .toLowerCase();
+
+      for (const word of words) {
+        if (haystack.includes(word)) {
+          score += 1;
+        }
+      }
+
+      return { sample, score };
+    });
+
+    return scored.sort((a, b) => {
+      if (a.score !== b.score) {
+        return b.score - a.score;
+      }
+      return a.sample.filePath.localeCompare(b.sample.filePath);
+    })[0].sample;
+  }
+
+  private buildRBAC(crd: CRDMetadata, metadata: Record<string, any>): any[] {
+    const namespace = metadata.namespace || this.defaultNamespace;
+    const baseName = `${metadata.name}-manager`;
+    const clusterScoped = crd.scope === 'Cluster';
+    const roleKind = clusterScoped ? 'ClusterRole' : 'Role';
+
+    const rule = {
+      apiGroups: [crd.group],
+      resources: [crd.plural, `${crd.plural}/status`],
+      verbs: ['get', 'list', 'watch', 'create', 'update', 'patch', 'delete'],
+    };
+
+    return [
+      {
+        apiVersion: 'v1',
+        kind: 'ServiceAccount',
+        metadata: { name: baseName, namespace },
+      },
+      {
+        apiVersion: 'rbac.authorization.k8s.io/v1',
+        kind: roleKind,
+        metadata: clusterScoped
+          ? { name: baseName }
+          : { name: baseName, namespace },
+        rules: [rule],
+      },
+      {
+        apiVersion: 'rbac.authorization.k8s.io/v1',
+        kind: clusterScoped ? 'ClusterRoleBinding' : 'RoleBinding',
+        metadata: clusterScoped
+          ? { name: baseName }
+          : { name: baseName, namespace },
+        subjects: [{ kind: 'ServiceAccount', name: baseName, namespace }],
+        roleRef: {
+          apiGroup: 'rbac.authorization.k8s.io',
+          kind: roleKind,
+          name: baseName,
+        },
+      },
+    ];
+  }
+
+  private getPath(value: any, path: string): unknown {
+    if (!path) {
+      return value;
+    }
+
+    let current = value;
+    for (const segment of path.split('.')) {
+      const match = segment.match(/^([^[]+)(?:\[(\d+)\])?$/);
+      if (!match || current === null || typeof current !== 'object') {
+        return undefined;
+      }
+      current = current[match[1]];
+      if (match[2] !== undefined) {
+        current = Array.isArray(current)
+          ? current[Number(match[2])]
+          : undefined;
+      }
+    }
+
+    return current;
+  }
+
+  private generateManifestSuggestions(
+    crd: CRDMetadata,
+    version: string,
+    baseSample: SampleManifest | undefined,
+    placeholders: string[]
+  ): string[] {
+    const suggestions: string[] = [];
+
+    if (placeholders.length > 0) {
+      suggestions.push(
+        `Replace the placeholder values at: ${placeholders.join(', ')}`
+      );
+    }
+
+    if (!baseSample) {
+      suggestions.push(
+        `No sample found for ${crd.kind} - the manifest was built from the schema only`
+      );
+    } else if (baseSample.version !== version) {
+      suggestions.push(
+        `The closest sample uses ${baseSample.apiVersion}, so its spec was not merged into the ${crd.group}/${version} manifest`
+      );
+    }
+
+    suggestions.push(
+      `Use "get-resource-guidance" with resourceType "${crd.kind}" to check the manifest against deployment instructions`
+    );
+    suggestions.push(
+      'Use "validate-manifest" on the generated YAML before sharing it'
+    );
+
+    return suggestions;
+  }
+}
@@ -1,23 +1,81 @@
-import type { LoadedData } from '../types/index.js';
+import type { ZodRawShape } from 'zod';
+import type {
+  CatalogConfig,
+  LoadedData,
+  PluginToolInfo,
+} from '../types/index.js';
 import { BaseTool } from './base-tool.js';
 import { ListResourcesTool } from './list-resources-tool.js';
 import { ResourceDetailsTool } from './resource-details-tool.js';
 import { FindSamplesTool } from './find-samples-tool.js';
 import { ResourceGuidanceTool } from './resource-guidance-tool.js';
+import { ValidateManifestTool } from './validate-manifest-tool.js';
+import { GenerateManifestTool } from './generate-manifest-tool.js';
+import { AccessPatternsTool } from './access-patterns-tool.js';
+import { SearchTool } from './search-tool.js';
+import { InstructionSectionTool } from './instruction-section-tool.js';
 
 export class ToolRegistry {
   private tools: Map<string, BaseTool> = new Map();
+  private pluginSources: Map<string, string> = new Map();
+
+  // Tool lists from crdmcp.config.yaml; the set of tools is fixed at startup
+  private toolSettings: NonNullable<CatalogConfig['tools']>;
 
   constructor(data: LoadedData) {
+    this.toolSettings = data.catalog?.tools || {};
+
     // Register all available tools
     this.registerTool(new ListResourcesTool(data));
     this.registerTool(new ResourceDetailsTool(data));
     this.registerTool(new FindSamplesTool(data));
     this.registerTool(new ResourceGuidanceTool(data));
+    this.registerTool(new ValidateManifestTool(data));
+    this.registerTool(new GenerateManifestTool(data));
+    this.registerTool(new AccessPatternsTool(data));
+    this.registerTool(new SearchTool(data));
+    this.registerTool(new InstructionSectionTool(data));
   }
 
   private registerTool(tool: BaseTool): void {
-    this.tools.set(tool.name, tool);
+    if (this.isEnabled(tool.name)) {
+      this.tools.set(tool.name, tool);
+    }
+  }
+
+  private isEnabled(name: string): boolean {
+    const { enabled, disabled } = this.toolSettings;
+    return (!enabled || enabled.includes(name)) && !disabled?.includes(name);
+  }
+
+  registerPluginTool(tool: BaseTool, source: string): void {
+    if (this.tools.has(tool.name)) {
+      const owner = this.pluginSources.get(tool.name) || 'a built-in tool';
+      throw new Error(
+        `Tool "${tool.name}" from ${source} conflicts with ${owner}`
+      );
+    }
+
+    if (this.isEnabled(tool.name)) {
+      this.registerTool(tool);
+      this.pluginSources.set(tool.name, source);
+    }
+  }
+
+  getPluginTools(): PluginToolInfo[] {
+    return Array.from(this.pluginSources, ([name, source]) => ({
+      name,
+      source,
+    }));
+  }
+
+  updateData(data: LoadedData): void {
+    for (const tool of this.tools.values()) {
+      // Plugin tools are duck-typed and may not track data changes
+      if (typeof tool.updateData === 'function') {
+        tool.updateData(data);
+      }
+    }
   }
 
   getTool(name: string): BaseTool | undefined {
@@ -43,7 +101,11 @@ export class ToolRegistry {
     }
 
     try {
-      return await tool.execute(args);
+      const result = await tool.execute(args);
+      // Plugin tools are duck-typed and may not support response budgets
+      return typeof tool.applyBudget === 'function'
+        ? tool.applyBudget(result, args)
+        : result;
     } catch (error) {
       return {
         success: false,
@@ -57,11 +119,13 @@ export class ToolRegistry {
     name: string;
     description: string;
     inputSchema: any;
+    outputSchema?: ZodRawShape;
   }> {
     return this.getAllTools().map((tool) => ({
       name: tool.name,
       description: tool.description,
-      inputSchema: tool.inputSchema,
+      inputSchema: tool.parameters ?? tool.inputSchema,
+      outputSchema: tool.outputSchema,
     }));
   }
 }
@@ -71,3 +135,9 @@ export * from './list-resources-tool.js';
 export * from './resource-details-tool.js';
 export * from './find-samples-tool.js';
 export * from './resource-guidance-tool.js';
+export * from './validate-manifest-tool.js';
+export * from './generate-manifest-tool.js';
+export * from './access-patterns-tool.js';
+export * from './search-tool.js';
+export * from './instruction-section-tool.js';
+export * from './plugin-loader.js';
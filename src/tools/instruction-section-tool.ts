@@ -0,0 +1,209 @@
+import { z, type ZodRawShape } from 'zod';
+import { sep } from 'path';
+import { BaseTool } from './base-tool.js';
+import type { InstructionDocument, ToolResult } from '../types/index.js';
+import { calculateSimilarity } from '../utils/helpers.js';
+import {
+  findSection,
+  flattenSections,
+  getSections,
+  sectionMarkdown,
+} from '../utils/markdown.js';
+
+export class InstructionSectionTool extends BaseTool {
+  get name(): string {
+    return 'get-instruction-section';
+  }
+
+  get description(): string {
+    return 'Returns one section of an instruction document by file path and heading anchor, with its breadcrumbs and subsections. Use it to read a section of a long guide in full; without an anchor, returns the outline of the document.';
+  }
+
+  get inputSchema(): any {
+    return {
+      filePath: z
+        .string()
+        .describe(
+          'Instruction document path as returned by other tools, or the end of it (e.g. "database/postgres-guide.md")'
+        ),
+      anchor: z
+        .string()
+        .optional()
+        .describe(
+          'Heading anchor of the section, e.g. "backup-configuration" (omit to get the outline)'
+        ),
+      includeSubsections: z
+        .boolean()
+        .default(true)
+        .optional()
+        .describe('Include the subsections of the section (default: true)'),
+    };
+  }
+
+  get outputSchema(): ZodRawShape {
+    return {
+      title: z.string(),
+      filePath: z.string(),
+      outline: z
+        .array(z.record(z.unknown()))
+        .optional()
+        .describe('Sections of the document, when no anchor was given'),
+      anchor: z.string().optional(),
+      heading: z.string().optional(),
+      level: z.number().optional(),
+      breadcrumbs: z.array(z.string()).optional(),
+      content: z.string().optional(),
+      subsections: z.array(z.record(z.unknown())).optional(),
+      previous: z.string().optional(),
+      next: z.string().optional(),
+    };
+  }
+
+  async execute(args: any): Promise<ToolResult> {
+    try {
+      const { filePath, anchor, includeSubsections = true } = args;
+
+      if (!filePath || typeof filePath !== 'string') {
+        return this.error('filePath is required and must be a string', [
+          'Use "get-resource-guidance" to find instruction documents and their file paths',
+        ]);
+      }
+
+      const matches = this.findDocuments(filePath);
+      if (matches.length === 0) {
+        return this.error(
+          `Instruction document not found: ${filePath}`,
+          this.generateNotFoundSuggestions(filePath)
+        );
+      }
+      if (matches.length > 1) {
+        return this.error(
+          `Instruction document path is ambiguous: ${filePath}`,
+          [`Use one of: ${matches.map((doc) => doc.filePath).join(', ')}`]
+        );
+      }
+
+      const [doc] = matches;
+      const outline = this.documentOutline(doc);
+
+      if (!anchor) {
+        return this.success(
+          { title: doc.title, filePath: doc.filePath, outline },
+          ['Call again with an anchor from the outline to read that section'],
+          { sectionCount: outline.length }
+        );
+      }
+
+      const sections = getSections(doc);
+      const section = findSection(sections, anchor);
+      if (!section) {
+        return this.error(
+          `Section "${anchor}" not found in ${doc.filePath}`,
+          this.generateMissingSectionSuggestions(anchor, outline)
+        );
+      }
+
+      const all = flattenSections(sections);
+      const position = all.indexOf(section);
+
+      return this.success(
+        {
+          title: doc.title,
+          filePath: doc.filePath,
+          anchor: section.anchor,
+          heading: section.heading,
+          level: section.level,
+          breadcrumbs: section.breadcrumbs,
+          content: sectionMarkdown(section, includeSubsections),
+          subsections: section.children.map((child) => ({
+            anchor: child.anchor,
+            heading: child.heading,
+          })),
+          previous: all[position - 1]?.anchor,
+          next: all[position + 1]?.anchor,
+        },
+        this.generateSectionSuggestions(section.children.length > 0),
+        { sectionCount: outline.length, includeSubsections }
+      );
+    } catch (error) {
+      return this.error(
+        `Failed to get instruction section: ${error instanceof Error ? error.message : String(error)}`,
+        ['Check the file path and anchor']
+      );
+    }
+  }
+
+  /** Exact path match first, else documents whose path ends with it. */
+  private findDocuments(filePath: string): InstructionDocument[] {
+    const exact = this.data.instructions.filter(
+      (doc) => doc.filePath === filePath
+    );
+    if (exact.length > 0) {
+      return exact;
+    }
+
+    const suffix = filePath
+      .replace(/^[/\\]+/, '')
+      .split(/[/\\]/)
+      .join(sep);
+    return this.data.instructions.filter((doc) =>
+      doc.filePath.endsWith(sep + suffix)
+    );
+  }
+
+  private generateNotFoundSuggestions(filePath: string): string[] {
+    const similar = this.data.instructions
+      .map((doc) => ({
+        filePath: doc.filePath,
+        similarity: calculateSimilarity(
+          filePath.toLowerCase(),
+          doc.filePath.toLowerCase()
+        ),
+      }))
+      .filter(({ similarity }) => similarity > 0.3)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, 3)
+      .map(({ filePath }) => filePath);
+
+    const suggestions = similar.length
+      ? [`Did you mean: ${similar.join(', ')}`]
+      : [];
+    suggestions.push(
+      'Use "get-resource-guidance" to find instruction documents and their file paths'
+    );
+    return suggestions;
+  }
+
+  private generateMissingSectionSuggestions(
+    anchor: string,
+    outline: Array<{ anchor: string }>
+  ): string[] {
+    const anchors = outline.map((entry) => entry.anchor);
+    const similar = anchors
+      .filter(
+        (candidate) =>
+          calculateSimilarity(anchor.toLowerCase(), candidate) > 0.3
+      )
+      .slice(0, 3);
+
+    const suggestions = similar.length
+      ? [`Did you mean: ${similar.join(', ')}`]
+      : [];
+    suggestions.push(
+      `Available sections: ${anchors.slice(0, 15).join(', ')}${anchors.length > 15 ? ', ...' : ''}`
+    );
+    return suggestions;
+  }
+
+  private generateSectionSuggestions(hasSubsections: boolean): string[] {
+    const suggestions = [
+      'Use the previous and next anchors to read the surrounding sections',
+    ];
+    if (hasSubsections) {
+      suggestions.push(
+        'Set includeSubsections to false to read only the text under this heading'
+      );
+    }
+    return suggestions;
+  }
+}
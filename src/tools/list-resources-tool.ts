@@ -1,6 +1,8 @@
-import { z } from 'zod';
+import { z, type ZodRawShape } from 'zod';
 import { BaseTool } from './base-tool.js';
+import { DEFAULT_CATEGORY } from '../loaders/crd-loader.js';
 import type { ResourceFilter, ToolResult } from '../types/index.js';
+import { getPrinterColumns } from '../utils/schema.js';
 
 export class ListResourcesTool extends BaseTool {
   get name(): string {
@@ -13,19 +15,9 @@ export class ListResourcesTool extends BaseTool {
 
   get inputSchema(): any {
     return {
-      category: z
-        .enum([
-          'database',
-          'messaging',
-          'service',
-          'storage',
-          'networking',
-          'security',
-        ])
-        .optional()
-        .describe(
-          'Filter by resource category (database, messaging, service, storage, networking, security)'
-        ),
+      category: this.categorySchema(
+        'Filter by resource category, including spec.names.categories such as "all"'
+      ),
       search: z
         .string()
         .optional()
@@ -37,6 +29,21 @@ export class ListResourcesTool extends BaseTool {
         .enum(['Namespaced', 'Cluster'])
         .optional()
         .describe('Filter by resource scope'),
+      ...this.paginationSchema('resources', 50, 200),
+    };
+  }
+
+  get outputSchema(): ZodRawShape {
+    return {
+      resources: z
+        .array(z.record(z.unknown()))
+        .describe(
+          'Resources on this page: resourceType, kind, group, versions, scope, category, description, shortNames, printerColumns'
+        ),
+      totalCount: z.number().describe('Resources matching the filters'),
+      categories: z
+        .record(z.number())
+        .describe('Number of matching resources per category'),
     };
   }
 
@@ -60,21 +67,25 @@ export class ListResourcesTool extends BaseTool {
         plural: crd.plural,
         scope: crd.scope,
         versions: crd.versions,
-        category: crd.category || 'uncategorized',
+        category: crd.category || DEFAULT_CATEGORY,
+        categories: crd.categories || [],
         description: crd.description || `Custom resource of type ${crd.kind}`,
         shortNames: crd.shortNames || [],
+        printerColumns: getPrinterColumns(crd),
       }));
 
       const categoryStats = this.generateCategoryStatistics(resources);
+      const page = this.paginate(resourceList, args, 'resources', 50);
 
       return this.success(
         {
-          resources: resourceList,
+          resources: page.items,
           totalCount: resourceList.length,
           categories: categoryStats,
         },
-        this.generateUsageSuggestions(resourceList),
+        this.generateUsageSuggestions(page.items),
         {
+          ...page.metadata,
           filterApplied: filter,
           loadedAt: new Date().toISOString(),
         }
@@ -105,8 +116,9 @@ export class ListResourcesTool extends BaseTool {
     }));
 
     // Apply category filter
-    if (filter.category) {
-      results = results.filter(({ crd }) => crd.category === filter.category);
+    const { category } = filter;
+    if (category) {
+      results = results.filter(({ crd }) => this.hasCategory(crd, category));
     }
 
     // Apply group filter
@@ -119,25 +131,24 @@ export class ListResourcesTool extends BaseTool {
       results = results.filter(({ crd }) => crd.scope === filter.scope);
     }
 
-    // Apply search filter
+    // Apply search filter: names, group and description of each CRD
     if (filter.search) {
-      const searchTerm = filter.search.toLowerCase();
-      results = results.filter(({ key, crd }) => {
-        return (
-          crd.kind.toLowerCase().includes(searchTerm) ||
-          crd.group.toLowerCase().includes(searchTerm) ||
-          crd.plural.toLowerCase().includes(searchTerm) ||
-          (crd.description &&
-            crd.description.toLowerCase().includes(searchTerm)) ||
-          key.toLowerCase().includes(searchTerm)
-        );
-      });
+      const matches = new Set(
+        this.searchIndex
+          .search(filter.search, {
+            types: ['crd'],
+            matchAll: true,
+            limit: this.searchIndex.size,
+          })
+          .map((hit) => hit.id)
+      );
+      results = results.filter(({ key }) => matches.has(key));
     }
 
     // Sort by category, then by kind
     return results.sort((a, b) => {
-      const categoryA = a.crd.category || 'zzz';
-      const categoryB = b.crd.category || 'zzz';
+      const categoryA = a.crd.category || DEFAULT_CATEGORY;
+      const categoryB = b.crd.category || DEFAULT_CATEGORY;
 
       if (categoryA !== categoryB) {
         return categoryA.localeCompare(categoryB);
@@ -153,7 +164,7 @@ export class ListResourcesTool extends BaseTool {
     const stats: Record<string, number> = {};
 
     for (const { crd } of resources) {
-      const category = crd.category || 'uncategorized';
+      const category = crd.category || DEFAULT_CATEGORY;
       stats[category] = (stats[category] || 0) + 1;
     }
 
@@ -211,9 +222,11 @@ export class ListResourcesTool extends BaseTool {
         `THEN: Use "get-resource-guidance" to read deployment instructions before creating resources`
       );
 
-      if (resources.some((r) => r.category === 'database')) {
+      if (
+        this.data.instructions.some((doc) => doc.frontmatter.accessPatterns)
+      ) {
         suggestions.push(
-          'For database resources, check out access pattern guidance with "get-access-patterns"'
+          'Use "get-access-patterns" to see how workloads connect to resources with documented access patterns'
         );
       }
 
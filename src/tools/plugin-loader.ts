@@ -0,0 +1,151 @@
+import { existsSync, statSync } from 'fs';
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { glob } from 'glob';
+import type { LoadedData, PluginToolInfo } from '../types/index.js';
+import type { BaseTool } from './base-tool.js';
+import type { ToolRegistry } from './index.js';
+import type { Logger } from '../utils/logger.js';
+
+const PLUGIN_FILE_PATTERN = '*.{js,mjs}';
+
+// Exports treated as factories; any other function export must be a tool
+// class to be picked up
+const FACTORY_EXPORTS = ['default', 'createTools'];
+
+type ToolClass = new (data: LoadedData) => BaseTool;
+type ToolFactory = (
+  data: LoadedData
+) => BaseTool | BaseTool[] | Promise<BaseTool | BaseTool[]>;
+
+/**
+ * Loads company-specific tools from ESM modules. A module may export
+ * BaseTool subclasses (constructed with the loaded data) and/or a default
+ * or `createTools` factory that receives the data and returns tools.
+ */
+export class PluginLoader {
+  constructor(private logger: Logger) {}
+
+  async loadPlugins(
+    paths: string[],
+    toolRegistry: ToolRegistry,
+    data: LoadedData
+  ): Promise<{ loaded: PluginToolInfo[]; errors: string[] }> {
+    const loaded: PluginToolInfo[] = [];
+    const errors: string[] = [];
+
+    for (const filePath of await this.findPluginFiles(paths, errors)) {
+      try {
+        const tools = await this.loadModule(filePath, data);
+        if (tools.length === 0) {
+          errors.push(`Plugin ${filePath} does not export any tools`);
+          continue;
+        }
+
+        for (const tool of tools) {
+          try {
+            toolRegistry.registerPluginTool(tool, filePath);
+            loaded.push({ name: tool.name, source: filePath });
+            this.logger.debug(
+              `Loaded plugin tool: ${tool.name} from ${filePath}`
+            );
+          } catch (error) {
+            errors.push(error instanceof Error ? error.message : String(error));
+          }
+        }
+      } catch (error) {
+        errors.push(
+          `Failed to load plugin ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    if (loaded.length > 0) {
+      this.logger.info(`Loaded ${loaded.length} plugin tools`);
+    }
+
+    return { loaded, errors };
+  }
+
+  async findPluginFiles(paths: string[], errors: string[]): Promise<string[]> {
+    const files: string[] = [];
+
+    for (const path of paths) {
+      const fullPath = resolve(path);
+      if (!existsSync(fullPath)) {
+        errors.push(`Plugin path does not exist: ${fullPath}`);
+        continue;
+      }
+
+      if (statSync(fullPath).isDirectory()) {
+        const found = await glob(PLUGIN_FILE_PATTERN, {
+          cwd: fullPath,
+          nodir: true,
+          absolute: true,
+        });
+        files.push(...found.sort());
+      } else {
+        files.push(fullPath);
+      }
+    }
+
+    return [...new Set(files)];
+  }
+
+  private async loadModule(
+    filePath: string,
+    data: LoadedData
+  ): Promise<BaseTool[]> {
+    const exports: Record<string, unknown> = await import(
+      pathToFileURL(filePath).href
+    );
+    const tools: BaseTool[] = [];
+    const seen = new Set<unknown>();
+
+    for (const [exportName, value] of Object.entries(exports)) {
+      // A class exported both as default and by name is one tool
+      if (typeof value !== 'function' || seen.has(value)) {
+        continue;
+      }
+      seen.add(value);
+
+      if (this.isToolClass(value)) {
+        tools.push(this.checkTool(new value(data), filePath, exportName));
+      } else if (FACTORY_EXPORTS.includes(exportName)) {
+        const created = await (value as ToolFactory)(data);
+        for (const tool of Array.isArray(created) ? created : [created]) {
+          tools.push(this.checkTool(tool, filePath, exportName));
+        }
+      }
+    }
+
+    return tools;
+  }
+
+  private isToolClass(value: unknown): value is ToolClass {
+    return (
+      typeof value === 'function' &&
+      typeof (value as { prototype?: any }).prototype?.execute === 'function'
+    );
+  }
+
+  // Plugins may bundle their own copy of BaseTool, so check the shape
+  // instead of using instanceof
+  private checkTool(tool: any, filePath: string, exportName: string): BaseTool {
+    const missing = [
+      typeof tool?.name !== 'string' && 'name',
+      typeof tool?.description !== 'string' && 'description',
+      (typeof tool?.inputSchema !== 'object' || tool.inputSchema === null) &&
+        'inputSchema',
+      typeof tool?.execute !== 'function' && 'execute',
+    ].filter(Boolean);
+
+    if (missing.length > 0) {
+      throw new Error(
+        `export "${exportName}" of ${filePath} is not a valid tool (missing ${missing.join(', ')})`
+      );
+    }
+
+    return tool as BaseTool;
+  }
+}
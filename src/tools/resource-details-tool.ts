@@ -1,6 +1,15 @@
-import { z } from 'zod';
+import { z, type ZodRawShape } from 'zod';
 import { BaseTool } from './base-tool.js';
-import type { ToolResult } from '../types/index.js';
+import type { CRDMetadata, ToolResult } from '../types/index.js';
+import { DEFAULT_CATEGORY } from '../loaders/crd-loader.js';
+import {
+  buildFieldTree,
+  buildSkeleton,
+  getPrinterColumns,
+  getVersionSchema,
+  resolveSchemaVersion,
+  versionWarning,
+} from '../utils/schema.js';
 
 export class ResourceDetailsTool extends BaseTool {
   get name(): string {
@@ -18,12 +27,38 @@ export class ResourceDetailsTool extends BaseTool {
         .describe(
           'Resource type in format "group/kind" (e.g., "redis.example.com/RedisCluster")'
         ),
+      version: z
+        .string()
+        .optional()
+        .describe(
+          'API version to return the schema for (default: the storage version)'
+        ),
+    };
+  }
+
+  get outputSchema(): ZodRawShape {
+    return {
+      resourceType: z.string(),
+      metadata: z
+        .record(z.unknown())
+        .describe(
+          'Kind, group, names, scope, versions and category of the CRD'
+        ),
+      printerColumns: z.array(z.record(z.unknown())),
+      schema: z
+        .record(z.unknown())
+        .describe('Schema version, availability and field tree'),
+      samples: z.array(z.record(z.unknown())),
+      instructions: z.array(z.record(z.unknown())),
+      relatedResources: z.array(z.record(z.unknown())),
+      usageExamples: z.array(z.record(z.unknown())),
+      bestPractices: z.array(z.string()),
     };
   }
 
   async execute(args: any): Promise<ToolResult> {
     try {
-      const { resourceType } = args;
+      const { resourceType, version } = args;
 
       if (!resourceType || typeof resourceType !== 'string') {
         return this.error(
@@ -32,33 +67,7 @@ export class ResourceDetailsTool extends BaseTool {
         );
       }
 
-      // Find the CRD - try exact match first, then alternative lookups
-      let crd = this.data.crds.get(resourceType);
-
-      if (!crd) {
-        // Try to find by kind only
-        for (const [, candidateCrd] of this.data.crds) {
-          if (candidateCrd.kind.toLowerCase() === resourceType.toLowerCase()) {
-            crd = candidateCrd;
-            break;
-          }
-        }
-      }
-
-      if (!crd) {
-        // Try to find by short name
-        for (const [, candidateCrd] of this.data.crds) {
-          if (
-            candidateCrd.shortNames?.some(
-              (shortName) =>
-                shortName.toLowerCase() === resourceType.toLowerCase()
-            )
-          ) {
-            crd = candidateCrd;
-            break;
-          }
-        }
-      }
+      const crd = this.resolveCRD(resourceType);
 
       if (!crd) {
         const suggestions = this.findSimilarResources(resourceType, 5);
@@ -72,8 +81,15 @@ export class ResourceDetailsTool extends BaseTool {
         );
       }
 
+      const schemaVersion = resolveSchemaVersion(crd, version);
+      if (!schemaVersion) {
+        return this.error(`Version "${version}" not found for ${crd.kind}`, [
+          `Available versions: ${crd.versions.join(', ')}`,
+        ]);
+      }
+
       // Get samples for this resource kind
-      const samples = this.data.samples.get(crd.kind) || [];
+      const samples = this.getSamples(crd);
 
       // Get relevant instructions
       const instructions = this.findRelevantInstructions(crd.kind, [
@@ -96,17 +112,24 @@ export class ResourceDetailsTool extends BaseTool {
           shortNames: crd.shortNames || [],
           scope: crd.scope,
           versions: crd.versions,
-          category: crd.category || 'uncategorized',
+          versionDetails: crd.versionDetails,
+          category: crd.category || DEFAULT_CATEGORY,
+          categories: crd.categories || [],
           description: crd.description || `Custom resource of type ${crd.kind}`,
           filePath: crd.filePath,
+          layer: crd.layer,
         },
+        printerColumns: getPrinterColumns(crd, schemaVersion),
+        schema: this.buildSchemaSummary(crd, schemaVersion),
         samples: samples.map((sample) => ({
           description: sample.description,
           complexity: sample.complexity,
           tags: sample.tags,
           filePath: sample.filePath,
+          layer: sample.layer,
           apiVersion: sample.apiVersion,
           metadata: sample.metadata,
+          warning: this.sampleVersionWarning(sample),
           // Include the full content for simple samples, truncate complex ones
           content:
             sample.complexity === 'simple'
@@ -116,18 +139,25 @@ export class ResourceDetailsTool extends BaseTool {
         instructions: instructions.slice(0, 5), // Limit to top 5 most relevant
         relatedResources,
         usageExamples,
-        bestPractices: this.extractBestPractices(instructions, crd),
+        bestPractices: this.extractBestPractices(instructions),
       };
 
-      return this.success(
-        result,
-        this.generateDetailSuggestions(crd, samples, instructions),
-        {
-          samplesAvailable: samples.length,
-          instructionsFound: instructions.length,
-          relatedResourcesFound: relatedResources.length,
-        }
+      const suggestions = this.generateDetailSuggestions(
+        crd,
+        samples,
+        instructions
       );
+      const warning = versionWarning(crd, schemaVersion);
+      if (warning) {
+        suggestions.unshift(warning);
+      }
+
+      return this.success(result, suggestions, {
+        samplesAvailable: samples.length,
+        instructionsFound: instructions.length,
+        relatedResourcesFound: relatedResources.length,
+        schemaVersion,
+      });
     } catch (error) {
       return this.error(
         `Failed to get resource details: ${error instanceof Error ? error.message : String(error)}`,
@@ -136,6 +166,19 @@ export class ResourceDetailsTool extends BaseTool {
     }
   }
 
+  private buildSchemaSummary(crd: CRDMetadata, version: string): any {
+    const schema = getVersionSchema(crd, version);
+
+    return {
+      version,
+      storageVersion: crd.storageVersion,
+      warning: versionWarning(crd, version),
+      available: !!schema,
+      description: schema?.description,
+      fields: buildFieldTree(schema),
+    };
+  }
+
   private findRelatedResources(crd: any): any[] {
     const related: any[] = [];
 
@@ -173,7 +216,7 @@ export class ResourceDetailsTool extends BaseTool {
     }
 
     // Analyze samples for resource references
-    const samples = this.data.samples.get(crd.kind) || [];
+    const samples = this.getSamples(crd);
     const referencedKinds = new Set<string>();
 
     for (const sample of samples) {
@@ -208,24 +251,27 @@ export class ResourceDetailsTool extends BaseTool {
 
   private generateUsageExamples(crd: any, samples: any[]): any[] {
     const examples: any[] = [];
+    const version = resolveSchemaVersion(crd) || 'v1';
 
     // Basic creation example
     examples.push({
       title: `Create a basic ${crd.kind}`,
       description: `How to create a simple ${crd.kind} resource`,
-      apiVersion: `${crd.group}/${crd.versions[0] || 'v1'}`,
+      apiVersion: `${crd.group}/${version}`,
       kind: crd.kind,
       example: {
-        apiVersion: `${crd.group}/${crd.versions[0] || 'v1'}`,
+        apiVersion: `${crd.group}/${version}`,
         kind: crd.kind,
         metadata: {
           name: `example-${crd.kind.toLowerCase()}`,
-          ...(crd.scope === 'Namespaced' && { namespace: 'default' }),
-        },
-        spec: {
-          // Basic spec structure based on category
-          ...this.generateBasicSpec(crd),
+          ...(crd.scope === 'Namespaced' && {
+            namespace: this.defaultNamespace,
+          }),
         },
+        // Required fields and fields with defaults, as in generate-manifest
+        spec:
+          buildSkeleton(getVersionSchema(crd, version)?.properties?.spec)
+            .value ?? {},
       },
     });
 
@@ -247,44 +293,14 @@ export class ResourceDetailsTool extends BaseTool {
     return examples;
   }
 
-  private generateBasicSpec(crd: any): any {
-    const spec: any = {};
-
-    // Generate basic spec based on category
-    switch (crd.category) {
-      case 'database':
-        spec.version = '1.0';
-        spec.replicas = 1;
-        if (crd.kind.toLowerCase().includes('redis')) {
-          spec.mode = 'standalone';
-        }
-        break;
-
-      case 'messaging':
-        spec.replicas = 3;
-        if (crd.kind.toLowerCase().includes('kafka')) {
-          spec.partitions = 1;
-          spec.replicationFactor = 1;
-        }
-        break;
-
-      case 'service':
-        spec.port = 8080;
-        spec.replicas = 2;
-        break;
-
-      default:
-        spec.enabled = true;
-    }
-
-    return spec;
-  }
-
-  private extractBestPractices(instructions: any[], crd: any): string[] {
+  private extractBestPractices(instructions: any[]): string[] {
     const practices: string[] = [];
 
     for (const instruction of instructions.slice(0, 3)) {
-      const content = instruction.content.toLowerCase();
+      const content = instruction.sections
+        .map((section: any) => section.content)
+        .join('\n')
+        .toLowerCase();
 
       // Look for best practices sections
       const bestPracticePatterns = [
@@ -304,21 +320,6 @@ export class ResourceDetailsTool extends BaseTool {
       }
     }
 
-    // Add category-specific best practices
-    switch (crd.category) {
-      case 'database':
-        practices.push(
-          'Always configure persistent storage for production databases'
-        );
-        practices.push('Set appropriate resource limits and requests');
-        break;
-
-      case 'messaging':
-        practices.push('Configure proper replication for high availability');
-        practices.push('Monitor queue depth and consumer lag');
-        break;
-    }
-
     return practices.slice(0, 5); // Limit to 5 practices
   }
 
@@ -350,11 +351,21 @@ export class ResourceDetailsTool extends BaseTool {
       suggestions.push(
         `Use "get-resource-guidance" for detailed setup instructions for ${crd.kind}`
       );
+      suggestions.push(
+        'Use "get-instruction-section" with an instruction filePath and section anchor to read a section in full'
+      );
     }
 
-    if (crd.category === 'database') {
+    const paths = new Set(
+      instructions.map((instruction) => instruction.filePath)
+    );
+    if (
+      this.data.instructions.some(
+        (doc) => paths.has(doc.filePath) && doc.frontmatter.accessPatterns
+      )
+    ) {
       suggestions.push(
-        'Use "get-access-patterns" to understand how services connect to databases'
+        `Use "get-access-patterns" to see how workloads connect to ${crd.kind}`
       );
     }
 
@@ -1,6 +1,11 @@
-import { z } from 'zod';
+import { z, type ZodRawShape } from 'zod';
 import { BaseTool } from './base-tool.js';
-import type { ToolResult } from '../types/index.js';
+import type { InstructionDocument, ToolResult } from '../types/index.js';
+import type { ChunkHit } from '../search/semantic.js';
+import { findSection, getSections } from '../utils/markdown.js';
+
+// Longer documents are returned as their most relevant sections
+const MAX_DOCUMENT_LENGTH = 4000;
 
 export class ResourceGuidanceTool extends BaseTool {
   get name(): string {
@@ -19,79 +24,124 @@ export class ResourceGuidanceTool extends BaseTool {
         .describe(
           'Specific resource type (group/kind) or kind to get guidance for'
         ),
-      category: z
-        .enum([
-          'database',
-          'messaging',
-          'service',
-          'storage',
-          'networking',
-          'security',
-        ])
-        .optional()
-        .describe('Resource category to get guidance for'),
+      category: this.categorySchema(
+        'Resource category to get guidance for',
+        this.data.instructions
+          .map((doc) => doc.frontmatter.category)
+          .filter(
+            (category): category is string => typeof category === 'string'
+          )
+      ),
       tags: z
         .array(z.string())
         .optional()
         .describe('Filter guidance by specific tags'),
-      limit: z
-        .number()
-        .min(1)
-        .max(50)
-        .default(10)
+      query: z
+        .string()
         .optional()
         .describe(
-          'Maximum number of guidance documents to return (default: 10)'
+          'Free-text question, e.g. "how do I set up an in-memory cache"; ranks the guidance and returns the best-matching sections'
         ),
+      ...this.paginationSchema('guidance documents', 10, 50),
+    };
+  }
+
+  get outputSchema(): ZodRawShape {
+    return {
+      criteria: z.record(z.unknown()),
+      guidanceCount: z.number(),
+      totalAvailable: z.number(),
+      guidance: z
+        .array(z.record(z.unknown()))
+        .describe(
+          'Guidance documents on this page, with their content or most relevant sections'
+        ),
+      sections: z
+        .array(z.record(z.unknown()))
+        .optional()
+        .describe('Sections found by semantic search for the query'),
+      relatedResources: z.array(z.unknown()),
+      bestPractices: z.array(z.string()),
     };
   }
 
   async execute(args: any): Promise<ToolResult> {
     try {
-      const { resourceType, category, tags, limit = 10 } = args;
+      const { resourceType, category, tags, query, limit = 10 } = args;
 
-      if (!resourceType && !category && (!tags || tags.length === 0)) {
+      if (
+        !resourceType &&
+        !category &&
+        (!tags || tags.length === 0) &&
+        !query?.trim()
+      ) {
         return this.error(
-          'At least one of resourceType, category, or tags must be provided',
+          'At least one of resourceType, category, tags, or query must be provided',
           [
             'Use resourceType for specific resource guidance (e.g., "RedisCluster")',
             'Use category for broader guidance (e.g., "database")',
             'Use tags for specific topics (e.g., ["production", "security"])',
+            'Use query for a free-text question (e.g., "how do I configure backups")',
           ]
         );
       }
 
-      const guidance = this.findGuidance(resourceType, category, tags, limit);
+      let ranked = this.findGuidance(resourceType, category, tags);
+      let sections: ChunkHit[] | undefined;
+      if (query?.trim()) {
+        ({ guidance: ranked, sections } = await this.rankByQuery(
+          query,
+          ranked
+        ));
+      }
 
-      if (guidance.length === 0) {
+      if (ranked.length === 0) {
         return this.error(
           'No guidance documents found matching the criteria',
           this.generateNoResultsSuggestions(resourceType, category)
         );
       }
 
+      const page = this.paginate(ranked, args, 'guidance', 10);
+      const guidance = page.items;
+      if (sections) {
+        const paths = new Set(guidance.map((doc) => doc.filePath));
+        sections = sections
+          .filter((section) => paths.has(section.filePath))
+          .slice(0, limit);
+      }
+
       const result = {
-        criteria: { resourceType, category, tags },
+        criteria: { resourceType, category, tags, query },
         guidanceCount: guidance.length,
         totalAvailable: this.data.instructions.length,
         guidance: guidance.map((doc) => ({
           title: doc.title,
-          content: doc.content,
+          ...this.documentContent(
+            doc,
+            [resourceType, category, ...(tags || []), query].filter(Boolean),
+            sections
+          ),
           tags: doc.tags,
           applicableCRDs: doc.frontmatter.applicableCRDs || doc.detectedCRDs,
           category: doc.frontmatter.category,
           priority: doc.frontmatter.priority || 0,
           filePath: doc.filePath,
         })),
+        ...(sections && { sections }),
         relatedResources: this.findRelatedResourcesFromGuidance(guidance),
         bestPractices: this.extractBestPracticesFromGuidance(guidance),
       };
 
       return this.success(
         result,
-        this.generateGuidanceSuggestions(resourceType, category, guidance),
+        this.generateGuidanceSuggestions(resourceType, guidance),
         {
-          searchCriteria: { resourceType, category, tags },
+          ...page.metadata,
+          searchCriteria: { resourceType, category, tags, query },
+          ...(query && {
+            retrieval: this.data.semanticIndex ? 'semantic' : 'keyword',
+          }),
           loadedAt: new Date().toISOString(),
         }
       );
@@ -106,34 +156,26 @@ export class ResourceGuidanceTool extends BaseTool {
   private findGuidance(
     resourceType?: string,
     category?: string,
-    tags?: string[],
-    limit: number = 10
+    tags?: string[]
   ): any[] {
     let relevantInstructions = this.data.instructions;
 
-    // Filter by resource type
+    // Filter by resource type: documents naming the kind in their
+    // applicable CRDs or mentioning it in their content
     if (resourceType) {
-      relevantInstructions = relevantInstructions.filter((instruction) => {
-        const lowerResourceType = resourceType.toLowerCase();
-        const applicableCRDs = [
-          ...(instruction.frontmatter.applicableCRDs || []),
-          ...instruction.detectedCRDs,
-        ];
-
-        // Check if the resource type or kind matches
-        const matches = applicableCRDs.some(
-          (crd: string) =>
-            crd.toLowerCase().includes(lowerResourceType) ||
-            lowerResourceType.includes(crd.toLowerCase())
-        );
-
-        // Also check if the resource type is mentioned in content
-        const contentMatches = instruction.content
-          .toLowerCase()
-          .includes(lowerResourceType);
-
-        return matches || contentMatches;
-      });
+      const kind = resourceType.split('/').pop() || resourceType;
+      const paths = new Set(
+        this.searchIndex
+          .search(kind, {
+            types: ['instruction'],
+            matchAll: true,
+            limit: this.searchIndex.size,
+          })
+          .map((hit) => hit.id)
+      );
+      relevantInstructions = relevantInstructions.filter((instruction) =>
+        paths.has(instruction.filePath)
+      );
     }
 
     // Filter by category
@@ -183,8 +225,69 @@ export class ResourceGuidanceTool extends BaseTool {
 
         // Higher relevance score first
         return b.relevanceScore - a.relevanceScore;
+      });
+  }
+
+  /**
+   * Orders the candidate documents by a free-text query. With semantic search
+   * enabled the query is matched against document sections by meaning and
+   * the best sections are returned too; otherwise whole documents are ranked
+   * by keyword search.
+   */
+  private async rankByQuery(
+    query: string,
+    candidates: InstructionDocument[]
+  ): Promise<{ guidance: InstructionDocument[]; sections?: ChunkHit[] }> {
+    const byPath = new Map(candidates.map((doc) => [doc.filePath, doc]));
+
+    if (this.data.semanticIndex) {
+      const sections = await this.data.semanticIndex.search(query, {
+        limit: this.data.semanticIndex.size,
+        filePaths: Array.from(byPath.keys()),
+      });
+      const paths = new Set(sections.map((section) => section.filePath));
+      return {
+        guidance: Array.from(paths, (path) => byPath.get(path)!),
+        sections,
+      };
+    }
+
+    const guidance = this.searchIndex
+      .search(query, {
+        types: ['instruction'],
+        limit: this.data.instructions.length,
       })
-      .slice(0, limit);
+      .map((hit) => byPath.get(hit.id))
+      .filter((doc): doc is InstructionDocument => Boolean(doc));
+    return { guidance };
+  }
+
+  /**
+   * Short documents are returned whole. Longer ones are returned as their
+   * most relevant sections, the ones semantic search found for the query if
+   * any, with an outline for fetching others with "get-instruction-section".
+   */
+  private documentContent(
+    doc: InstructionDocument,
+    terms: string[],
+    hits?: ChunkHit[]
+  ) {
+    if (doc.content.length <= MAX_DOCUMENT_LENGTH) {
+      return { content: doc.content };
+    }
+
+    const tree = getSections(doc);
+    const matched = (hits || [])
+      .filter((hit) => hit.filePath === doc.filePath)
+      .map((hit) => findSection(tree, hit.anchor))
+      .filter((section) => section !== undefined);
+
+    return {
+      sections: matched.length
+        ? matched.map((section) => this.sectionView(section))
+        : this.relevantSections(doc, terms),
+      outline: this.documentOutline(doc),
+    };
   }
 
   private calculateRelevanceScore(
@@ -354,7 +457,6 @@ export class ResourceGuidanceTool extends BaseTool {
 
   private generateGuidanceSuggestions(
     resourceType?: string,
-    category?: string,
     guidance?: any[]
   ): string[] {
     const suggestions: string[] = [];
@@ -381,12 +483,18 @@ export class ResourceGuidanceTool extends BaseTool {
           'Production deployment guidance is available in the results'
         );
       }
-    }
 
-    if (category === 'database') {
-      suggestions.push(
-        'Use "get-access-patterns" for database connectivity guidance'
-      );
+      if (guidance.some((g) => g.content.length > MAX_DOCUMENT_LENGTH)) {
+        suggestions.push(
+          'Use "get-instruction-section" with a filePath and an anchor from the outline to read other sections'
+        );
+      }
+
+      if (guidance.some((g) => g.frontmatter.accessPatterns)) {
+        suggestions.push(
+          'Use "get-access-patterns" for the connection details these guides document'
+        );
+      }
     }
 
     return suggestions;
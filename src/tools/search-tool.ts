@@ -0,0 +1,116 @@
+import { z, type ZodRawShape } from 'zod';
+import { BaseTool } from './base-tool.js';
+import type { ToolResult } from '../types/index.js';
+import { SEARCH_DOCUMENT_TYPES, type SearchHit } from '../search/index.js';
+
+export class SearchTool extends BaseTool {
+  get name(): string {
+    return 'search';
+  }
+
+  get description(): string {
+    return 'Full-text search across CRDs, their schema fields, sample manifests and instruction documents. Returns ranked hits of mixed types with snippets; use it when you do not know which resource type or guide covers a topic.';
+  }
+
+  get inputSchema(): any {
+    return {
+      query: z
+        .string()
+        .describe(
+          'Words to search for, e.g. "redis failover" or "tls certificate"'
+        ),
+      types: z
+        .array(z.enum(SEARCH_DOCUMENT_TYPES as [string, ...string[]]))
+        .optional()
+        .describe(
+          'Only return these kinds of hits: crd, schema, sample, instruction (default: all)'
+        ),
+      ...this.paginationSchema('hits', 10, 50),
+    };
+  }
+
+  get outputSchema(): ZodRawShape {
+    return {
+      query: z.string(),
+      resultCount: z.number(),
+      results: z
+        .array(z.record(z.unknown()))
+        .describe('Hits on this page, best first'),
+    };
+  }
+
+  async execute(args: any): Promise<ToolResult> {
+    try {
+      const { query, types } = args;
+
+      if (!query || typeof query !== 'string' || !query.trim()) {
+        return this.error('query is required and must be a non-empty string', [
+          'Search for a resource kind, field name or topic, e.g. "backup schedule"',
+        ]);
+      }
+
+      const ranked = this.searchIndex.search(query, {
+        types,
+        limit: this.searchIndex.size,
+      });
+
+      if (ranked.length === 0) {
+        return this.error(`No results found for "${query}"`, [
+          'Try fewer or more general words',
+          'Use "list-available-resources" to browse all resource types',
+        ]);
+      }
+
+      const { items: hits, metadata } = this.paginate(
+        ranked,
+        args,
+        'results',
+        10
+      );
+
+      return this.success(
+        { query, resultCount: hits.length, results: hits },
+        this.generateSearchSuggestions(hits),
+        {
+          ...metadata,
+          indexedDocuments: this.searchIndex.size,
+          searchedAt: new Date().toISOString(),
+        }
+      );
+    } catch (error) {
+      return this.error(
+        `Failed to search: ${error instanceof Error ? error.message : String(error)}`,
+        ['Check the query and try again']
+      );
+    }
+  }
+
+  private generateSearchSuggestions(hits: SearchHit[]): string[] {
+    const suggestions: string[] = [];
+
+    const resourceTypes = [
+      ...new Set(
+        hits
+          .filter((hit) => hit.type === 'crd' || hit.type === 'schema')
+          .map((hit) => hit.resourceType)
+      ),
+    ];
+    if (resourceTypes.length > 0) {
+      suggestions.push(
+        `Use "get-resource-details" for ${resourceTypes.slice(0, 3).join(', ')}`
+      );
+    }
+
+    if (hits.some((hit) => hit.type === 'instruction')) {
+      suggestions.push(
+        'Use "get-resource-guidance" to read the matching instruction documents in full'
+      );
+    }
+
+    if (hits.some((hit) => hit.type === 'sample')) {
+      suggestions.push('Use "find-samples" to get the full sample manifests');
+    }
+
+    return suggestions;
+  }
+}
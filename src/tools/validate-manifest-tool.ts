@@ -0,0 +1,398 @@
+import { z, type ZodRawShape } from 'zod';
+import Ajv from 'ajv';
+import type { ErrorObject, ValidateFunction } from 'ajv';
+import { loadAll } from 'js-yaml';
+import { BaseTool } from './base-tool.js';
+import type { CRDMetadata, LoadedData, ToolResult } from '../types/index.js';
+import { generateResourceKey, parseApiVersion } from '../utils/helpers.js';
+import { toValidationSchema, versionWarning } from '../utils/schema.js';
+
+// Kubernetes vendor extensions that ajv should treat as known keywords
+const KUBERNETES_KEYWORDS = [
+  'x-kubernetes-int-or-string',
+  'x-kubernetes-preserve-unknown-fields',
+  'x-kubernetes-embedded-resource',
+  'x-kubernetes-list-type',
+  'x-kubernetes-list-map-keys',
+  'x-kubernetes-map-type',
+  'x-kubernetes-validations',
+];
+
+export class ValidateManifestTool extends BaseTool {
+  private ajv = this.createAjv();
+  // Compiled schemas, or why a schema could not be compiled
+  private validators = new Map<string, ValidateFunction | Error>();
+
+  get name(): string {
+    return 'validate-manifest';
+  }
+
+  get description(): string {
+    return 'Validates one or more YAML manifests against the loaded CRD schemas and returns structured errors with JSON pointers. Documents of built-in or other resource types without a loaded CRD are reported as not validated. Use this to check generated manifests before handing them to the user.';
+  }
+
+  get inputSchema(): any {
+    return {
+      manifest: z
+        .string()
+        .describe(
+          'YAML manifest to validate; multiple documents can be separated with "---"'
+        ),
+    };
+  }
+
+  updateData(data: LoadedData): void {
+    super.updateData(data);
+    // Compiled validators belong to the previous schemas
+    this.ajv = this.createAjv();
+    this.validators.clear();
+  }
+
+  get outputSchema(): ZodRawShape {
+    return {
+      valid: z.boolean(),
+      documentCount: z.number(),
+      invalidCount: z.number(),
+      skippedCount: z
+        .number()
+        .describe('Documents not validated because no CRD is loaded'),
+      results: z
+        .array(z.record(z.unknown()))
+        .describe('Validation result and errors for each document'),
+    };
+  }
+
+  async execute(args: any): Promise<ToolResult> {
+    try {
+      const { manifest } = args;
+
+      if (!manifest || typeof manifest !== 'string') {
+        return this.error('manifest is required and must be a YAML string', [
+          'Pass the manifest content as a string, separating documents with "---"',
+        ]);
+      }
+
+      let documents: unknown[];
+      try {
+        documents = (loadAll(manifest) as unknown[]).filter(
+          (doc) => doc !== null && doc !== undefined
+        );
+      } catch (error) {
+        return this.error(
+          `Failed to parse YAML: ${error instanceof Error ? error.message : String(error)}`,
+          ['Check indentation and make sure each document is valid YAML']
+        );
+      }
+
+      if (documents.length === 0) {
+        return this.error('No YAML documents found in manifest', [
+          'Provide at least one Kubernetes resource document',
+        ]);
+      }
+
+      const results = documents.map((doc, index) =>
+        this.validateDocument(doc, index)
+      );
+      const invalidCount = results.filter((r) => !r.valid).length;
+      const skippedCount = results.filter((r) => r.validated === false).length;
+
+      return this.success(
+        {
+          valid: invalidCount === 0,
+          documentCount: results.length,
+          invalidCount,
+          skippedCount,
+          results,
+        },
+        this.generateValidationSuggestions(results),
+        {
+          validatedAt: new Date().toISOString(),
+        }
+      );
+    } catch (error) {
+      return this.error(
+        `Failed to validate manifest: ${error instanceof Error ? error.message : String(error)}`,
+        ['Check that the manifest is valid YAML']
+      );
+    }
+  }
+
+  private validateDocument(doc: unknown, index: number): any {
+    if (!doc || typeof doc !== 'object' || Array.isArray(doc)) {
+      return {
+        index,
+        valid: false,
+        errors: [
+          { path: '/', keyword: 'type', message: 'document must be an object' },
+        ],
+      };
+    }
+
+    const manifest = doc as Record<string, any>;
+    const { apiVersion, kind } = manifest;
+    const result: any = {
+      index,
+      apiVersion,
+      kind,
+      name: manifest.metadata?.name,
+    };
+
+    if (typeof apiVersion !== 'string' || typeof kind !== 'string') {
+      return {
+        ...result,
+        valid: false,
+        errors: [
+          {
+            path: '/',
+            keyword: 'required',
+            message: 'apiVersion and kind must be set',
+          },
+        ],
+      };
+    }
+
+    const { group, version } = parseApiVersion(apiVersion);
+    const crd = this.data.crds.get(generateResourceKey(group, kind));
+
+    // Built-in resources (ServiceAccount, Role, ...) and those of other API
+    // groups have no schema here; a kind unknown in a loaded group is an error
+    if (!crd && !this.isLoadedGroup(group)) {
+      return {
+        ...result,
+        valid: true,
+        validated: false,
+        errors: [],
+        warnings: [
+          {
+            path: '/kind',
+            keyword: 'resource',
+            message: `No CRD loaded for ${group || 'core'}/${kind}; the document was not validated`,
+          },
+        ],
+      };
+    }
+
+    if (!crd) {
+      const similar = this.findSimilarResources(kind, 3);
+      return {
+        ...result,
+        valid: false,
+        errors: [
+          {
+            path: '/kind',
+            keyword: 'resource',
+            message: `No CRD loaded for ${group || 'core'}/${kind}`,
+          },
+        ],
+        ...(similar.length > 0 && { didYouMean: similar }),
+      };
+    }
+
+    result.resourceType = generateResourceKey(crd.group, crd.kind);
+    result.version = version;
+
+    if (!crd.versions.includes(version)) {
+      return {
+        ...result,
+        valid: false,
+        errors: [
+          {
+            path: '/apiVersion',
+            keyword: 'version',
+            message: `Version "${version}" is not defined for ${crd.kind}; available versions: ${crd.versions.join(', ')}`,
+          },
+        ],
+      };
+    }
+
+    const warning = versionWarning(crd, version);
+    if (warning) {
+      result.warnings = [
+        { path: '/apiVersion', keyword: 'version', message: warning },
+      ];
+    }
+
+    const errors = this.checkMetadata(manifest, crd);
+
+    const validate = this.getValidator(crd, version);
+    if (validate instanceof Error) {
+      // e.g. a pattern that is not a valid Unicode regular expression; only
+      // this document goes unvalidated
+      return {
+        ...result,
+        valid: errors.length === 0,
+        validated: false,
+        errors,
+        warnings: [
+          ...(result.warnings || []),
+          {
+            path: '/',
+            keyword: 'schema',
+            message: `The ${crd.kind} ${version} schema could not be compiled, so the document was not validated against it: ${validate.message}`,
+          },
+        ],
+      };
+    }
+    if (validate) {
+      if (!validate(manifest)) {
+        errors.push(...(validate.errors || []).map((e) => this.formatError(e)));
+      }
+    } else {
+      result.schemaAvailable = false;
+    }
+
+    return {
+      ...result,
+      valid: errors.length === 0,
+      errors,
+    };
+  }
+
+  private isLoadedGroup(group: string): boolean {
+    return Array.from(this.data.crds.values()).some(
+      (crd) => crd.group === group
+    );
+  }
+
+  private checkMetadata(
+    manifest: Record<string, any>,
+    crd: CRDMetadata
+  ): any[] {
+    const errors: any[] = [];
+    const metadata = manifest.metadata;
+
+    if (!metadata || typeof metadata !== 'object') {
+      errors.push({
+        path: '/metadata',
+        keyword: 'required',
+        message: 'metadata must be set',
+      });
+      return errors;
+    }
+
+    if (!metadata.name && !metadata.generateName) {
+      errors.push({
+        path: '/metadata/name',
+        keyword: 'required',
+        message: 'metadata.name or metadata.generateName must be set',
+      });
+    }
+
+    if (crd.scope === 'Cluster' && metadata.namespace) {
+      errors.push({
+        path: '/metadata/namespace',
+        keyword: 'scope',
+        message: `${crd.kind} is cluster-scoped and must not set a namespace`,
+      });
+    }
+
+    return errors;
+  }
+
+  private getValidator(
+    crd: CRDMetadata,
+    version: string
+  ): ValidateFunction | Error | undefined {
+    const schema = crd.schemas?.[version];
+    if (!schema) {
+      return undefined;
+    }
+
+    const key = `${generateResourceKey(crd.group, crd.kind)}@${version}`;
+    let validate = this.validators.get(key);
+    if (!validate) {
+      try {
+        validate = this.ajv.compile(toValidationSchema(schema));
+      } catch (error) {
+        validate = error instanceof Error ? error : new Error(String(error));
+      }
+      this.validators.set(key, validate);
+    }
+
+    return validate;
+  }
+
+  private formatError(error: ErrorObject): any {
+    const path = error.instancePath || '/';
+
+    if (error.keyword === 'additionalProperties') {
+      const field = (error.params as { additionalProperty: string })
+        .additionalProperty;
+      return {
+        path: `${error.instancePath}/${field}`,
+        keyword: error.keyword,
+        message: `unknown field "${field}"`,
+      };
+    }
+
+    if (error.keyword === 'required') {
+      const field = (error.params as { missingProperty: string })
+        .missingProperty;
+      return {
+        path: `${error.instancePath}/${field}`,
+        keyword: error.keyword,
+        message: `missing required field "${field}"`,
+      };
+    }
+
+    return {
+      path,
+      keyword: error.keyword,
+      message: error.message || 'is invalid',
+      params: error.params,
+    };
+  }
+
+  private createAjv(): Ajv {
+    // Formats such as int32/int64 are OpenAPI-specific and not validated here
+    const ajv = new Ajv({
+      allErrors: true,
+      strict: false,
+      validateFormats: false,
+    });
+    ajv.addVocabulary(KUBERNETES_KEYWORDS);
+    return ajv;
+  }
+
+  private generateValidationSuggestions(results: any[]): string[] {
+    const suggestions: string[] = [];
+    const invalid = results.filter((r) => !r.valid);
+
+    // Deprecated or unserved versions are worth fixing even in valid documents
+    for (const result of results) {
+      result.warnings?.forEach((warning: { message: string }) =>
+        suggestions.push(`Document ${result.index}: ${warning.message}`)
+      );
+    }
+
+    if (invalid.length === 0) {
+      suggestions.push(
+        results.some((r) => r.validated === false)
+          ? 'All validated documents are valid against their CRD schemas'
+          : 'All documents are valid against their CRD schemas'
+      );
+      return suggestions;
+    }
+
+    suggestions.push(
+      `Fix the ${invalid.length} invalid document(s) and validate again before sharing the manifest`
+    );
+
+    const resourceTypes = [
+      ...new Set(invalid.map((r) => r.resourceType).filter(Boolean)),
+    ];
+    for (const resourceType of resourceTypes) {
+      suggestions.push(
+        `Use "get-resource-details" with resourceType "${resourceType}" to review the schema`
+      );
+    }
+
+    if (invalid.some((r) => !r.resourceType)) {
+      suggestions.push(
+        'Use "list-available-resources" to see which resource types are loaded'
+      );
+    }
+
+    return suggestions;
+  }
+}
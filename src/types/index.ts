@@ -1,3 +1,6 @@
+import type { SearchIndex } from '../search/index.js';
+import type { SemanticIndex } from '../search/semantic.js';
+
 export interface CRDDefinition {
   apiVersion: string;
   kind: string;
@@ -12,6 +15,7 @@ export interface CRDDefinition {
       plural: string;
       singular?: string;
       shortNames?: string[];
+      categories?: string[];
     };
     scope: 'Namespaced' | 'Cluster';
     versions: CRDVersion[];
@@ -37,14 +41,57 @@ export interface CRDMetadata {
   shortNames?: string[];
   scope: 'Namespaced' | 'Cluster';
   versions: string[];
+  storageVersion?: string;
+  versionDetails?: CRDVersionInfo[]; // same order as versions
+  schemas?: Record<string, any>; // key: version name, value: openAPIV3Schema
   filePath: string;
+  layer?: string; // data directory the item was loaded from
   description?: string;
   category?: string;
+  categories?: string[]; // spec.names.categories, e.g. `all`
+  printerColumns?: Record<string, PrinterColumn[]>; // key: version name
+}
+
+export interface CRDVersionInfo {
+  name: string;
+  served: boolean; // false: the API server rejects this version
+  storage: boolean;
+  deprecated?: boolean;
+  deprecationWarning?: string;
+}
+
+// additionalPrinterColumns entry: what `kubectl get` shows for a resource
+export interface PrinterColumn {
+  name: string;
+  type: string;
+  jsonPath: string;
+  description?: string;
+  format?: string;
+  priority?: number; // above 0 only shown with `-o wide`
+}
+
+export interface SchemaField {
+  name: string;
+  path: string;
+  type?: string;
+  description?: string;
+  required: boolean;
+  default?: unknown;
+  enum?: unknown[];
+  format?: string;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  items?: SchemaField;
+  fields?: SchemaField[];
 }
 
 export interface SampleManifest {
   content: any;
+  source?: string; // YAML text of the document, comments included
   apiVersion: string;
+  group: string; // empty for core resources
+  version: string;
   kind: string;
   metadata: {
     name?: string;
@@ -52,6 +99,7 @@ export interface SampleManifest {
     [key: string]: any;
   };
   filePath: string;
+  layer?: string;
   description: string;
   tags: string[];
   complexity: 'simple' | 'intermediate' | 'advanced';
@@ -61,32 +109,119 @@ export interface InstructionDocument {
   title: string;
   content: string;
   filePath: string;
+  layer?: string;
   frontmatter: {
     title?: string;
     applicableCRDs?: string[];
     tags?: string[];
     category?: string;
     priority?: number;
+    accessPatterns?: AccessPattern | AccessPattern[];
     [key: string]: any;
   };
   detectedCRDs: string[];
   tags: string[];
+  sections?: InstructionSection[]; // heading tree, set by the InstructionLoader
+}
+
+// A heading of an instruction document and the text below it
+export interface InstructionSection {
+  anchor: string; // GitHub-style, unique within the document
+  heading: string;
+  level: number; // 1-6; 0 for text before the first heading
+  content: string; // text below the heading, without subsections
+  breadcrumbs: string[]; // headings of the enclosing sections, outermost first
+  children: InstructionSection[];
+}
+
+// Connection details documented in instruction frontmatter. String values
+// may use {{name}} and {{namespace}} placeholders for the instance.
+export interface AccessPattern {
+  kind?: string;
+  serviceName?: string;
+  serviceDNS?: string;
+  port?: number;
+  ports?: number[];
+  secretName?: string;
+  secretKeys?: string[];
+  envVars?: Record<string, string>;
+  notes?: string;
+}
+
+export interface FileLoadResult<T> {
+  items: T[];
+  errors: string[];
+  warnings: string[];
 }
 
 export interface LoadedData {
   crds: Map<string, CRDMetadata>; // key: group/kind
-  samples: Map<string, SampleManifest[]>; // key: kind
+  samples: Map<string, SampleManifest[]>; // key: group/kind
   instructions: InstructionDocument[];
+  catalog?: CatalogConfig; // merged crdmcp.config.yaml of all layers
+  searchIndex?: SearchIndex; // built by the DataLoader for every LoadedData
+  semanticIndex?: SemanticIndex; // instruction chunk embeddings, with --embeddings
   statistics: {
     crdsLoaded: number;
     samplesLoaded: number;
     instructionsLoaded: number;
     loadTime: number;
+    layers?: string[];
+    filesSkipped?: number; // ignored or excluded by include/exclude patterns
+    sources?: DataSourceInfo[]; // git sources and the commits loaded
+    cluster?: ClusterSourceInfo; // set when CRDs are imported from a cluster
     errors: string[];
     warnings: string[];
   };
 }
 
+export interface DataSourceInfo {
+  dataDir: string; // checkout the data was loaded from
+  url: string;
+  ref?: string;
+  commit: string;
+}
+
+// Contents of an optional crdmcp.config.yaml at the root of a data directory
+export interface CatalogConfig {
+  name?: string;
+  version?: string;
+  paths?: {
+    crds?: string; // relative to the data directory
+    samples?: string;
+    instructions?: string;
+  };
+  categories?: CategoryDefinition[];
+  defaultNamespace?: string;
+  tools?: {
+    enabled?: string[]; // only register these tools
+    disabled?: string[];
+  };
+}
+
+export interface CategoryDefinition {
+  name: string;
+  description?: string;
+  // API group and kind patterns, `*` matches anything; without either the
+  // entry only describes a category assigned some other way
+  groups?: string[];
+  kinds?: string[];
+}
+
+export interface ClusterSourceConfig {
+  kubeconfig: string;
+  context?: string; // defaults to the kubeconfig's current-context
+  includeGroups?: string[]; // API group patterns, `*` matches anything
+  excludeGroups?: string[];
+  timeoutMs?: number; // per API request and credential plugin run (30s)
+}
+
+export interface ClusterSourceInfo {
+  context: string;
+  server: string;
+  crdsImported: number;
+}
+
 export interface ToolResult {
   success: boolean;
   data?: any;
@@ -98,9 +233,25 @@ export interface ToolResult {
 }
 
 export interface ServerConfig {
-  dataDir: string;
+  dataDir: string; // lowest-precedence layer
+  dataDirs?: string[]; // all layers, lowest precedence first; may be git+ URLs
+  cacheDir?: string; // where git data sources are checked out
   verbose: boolean;
   port?: number;
+  host?: string; // interface the HTTP transport binds to
+  allowedHosts?: string[]; // extra host names accepted by the HTTP transport
+  watch?: boolean;
+  transport?: 'stdio' | 'http';
+  plugins?: string[]; // module files or directories with tool plugins
+  cluster?: ClusterSourceConfig; // import installed CRDs from a cluster
+  include?: string[]; // gitignore-style patterns relative to each data dir
+  exclude?: string[];
+  embeddings?: string; // 'hash' or an embedding provider module
+}
+
+export interface PluginToolInfo {
+  name: string;
+  source: string; // module the tool was loaded from
 }
 
 export interface ResourceFilter {
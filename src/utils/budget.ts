@@ -0,0 +1,160 @@
+import { Buffer } from 'buffer';
+
+// Rough size of a token in JSON output, used to turn maxTokens into bytes
+export const BYTES_PER_TOKEN = 4;
+
+// Budget when a call sets neither maxTokens nor maxBytes (~25k tokens)
+export const DEFAULT_MAX_BYTES = 100_000;
+
+// Strings are never shortened below this many characters
+const MIN_STRING_LENGTH = 80;
+
+export interface TrimResult {
+  data: any;
+  bytes: number;
+  itemsKept?: number; // items left in the paginated list
+  stringsShortened: number;
+  arraysShortened: string[]; // JSON paths of other shortened arrays
+}
+
+/** Size of the JSON the server sends for a value. */
+export function responseSize(data: unknown): number {
+  return Buffer.byteLength(JSON.stringify(data, null, 2) ?? '', 'utf8');
+}
+
+/**
+ * Shrinks `data` until its JSON fits `maxBytes`, always in the same order:
+ * trailing items of the paginated `listField` are dropped first (keeping at
+ * least one), then long strings are shortened, then other arrays are cut.
+ * The result may still be over budget if even that is not enough.
+ */
+export function trimToBudget(
+  data: any,
+  maxBytes: number,
+  listField?: string
+): TrimResult {
+  const fits = (value: unknown) => responseSize(value) <= maxBytes;
+  let current = data;
+  let itemsKept: number | undefined;
+
+  const list = listField && current?.[listField];
+  if (Array.isArray(list) && list.length > 1) {
+    itemsKept = largest(1, list.length, (count) =>
+      fits({ ...current, [listField!]: list.slice(0, count) })
+    );
+    current = { ...current, [listField!]: list.slice(0, itemsKept) };
+  }
+
+  let stringsShortened = 0;
+  if (!fits(current)) {
+    const length = largest(
+      MIN_STRING_LENGTH,
+      Math.max(MIN_STRING_LENGTH, longestString(current)),
+      (max) => fits(shortenStrings(current, max).value)
+    );
+    const shortened = shortenStrings(current, length);
+    current = shortened.value;
+    stringsShortened = shortened.count;
+  }
+
+  const arraysShortened: string[] = [];
+  if (!fits(current)) {
+    const length = largest(1, Math.max(1, longestArray(current)), (max) =>
+      fits(cutArrays(current, max, '', []))
+    );
+    current = cutArrays(current, length, '', arraysShortened);
+  }
+
+  return {
+    data: current,
+    bytes: responseSize(current),
+    ...(itemsKept !== undefined && { itemsKept }),
+    stringsShortened,
+    arraysShortened,
+  };
+}
+
+/** Largest value in [low, high] passing a monotonic test, else `low`. */
+function largest(
+  low: number,
+  high: number,
+  test: (value: number) => boolean
+): number {
+  let best = low;
+  while (low <= high) {
+    const middle = Math.floor((low + high) / 2);
+    if (test(middle)) {
+      best = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return best;
+}
+
+function shortenStrings(
+  value: any,
+  max: number
+): { value: any; count: number } {
+  let count = 0;
+  const visit = (node: any): any => {
+    if (typeof node === 'string' && node.length > max) {
+      count++;
+      return `${node.slice(0, max)}… [${node.length - max} more characters]`;
+    }
+    if (Array.isArray(node)) {
+      return node.map(visit);
+    }
+    if (node && typeof node === 'object') {
+      return Object.fromEntries(
+        Object.entries(node).map(([key, child]) => [key, visit(child)])
+      );
+    }
+    return node;
+  };
+  return { value: visit(value), count };
+}
+
+function cutArrays(value: any, max: number, path: string, cut: string[]): any {
+  if (Array.isArray(value)) {
+    if (value.length > max) {
+      cut.push(path || '/');
+    }
+    return value
+      .slice(0, max)
+      .map((item, i) => cutArrays(item, max, `${path}/${i}`, cut));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [
+        key,
+        cutArrays(child, max, `${path}/${key}`, cut),
+      ])
+    );
+  }
+  return value;
+}
+
+function longestString(value: any): number {
+  if (typeof value === 'string') {
+    return value.length;
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value).reduce(
+      (max: number, child) => Math.max(max, longestString(child)),
+      0
+    );
+  }
+  return 0;
+}
+
+function longestArray(value: any): number {
+  if (value && typeof value === 'object') {
+    return Object.values(value).reduce(
+      (max: number, child) => Math.max(max, longestArray(child)),
+      Array.isArray(value) ? value.length : 0
+    );
+  }
+  return 0;
+}
@@ -0,0 +1,150 @@
+import { toYaml } from './yaml.js';
+
+export const OUTPUT_FORMATS = ['json', 'yaml', 'markdown'] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+// Fields tried in order to label an item of a list in markdown
+const LABEL_FIELDS = [
+  'title',
+  'heading',
+  'name',
+  'resourceType',
+  'kind',
+  'description',
+  'filePath',
+];
+
+/** Renders the data of a tool result as text in the requested format. */
+export function formatData(
+  data: unknown,
+  format: OutputFormat = 'json',
+  title?: string
+): string {
+  switch (format) {
+    case 'yaml':
+      return toYaml(data);
+    case 'markdown':
+      return [
+        ...(title ? [`# ${title}`] : []),
+        ...markdownBlocks(data, title ? 2 : 1),
+      ].join('\n\n');
+    default:
+      return JSON.stringify(data, null, 2);
+  }
+}
+
+/**
+ * Scalars become a bullet list, nested objects and lists of objects become
+ * sections, and Kubernetes manifests become YAML code blocks.
+ */
+function markdownBlocks(value: unknown, level: number): string[] {
+  if (!isObject(value) || isManifest(value)) {
+    return [valueBlock(value)];
+  }
+
+  // A `yaml` string holds the same manifests with their comments
+  const hasYaml = typeof value.yaml === 'string';
+  const facts: string[] = [];
+  const sections: string[] = [];
+
+  for (const [key, child] of Object.entries(value)) {
+    if (child === undefined || child === null) {
+      continue;
+    }
+    if (hasYaml && key !== 'yaml' && containsManifest(child)) {
+      continue;
+    }
+
+    if (isInline(child)) {
+      facts.push(`- **${key}**: ${inlineValue(child)}`);
+    } else if (level > 4 || typeof child === 'string' || isManifest(child)) {
+      sections.push(`**${key}**:\n\n${valueBlock(child, key)}`);
+    } else {
+      sections.push(heading(key, level));
+      if (Array.isArray(child)) {
+        child.forEach((item, i) => {
+          sections.push(heading(itemLabel(item, `${key} ${i + 1}`), level + 1));
+          sections.push(...markdownBlocks(item, level + 2));
+        });
+      } else {
+        sections.push(...markdownBlocks(child, level + 1));
+      }
+    }
+  }
+
+  return [facts.join('\n'), ...sections].filter(Boolean);
+}
+
+function valueBlock(value: unknown, key?: string): string {
+  if (typeof value === 'string') {
+    return fence(value, key === 'yaml' ? 'yaml' : '');
+  }
+  return fence(toYaml(value), 'yaml');
+}
+
+/** A code fence longer than any backtick run inside the text. */
+function fence(text: string, language: string): string {
+  const longest = Math.max(
+    2,
+    ...(text.match(/`+/g) || []).map((run) => run.length)
+  );
+  const marker = '`'.repeat(longest + 1);
+  return `${marker}${language}\n${text.replace(/\n$/, '')}\n${marker}`;
+}
+
+function heading(text: string, level: number): string {
+  return `${'#'.repeat(Math.min(level, 6))} ${text}`;
+}
+
+function itemLabel(item: unknown, fallback: string): string {
+  if (isObject(item)) {
+    const field = LABEL_FIELDS.find(
+      (name) => typeof item[name] === 'string' && item[name]
+    );
+    if (field) {
+      return String(item[field]);
+    }
+  }
+  return isInline(item) ? inlineValue(item) : fallback;
+}
+
+function isInline(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.every((item) => isScalar(item));
+  }
+  return isScalar(value);
+}
+
+function isScalar(value: unknown): boolean {
+  return (
+    typeof value === 'number' ||
+    typeof value === 'boolean' ||
+    (typeof value === 'string' && !value.includes('\n'))
+  );
+}
+
+function inlineValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.map(String).join(', ') : '(none)';
+  }
+  return String(value);
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isManifest(value: unknown): boolean {
+  return (
+    isObject(value) &&
+    typeof value.apiVersion === 'string' &&
+    typeof value.kind === 'string'
+  );
+}
+
+function containsManifest(value: unknown): boolean {
+  return Array.isArray(value)
+    ? value.length > 0 && value.every(isManifest)
+    : isManifest(value);
+}
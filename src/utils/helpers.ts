@@ -1,5 +1,3 @@
-import { CRDMetadata } from '../types/index.js';
-
 export function generateResourceKey(group: string, kind: string): string {
   return `${group}/${kind}`;
 }
@@ -9,74 +7,35 @@ export function parseResourceKey(key: string): { group: string; kind: string } {
   return { group, kind };
 }
 
-export function inferResourceCategory(
-  crd: CRDMetadata | string
-): string | undefined {
-  const kind = typeof crd === 'string' ? crd : crd.kind;
-  const lowerKind = kind.toLowerCase();
-
-  // Database patterns
-  if (
-    lowerKind.includes('redis') ||
-    lowerKind.includes('postgres') ||
-    lowerKind.includes('mysql') ||
-    lowerKind.includes('mongodb') ||
-    lowerKind.includes('database') ||
-    lowerKind.includes('db')
-  ) {
-    return 'database';
-  }
-
-  // Queue/messaging patterns
-  if (
-    lowerKind.includes('kafka') ||
-    lowerKind.includes('rabbit') ||
-    lowerKind.includes('queue') ||
-    lowerKind.includes('topic') ||
-    lowerKind.includes('stream')
-  ) {
-    return 'messaging';
-  }
-
-  // Service patterns
-  if (
-    lowerKind.includes('service') ||
-    lowerKind.includes('api') ||
-    lowerKind.includes('gateway') ||
-    lowerKind.includes('proxy')
-  ) {
-    return 'service';
-  }
-
-  // Storage patterns
-  if (
-    lowerKind.includes('storage') ||
-    lowerKind.includes('volume') ||
-    lowerKind.includes('bucket')
-  ) {
-    return 'storage';
-  }
-
-  // Network patterns
-  if (
-    lowerKind.includes('network') ||
-    lowerKind.includes('ingress') ||
-    lowerKind.includes('route')
-  ) {
-    return 'networking';
-  }
+// Core resources (e.g. "v1") have no group; their samples are keyed under
+// "core" so every sample key has the group/kind shape
+export const CORE_GROUP = 'core';
+
+/**
+ * Matches a value against a pattern where `*` stands for any run of
+ * characters, e.g. `*.example.com`. Matching is case-insensitive.
+ */
+export function matchesPattern(value: string, pattern: string): boolean {
+  const regex = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${regex}$`, 'i').test(value);
+}
 
-  // Security patterns
-  if (
-    lowerKind.includes('policy') ||
-    lowerKind.includes('rbac') ||
-    lowerKind.includes('auth') ||
-    lowerKind.includes('cert')
-  ) {
-    return 'security';
+export function parseApiVersion(apiVersion: string): {
+  group: string;
+  version: string;
+} {
+  const slash = apiVersion.indexOf('/');
+  if (slash === -1) {
+    return { group: '', version: apiVersion };
   }
 
-  return undefined;
+  return {
+    group: apiVersion.slice(0, slash),
+    version: apiVersion.slice(slash + 1),
+  };
 }
 
 export function extractTagsFromContent(content: string): string[] {
@@ -170,3 +129,25 @@ function levenshteinDistance(str1: string, str2: string): number {
 
   return matrix[str2.length][str1.length];
 }
+
+export function deepMerge(base: unknown, override: unknown): unknown {
+  if (
+    !base ||
+    !override ||
+    typeof base !== 'object' ||
+    typeof override !== 'object' ||
+    Array.isArray(base) ||
+    Array.isArray(override)
+  ) {
+    return override === undefined ? base : override;
+  }
+
+  const result: Record<string, unknown> = {
+    ...(base as Record<string, unknown>),
+  };
+  for (const [key, value] of Object.entries(override)) {
+    result[key] = deepMerge(result[key], value);
+  }
+
+  return result;
+}
@@ -0,0 +1,133 @@
+import type {
+  InstructionDocument,
+  InstructionSection,
+} from '../types/index.js';
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+/**
+ * Splits markdown into a tree of sections, one per heading, nested by
+ * heading level. Text before the first heading becomes an "Introduction"
+ * section at level 0. Headings inside fenced code blocks are ignored.
+ */
+export function parseSections(markdown: string): InstructionSection[] {
+  const roots: InstructionSection[] = [];
+  const anchors = new Map<string, number>();
+  const stack: InstructionSection[] = [];
+  let current: InstructionSection | undefined;
+  let lines: string[] = [];
+  let inFence = false;
+
+  const close = () => {
+    if (current) {
+      current.content = lines.join('\n').trim();
+    }
+  };
+
+  const open = (heading: string, level: number) => {
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      stack.pop();
+    }
+
+    const section: InstructionSection = {
+      anchor: uniqueAnchor(heading, anchors),
+      heading,
+      level,
+      content: '',
+      breadcrumbs: stack.map((parent) => parent.heading),
+      children: [],
+    };
+    (stack[stack.length - 1]?.children ?? roots).push(section);
+    if (level > 0) {
+      stack.push(section);
+    }
+    current = section;
+    lines = [];
+  };
+
+  const [firstLine] = markdown.trimStart().split('\n');
+  if (!HEADING_PATTERN.test(firstLine ?? '')) {
+    open('Introduction', 0);
+  }
+
+  for (const line of markdown.split('\n')) {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+    }
+
+    const match = !inFence && line.match(HEADING_PATTERN);
+    if (match) {
+      close();
+      open(match[2], match[1].length);
+    } else {
+      lines.push(line);
+    }
+  }
+  close();
+
+  // An empty document has no introduction either
+  return roots.filter(
+    (section) => section.level > 0 || section.content.length > 0
+  );
+}
+
+/** The section tree of an instruction document, parsed if not loaded. */
+export function getSections(doc: InstructionDocument): InstructionSection[] {
+  return doc.sections ?? parseSections(doc.content);
+}
+
+/** All sections of a tree in document order. */
+export function flattenSections(
+  sections: InstructionSection[]
+): InstructionSection[] {
+  return sections.flatMap((section) => [
+    section,
+    ...flattenSections(section.children),
+  ]);
+}
+
+export function findSection(
+  sections: InstructionSection[],
+  anchor: string
+): InstructionSection | undefined {
+  const normalized = anchor.replace(/^#/, '').toLowerCase();
+  return flattenSections(sections).find(
+    (section) => section.anchor === normalized
+  );
+}
+
+/**
+ * Markdown of a section: its heading and text, followed by its subsections
+ * unless `includeSubsections` is false.
+ */
+export function sectionMarkdown(
+  section: InstructionSection,
+  includeSubsections = true
+): string {
+  const parts = [
+    section.level > 0
+      ? `${'#'.repeat(section.level)} ${section.heading}`
+      : undefined,
+    section.content || undefined,
+  ].filter((part): part is string => Boolean(part));
+
+  if (includeSubsections) {
+    parts.push(...section.children.map((child) => sectionMarkdown(child)));
+  }
+
+  return parts.join('\n\n');
+}
+
+/** GitHub-style heading anchor, suffixed with -1, -2... when repeated. */
+function uniqueAnchor(heading: string, anchors: Map<string, number>): string {
+  const anchor =
+    heading
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+      .trim()
+      .replace(/\s/g, '-') || 'section';
+  const count = anchors.get(anchor) ?? 0;
+  anchors.set(anchor, count + 1);
+  return count === 0 ? anchor : `${anchor}-${count}`;
+}
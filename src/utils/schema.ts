@@ -0,0 +1,380 @@
+import type {
+  CRDMetadata,
+  PrinterColumn,
+  SchemaField,
+} from '../types/index.js';
+
+/**
+ * The version to use when none is requested: the storage version, else the
+ * newest served one, else the first listed.
+ */
+export function resolveSchemaVersion(
+  crd: CRDMetadata,
+  version?: string
+): string | undefined {
+  if (version) {
+    return crd.versions.includes(version) ? version : undefined;
+  }
+
+  const served = (crd.versionDetails || [])
+    .filter((details) => details.served)
+    .map((details) => details.name)
+    .sort(compareVersions);
+
+  return crd.storageVersion || served[0] || crd.versions[0];
+}
+
+/**
+ * Orders Kubernetes API versions newest first, the way kubectl does: GA
+ * before beta before alpha, higher numbers first, unrecognised names last.
+ */
+export function compareVersions(a: string, b: string): number {
+  const rank = (version: string): number[] => {
+    const match = /^v(\d+)(?:(alpha|beta)(\d+))?$/.exec(version);
+    if (!match) {
+      return [0, 0, 0];
+    }
+    const stability = match[2] === 'alpha' ? 1 : match[2] === 'beta' ? 2 : 3;
+    return [stability, Number(match[1]), Number(match[3] || 0)];
+  };
+
+  const [rankA, rankB] = [rank(a), rank(b)];
+  for (let i = 0; i < rankA.length; i++) {
+    if (rankA[i] !== rankB[i]) {
+      return rankB[i] - rankA[i];
+    }
+  }
+  return a.localeCompare(b);
+}
+
+/**
+ * Warning for manifests using a deprecated or unserved version of a CRD, or
+ * undefined when the version is fine (or unknown).
+ */
+export function versionWarning(
+  crd: CRDMetadata,
+  version: string
+): string | undefined {
+  const details = crd.versionDetails?.find((v) => v.name === version);
+  if (!details) {
+    return undefined;
+  }
+
+  const apiVersion = `${crd.group}/${version}`;
+  const preferred = resolveSchemaVersion(crd);
+  const instead =
+    preferred && preferred !== version
+      ? `; use ${crd.group}/${preferred} instead`
+      : '';
+
+  if (!details.served) {
+    return `${apiVersion} ${crd.kind} is not served by the API server${instead}`;
+  }
+
+  if (details.deprecated) {
+    return (
+      details.deprecationWarning ||
+      `${apiVersion} ${crd.kind} is deprecated${instead}`
+    );
+  }
+
+  return undefined;
+}
+
+export function getVersionSchema(
+  crd: CRDMetadata,
+  version?: string
+): any | undefined {
+  const resolvedVersion = resolveSchemaVersion(crd, version);
+  if (!resolvedVersion) {
+    return undefined;
+  }
+
+  return crd.schemas?.[resolvedVersion];
+}
+
+export function getPrinterColumns(
+  crd: CRDMetadata,
+  version?: string
+): PrinterColumn[] {
+  const resolvedVersion = resolveSchemaVersion(crd, version);
+  return (resolvedVersion && crd.printerColumns?.[resolvedVersion]) || [];
+}
+
+export function buildFieldTree(schema: any): SchemaField[] {
+  if (!schema || typeof schema !== 'object') {
+    return [];
+  }
+
+  return buildProperties(schema, '');
+}
+
+function buildProperties(schema: any, parentPath: string): SchemaField[] {
+  const properties = schema.properties as Record<string, any> | undefined;
+  if (!properties) {
+    return [];
+  }
+
+  const required = new Set<string>(
+    Array.isArray(schema.required) ? schema.required : []
+  );
+
+  return Object.entries(properties).map(([name, property]) =>
+    buildField(
+      name,
+      property,
+      parentPath ? `${parentPath}.${name}` : name,
+      required.has(name)
+    )
+  );
+}
+
+function buildField(
+  name: string,
+  schema: any,
+  path: string,
+  required: boolean
+): SchemaField {
+  const field: SchemaField = {
+    name,
+    path,
+    type: describeType(schema),
+    required,
+  };
+
+  if (typeof schema.description === 'string') {
+    field.description = schema.description;
+  }
+  if (schema.default !== undefined) {
+    field.default = schema.default;
+  }
+  if (Array.isArray(schema.enum)) {
+    field.enum = schema.enum;
+  }
+  if (typeof schema.format === 'string') {
+    field.format = schema.format;
+  }
+  if (typeof schema.pattern === 'string') {
+    field.pattern = schema.pattern;
+  }
+  if (typeof schema.minimum === 'number') {
+    field.minimum = schema.minimum;
+  }
+  if (typeof schema.maximum === 'number') {
+    field.maximum = schema.maximum;
+  }
+
+  if (schema.properties) {
+    field.fields = buildProperties(schema, path);
+  }
+
+  if (schema.items && typeof schema.items === 'object') {
+    field.items = buildField('items', schema.items, `${path}[]`, false);
+  }
+
+  return field;
+}
+
+function describeType(schema: any): string | undefined {
+  if (schema['x-kubernetes-int-or-string']) {
+    return 'int-or-string';
+  }
+
+  if (schema.type === 'object' && schema.additionalProperties) {
+    const valueType =
+      typeof schema.additionalProperties === 'object'
+        ? describeType(schema.additionalProperties)
+        : undefined;
+    return valueType ? `map[string]${valueType}` : 'object';
+  }
+
+  if (typeof schema.type === 'string') {
+    return schema.type;
+  }
+
+  if (schema['x-kubernetes-preserve-unknown-fields']) {
+    return 'any';
+  }
+
+  return undefined;
+}
+
+const OBJECT_META_PROPERTIES = {
+  apiVersion: { type: 'string' },
+  kind: { type: 'string' },
+  metadata: { type: 'object' },
+};
+
+/**
+ * Converts a CRD openAPIV3Schema into a JSON schema that ajv can enforce
+ * the way the API server does: unknown fields are rejected unless
+ * x-kubernetes-preserve-unknown-fields is set, and int-or-string fields
+ * accept either type.
+ */
+export function toValidationSchema(schema: any): any {
+  const prepared = JSON.parse(JSON.stringify(schema || {}));
+  prepareValidationNode(prepared, true);
+  return prepared;
+}
+
+function prepareValidationNode(
+  node: any,
+  isRoot: boolean = false,
+  isObjectMeta: boolean = false
+): void {
+  if (!node || typeof node !== 'object') {
+    return;
+  }
+
+  if (node['x-kubernetes-int-or-string'] && !node.type) {
+    node.type = ['integer', 'string'];
+  }
+
+  // The root and embedded resources always carry apiVersion/kind/metadata
+  const isResource = isRoot || node['x-kubernetes-embedded-resource'];
+  if (isResource) {
+    node.properties = { ...OBJECT_META_PROPERTIES, ...node.properties };
+  }
+
+  // A CRD schema may only constrain metadata.name and generateName; the
+  // rest of ObjectMeta (namespace, labels, ...) is always allowed
+  if (
+    node.properties &&
+    node.additionalProperties === undefined &&
+    !node['x-kubernetes-preserve-unknown-fields'] &&
+    !isObjectMeta
+  ) {
+    node.additionalProperties = false;
+  }
+
+  for (const [key, property] of Object.entries(node.properties || {})) {
+    prepareValidationNode(property, false, isResource && key === 'metadata');
+  }
+
+  if (node.items && typeof node.items === 'object') {
+    prepareValidationNode(node.items);
+  }
+
+  if (
+    node.additionalProperties &&
+    typeof node.additionalProperties === 'object'
+  ) {
+    prepareValidationNode(node.additionalProperties);
+  }
+}
+
+export type SkeletonDepth = 'simple' | 'intermediate' | 'advanced';
+
+/**
+ * Builds an example value for a schema. Required fields and fields with
+ * defaults are always filled; intermediate adds enum fields and advanced
+ * adds every declared property. String fields without a default or enum
+ * get a "<field>" placeholder and are reported in `placeholders`.
+ */
+export function buildSkeleton(
+  schema: any,
+  depth: SkeletonDepth = 'simple',
+  path: string = ''
+): { value: unknown; placeholders: string[] } {
+  const placeholders: string[] = [];
+  const value = buildSkeletonValue(schema, depth, path, placeholders);
+  return { value, placeholders };
+}
+
+function buildSkeletonValue(
+  schema: any,
+  depth: SkeletonDepth,
+  path: string,
+  placeholders: string[]
+): unknown {
+  if (!schema || typeof schema !== 'object') {
+    return undefined;
+  }
+
+  if (schema.default !== undefined) {
+    return schema.default;
+  }
+
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return schema.enum[0];
+  }
+
+  if (schema.properties) {
+    const required = new Set<string>(
+      Array.isArray(schema.required) ? schema.required : []
+    );
+    const result: Record<string, unknown> = {};
+
+    for (const [name, property] of Object.entries<any>(schema.properties)) {
+      if (!shouldIncludeField(name, property, required, depth)) {
+        continue;
+      }
+
+      const fieldValue = buildSkeletonValue(
+        property,
+        depth,
+        path ? `${path}.${name}` : name,
+        placeholders
+      );
+      if (fieldValue !== undefined) {
+        result[name] = fieldValue;
+      }
+    }
+
+    return result;
+  }
+
+  if (schema['x-kubernetes-int-or-string']) {
+    placeholders.push(path);
+    return `<${lastSegment(path)}>`;
+  }
+
+  switch (schema.type) {
+    case 'object':
+      return {};
+    case 'array': {
+      if (typeof schema.minItems === 'number' && schema.minItems > 0) {
+        return [
+          buildSkeletonValue(schema.items, depth, `${path}[0]`, placeholders),
+        ];
+      }
+      return [];
+    }
+    case 'string':
+      placeholders.push(path);
+      return `<${lastSegment(path)}>`;
+    case 'integer':
+    case 'number':
+      return typeof schema.minimum === 'number' ? schema.minimum : 1;
+    case 'boolean':
+      return false;
+    default:
+      return undefined;
+  }
+}
+
+function shouldIncludeField(
+  name: string,
+  property: any,
+  required: Set<string>,
+  depth: SkeletonDepth
+): boolean {
+  if (required.has(name) || property?.default !== undefined) {
+    return true;
+  }
+
+  if (depth === 'advanced') {
+    return true;
+  }
+
+  return depth === 'intermediate' && Array.isArray(property?.enum);
+}
+
+function lastSegment(path: string): string {
+  return (
+    path
+      .split('.')
+      .pop()
+      ?.replace(/\[\d+\]$/, '') || 'value'
+  );
+}
@@ -0,0 +1,247 @@
+import { dump } from 'js-yaml';
+
+const SEPARATOR_PATTERN = /^---(\s|$)/;
+const DOCUMENT_END_PATTERN = /^\.\.\.\s*$/;
+const KEY_PATTERN =
+  /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"{[-][^#]*?)\s*:(?=\s|$)/;
+const BLOCK_SCALAR_PATTERN = /^\s*[|>][-+0-9]*\s*(#.*)?$/;
+const QUOTED_PATTERN = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*')/;
+
+interface ScannedLine {
+  column: number; // where the line's node starts; -1 for blank lines
+  path?: string; // JSON path of the node starting on the line
+  comment?: string; // the line is only this comment
+  inline?: string; // comment after the node's value
+}
+
+interface YamlComments {
+  header: string[];
+  nodes: Map<string, { before: string[]; inline?: string }>;
+  footer: string[];
+}
+
+/** Block-style YAML the way manifests are usually written by hand. */
+export function toYaml(value: unknown): string {
+  return dump(value, { noRefs: true, lineWidth: -1, skipInvalid: true });
+}
+
+/**
+ * Splits a YAML stream into the source text of each document. Comments
+ * between documents stay with the document that follows them.
+ */
+export function splitYamlDocuments(content: string): string[] {
+  const chunks: string[][] = [[]];
+  for (const line of content.split('\n')) {
+    if (SEPARATOR_PATTERN.test(line)) {
+      chunks.push([]);
+    } else if (!DOCUMENT_END_PATTERN.test(line)) {
+      chunks[chunks.length - 1].push(line);
+    }
+  }
+
+  const documents: string[] = [];
+  let pending: string[] = [];
+  for (const lines of chunks) {
+    pending.push(...lines);
+    if (lines.some((line) => line.trim() && !line.trim().startsWith('#'))) {
+      documents.push(joinLines(pending));
+      pending = [];
+    }
+  }
+  if (documents.length > 0 && pending.some((line) => line.trim())) {
+    documents.push(`${documents.pop()}${joinLines(pending)}`);
+  }
+  return documents;
+}
+
+/**
+ * Serializes `value` as YAML, carrying over the comments of `source` (the
+ * document it was derived from) onto the keys and list items at the same
+ * paths. Comments on paths that no longer exist are dropped.
+ */
+export function dumpWithComments(value: unknown, source?: string): string {
+  const yaml = toYaml(value);
+  if (!source) {
+    return yaml;
+  }
+
+  const comments = collectComments(source);
+  const lines = yaml.replace(/\n$/, '').split('\n');
+  const scanned = scanLines(lines);
+  const output = [...comments.header];
+
+  lines.forEach((line, i) => {
+    const { path, column } = scanned[i];
+    const node = path !== undefined ? comments.nodes.get(path) : undefined;
+    if (!node) {
+      output.push(line);
+      return;
+    }
+
+    output.push(...node.before.map((comment) => ' '.repeat(column) + comment));
+    output.push(node.inline ? `${line} ${node.inline}` : line);
+  });
+
+  output.push(...comments.footer);
+  return joinLines(output);
+}
+
+function collectComments(source: string): YamlComments {
+  const comments: YamlComments = { header: [], nodes: new Map(), footer: [] };
+  let pending: string[] = [];
+  let seenNode = false;
+
+  for (const line of scanLines(source.split('\n'))) {
+    if (line.comment) {
+      pending.push(line.comment);
+      continue;
+    }
+    if (line.path === undefined) {
+      continue;
+    }
+
+    // Comments above the first key describe the whole document
+    if (!seenNode) {
+      comments.header = pending;
+      pending = [];
+      seenNode = true;
+    }
+    if (pending.length > 0 || line.inline) {
+      comments.nodes.set(line.path, { before: pending, inline: line.inline });
+    }
+    pending = [];
+  }
+
+  comments.footer = pending;
+  return comments;
+}
+
+/**
+ * Works out the path of the key or list item each line starts from its
+ * indentation, which is enough for block-style YAML. Lines inside block
+ * scalars and multi-line quoted scalars are skipped; flow collections and
+ * multi-line plain scalars get no path.
+ */
+function scanLines(lines: string[]): ScannedLine[] {
+  const stack: Array<{ column: number; segment: string; item: boolean }> = [];
+  const counters = new Map<string, number>();
+  const pathOf = () => JSON.stringify(stack.map((entry) => entry.segment));
+  let blockColumn: number | undefined;
+  let quote: string | undefined;
+
+  return lines.map((line) => {
+    if (quote !== undefined) {
+      if (closesQuote(line, quote)) {
+        quote = undefined;
+      }
+      return { column: -1 };
+    }
+
+    const column = line.search(/\S/);
+    if (blockColumn !== undefined) {
+      if (column === -1 || column > blockColumn) {
+        return { column: -1 };
+      }
+      blockColumn = undefined;
+    }
+    if (column === -1) {
+      return { column };
+    }
+
+    let rest = line.slice(column);
+    if (rest.startsWith('#')) {
+      return { column, comment: rest.trimEnd() };
+    }
+
+    let keyColumn = column;
+    if (/^-(\s|$)/.test(rest)) {
+      // A sequence may sit at the same indentation as its parent key
+      while (
+        stack.length > 0 &&
+        (stack[stack.length - 1].column > column ||
+          (stack[stack.length - 1].item &&
+            stack[stack.length - 1].column === column))
+      ) {
+        stack.pop();
+      }
+      const parent = pathOf();
+      const index = counters.get(parent) ?? 0;
+      counters.set(parent, index + 1);
+      stack.push({ column, segment: `[${index}]`, item: true });
+
+      const offset = rest.slice(1).search(/\S/);
+      if (offset === -1) {
+        return { column, path: pathOf() };
+      }
+      keyColumn = column + 1 + offset;
+      rest = rest.slice(1 + offset);
+    } else {
+      while (stack.length > 0 && stack[stack.length - 1].column >= column) {
+        stack.pop();
+      }
+    }
+
+    const key = rest.match(KEY_PATTERN);
+    if (!key && keyColumn === column) {
+      return { column };
+    }
+
+    let value = rest;
+    if (key) {
+      stack.push({ column: keyColumn, segment: unquote(key[1]), item: false });
+      value = rest.slice(key[0].length);
+    }
+    // Block scalar lines are indented past the key, or past the list item's dash
+    if (BLOCK_SCALAR_PATTERN.test(value)) {
+      blockColumn = key ? keyColumn : column;
+    }
+    quote = unclosedQuote(value);
+    return {
+      column,
+      path: pathOf(),
+      inline: quote === undefined ? inlineComment(value) : undefined,
+    };
+  });
+}
+
+/** The quote character a quoted scalar starting in `value` leaves open. */
+function unclosedQuote(value: string): string | undefined {
+  const trimmed = value.trim();
+  if (!trimmed.startsWith('"') && !trimmed.startsWith("'")) {
+    return undefined;
+  }
+  return QUOTED_PATTERN.test(trimmed) ? undefined : trimmed[0];
+}
+
+function closesQuote(line: string, quote: string): boolean {
+  const unescaped =
+    quote === '"' ? line.replace(/\\./g, '') : line.replace(/''/g, '');
+  return unescaped.includes(quote);
+}
+
+function inlineComment(value: string): string | undefined {
+  // Blank out quoted strings so a "#" inside them is not taken for a comment
+  const masked = value.replace(/"(?:[^"\\]|\\.)*"|'(?:[^']|'')*'/g, (quoted) =>
+    '_'.repeat(quoted.length)
+  );
+  const index = masked.search(/(^|\s)#/);
+  return index === -1 ? undefined : value.slice(index).trim();
+}
+
+function unquote(key: string): string {
+  if (key.startsWith('"')) {
+    return key.slice(1, -1).replace(/\\(.)/g, '$1');
+  }
+  if (key.startsWith("'")) {
+    return key.slice(1, -1).replace(/''/g, "'");
+  }
+  return key.trim();
+}
+
+function joinLines(lines: string[]): string {
+  const trimmed = lines
+    .join('\n')
+    .replace(/^\s*\n/, '')
+    .trimEnd();
+  return trimmed ? `${trimmed}\n` : '';
+}
@@ -0,0 +1,8 @@
+export default () => ({
+  name: 'list-available-resources',
+  description: 'Shadows a built-in tool',
+  inputSchema: {},
+  async execute() {
+    return { success: true, data: {} };
+  },
+});
@@ -0,0 +1,3 @@
+{{- define "widget-operator.fullname" -}}
+{{ .Release.Name }}-{{ .Chart.Name }}
+{{- end }}
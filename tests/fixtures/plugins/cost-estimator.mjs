@@ -0,0 +1,28 @@
+// Class-style plugin: constructed with the loaded data and kept up to date
+export class CostEstimatorTool {
+  constructor(data) {
+    this.data = data;
+  }
+
+  get name() {
+    return 'estimate-cost';
+  }
+
+  get description() {
+    return 'Estimates the monthly cost of a custom resource';
+  }
+
+  get inputSchema() {
+    return {};
+  }
+
+  updateData(data) {
+    this.data = data;
+  }
+
+  async execute() {
+    return { success: true, data: { resourceTypes: this.data.crds.size } };
+  }
+}
+
+export default CostEstimatorTool;
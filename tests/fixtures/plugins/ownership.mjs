@@ -0,0 +1,18 @@
+// Factory-style plugin returning plain tool objects
+export function createTools(data) {
+  return [
+    {
+      name: 'lookup-owner',
+      description: 'Looks up the team that owns a resource type',
+      inputSchema: {},
+      async execute(args) {
+        return {
+          success: true,
+          data: { resourceType: args.resourceType, owner: 'platform-team' },
+        };
+      },
+    },
+  ];
+}
+
+export const OWNER_LABEL = 'example.com/owner';
@@ -265,7 +265,15 @@ describe('End-to-End User Scenarios', () => {
 
       // Step 4: Get instructions
       expect(detailsResult.data.instructions).toHaveLength(1);
-      expect(detailsResult.data.instructions[0].content).toContain('PostgreSQL');
+      const [section] = detailsResult.data.instructions[0].sections;
+      expect(section.anchor).toBeDefined();
+      expect(section.breadcrumbs).toBeDefined();
+      expect(section.content.length).toBeGreaterThan(0);
+      expect(
+        detailsResult.data.instructions[0].sections
+          .map((s: any) => s.content)
+          .join('\n')
+      ).toContain('PostgreSQL');
 
       // Step 5: Verify suggestions for next steps
       expect(detailsResult.suggestions).toBeDefined();
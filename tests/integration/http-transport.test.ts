@@ -0,0 +1,212 @@
+import { describe, expect, it, beforeAll, afterAll, jest } from '@jest/globals';
+import { request } from 'http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { createTestData } from '../tools/test-data-helper.js';
+import { ToolRegistry } from '../../src/tools/index.js';
+import {
+  McpServerFactory,
+  startHttpTransport,
+  type HttpTransportHandle,
+} from '../../src/server/index.js';
+import { MAX_BODY_BYTES } from '../../src/server/http-transport.js';
+import { createLogger } from '../../src/utils/logger.js';
+
+describe('Streamable HTTP transport', () => {
+  let handle: HttpTransportHandle;
+  let factory: McpServerFactory;
+  let baseUrl: string;
+  const logger = createLogger(false);
+
+  const initializeRequest = {
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: {
+      protocolVersion: '2025-06-18',
+      capabilities: {},
+      clientInfo: { name: 'test-client', version: '1.0.0' },
+    },
+  };
+
+  // fetch does not let a caller set Host, so these go through http.request
+  function postInitialize(headers: Record<string, string>): Promise<number> {
+    return new Promise((resolveStatus, rejectStatus) => {
+      const req = request(
+        `${baseUrl}/mcp`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json, text/event-stream',
+            ...headers,
+          },
+        },
+        (res) => {
+          res.resume();
+          resolveStatus(res.statusCode!);
+        }
+      );
+      req.on('error', rejectStatus);
+      req.end(JSON.stringify(initializeRequest));
+    });
+  }
+
+  beforeAll(async () => {
+    jest.spyOn(logger, 'error').mockImplementation(() => {});
+    jest.spyOn(logger, 'timing').mockImplementation(() => {});
+
+    const data = createTestData();
+    factory = new McpServerFactory(
+      { dataDir: '/test', verbose: false, transport: 'http' },
+      data,
+      new ToolRegistry(data),
+      logger
+    );
+
+    // Port 0 lets the OS pick a free port
+    handle = await startHttpTransport(factory, 0, logger);
+    baseUrl = `http://127.0.0.1:${handle.port}`;
+  });
+
+  afterAll(async () => {
+    await handle.close();
+  });
+
+  async function connectClient(url = baseUrl): Promise<Client> {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(
+      new StreamableHTTPClientTransport(new URL(`${url}/mcp`))
+    );
+    return client;
+  }
+
+  it('should report health', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.status).toBe('ok');
+    expect(body.crdsLoaded).toBe(2);
+  });
+
+  it('should serve several concurrent sessions from the same data', async () => {
+    const [first, second] = await Promise.all([
+      connectClient(),
+      connectClient(),
+    ]);
+
+    try {
+      const tools = await first.listTools();
+      expect(tools.tools.map((t) => t.name)).toContain(
+        'list-available-resources'
+      );
+
+      const [firstResult, secondResult] = await Promise.all([
+        first.callTool({ name: 'list-available-resources', arguments: {} }),
+        second.callTool({
+          name: 'get-resource-details',
+          arguments: { resourceType: 'TestResource' },
+        }),
+      ]);
+
+      const listed = JSON.parse((firstResult.content as any)[0].text);
+      expect(listed.totalCount).toBe(2);
+
+      const details = JSON.parse((secondResult.content as any)[0].text);
+      expect(details.metadata.kind).toBe('TestResource');
+
+      const health = await (await fetch(`${baseUrl}/health`)).json();
+      expect(health.sessions).toBe(2);
+    } finally {
+      await first.close();
+      await second.close();
+    }
+  });
+
+  it('should reject requests without a session', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should release the server when the initialize request is rejected', async () => {
+    const release = jest.spyOn(factory, 'releaseServer');
+
+    // Without text/event-stream in Accept the transport refuses the request
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+      },
+      body: JSON.stringify(initializeRequest),
+    });
+
+    expect(response.status).toBe(406);
+    expect(release).toHaveBeenCalled();
+    release.mockRestore();
+  });
+
+  it('should reject bodies larger than 4 MB', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ padding: 'x'.repeat(MAX_BODY_BYTES) }),
+    });
+
+    expect(response.status).toBe(413);
+    expect((await response.json()).error.message).toContain(
+      'Request body exceeds'
+    );
+  });
+
+  it('should only listen on the loopback interface by default', () => {
+    expect((handle.server.address() as any).address).toBe('127.0.0.1');
+  });
+
+  it('should reject requests for other hosts or from other origins', async () => {
+    const port = handle.port;
+
+    expect(await postInitialize({ Host: `localhost:${port}` })).toBe(200);
+    expect(await postInitialize({ Host: `attacker.example:${port}` })).toBe(
+      403
+    );
+    expect(await postInitialize({ Origin: 'http://attacker.example' })).toBe(
+      403
+    );
+    expect(await postInitialize({ Origin: `http://localhost:${port}` })).toBe(
+      200
+    );
+  });
+
+  it('should close sessions that stay idle longer than the TTL', async () => {
+    const shortLived = await startHttpTransport(factory, 0, logger, {
+      sessionTtlMs: 100,
+    });
+    const url = `http://127.0.0.1:${shortLived.port}`;
+
+    try {
+      const client = await connectClient(url);
+      await new Promise((resolveWait) => setTimeout(resolveWait, 400));
+
+      const health = await (await fetch(`${url}/health`)).json();
+      expect(health.sessions).toBe(0);
+      await client.close();
+    } finally {
+      await shortLived.close();
+    }
+  });
+
+  it('should return 404 for unknown paths', async () => {
+    const response = await fetch(`${baseUrl}/unknown`);
+    expect(response.status).toBe(404);
+  });
+});
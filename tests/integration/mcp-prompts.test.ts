@@ -0,0 +1,242 @@
+import { describe, expect, it, beforeAll, afterAll, jest } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createTestData } from '../tools/test-data-helper.js';
+import { ToolRegistry } from '../../src/tools/index.js';
+import { McpServerFactory } from '../../src/server/index.js';
+import { createLogger } from '../../src/utils/logger.js';
+
+describe('MCP workflow prompts', () => {
+  let client: Client;
+
+  beforeAll(async () => {
+    const logger = createLogger(false);
+    jest.spyOn(logger, 'error').mockImplementation(() => {});
+
+    const data = createTestData();
+    // Long enough to be returned as sections and an outline
+    const filler = 'Plan capacity before scaling the cluster. '.repeat(60);
+    data.instructions.push({
+      title: 'PostgreSQL Operations',
+      content: `# PostgreSQL Operations
+
+## Backups
+
+Schedule nightly backups for every PostgreSQLCluster.
+
+## Scaling
+
+${filler}
+
+## Upgrades
+
+${filler}
+`,
+      filePath: '/test/db-operations.md',
+      frontmatter: { applicableCRDs: ['PostgreSQLCluster'] },
+      detectedCRDs: ['postgresqlcluster'],
+      tags: [],
+    });
+    const factory = new McpServerFactory(
+      { dataDir: '/test', verbose: false },
+      data,
+      new ToolRegistry(data),
+      logger
+    );
+
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await factory.createServer().connect(serverTransport);
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterAll(async () => {
+    await client.close();
+  });
+
+  const promptText = (result: any): string => result.messages[0].content.text;
+
+  it('should list the workflow prompts with their arguments', async () => {
+    const { prompts } = await client.listPrompts();
+    const create = prompts.find((p) => p.name === 'create-resource');
+    const review = prompts.find((p) => p.name === 'review-manifest');
+
+    expect(create?.arguments).toContainEqual(
+      expect.objectContaining({ name: 'resourceType', required: true })
+    );
+    expect(create?.arguments).toContainEqual(
+      expect.objectContaining({ name: 'requirements', required: false })
+    );
+    expect(review?.arguments).toContainEqual(
+      expect.objectContaining({ name: 'manifest', required: true })
+    );
+  });
+
+  describe('create-resource', () => {
+    it('should assemble details, guidance and samples', async () => {
+      const result = await client.getPrompt({
+        name: 'create-resource',
+        arguments: { resourceType: 'TestResource', requirements: 'two replicas' },
+      });
+      const text = promptText(result);
+
+      expect(result.messages[0].role).toBe('user');
+      expect(text).toContain('Requirements: two replicas');
+      expect(text).toContain('## Resource details');
+      expect(text).toContain('- enabled (boolean, required)');
+      expect(text).toContain('### Test Resource Guide');
+      expect(text).toContain('Always enable the resource in production');
+      expect(text).toContain('## Samples');
+      expect(text).toContain('name: test-sample');
+      expect(text).toContain('replicas: 3 # one per zone');
+      expect(text).toContain('validate-manifest');
+    });
+
+    it('should resolve short names', async () => {
+      const result = await client.getPrompt({
+        name: 'create-resource',
+        arguments: { resourceType: 'pg' },
+      });
+
+      expect(promptText(result)).toContain('PostgreSQLCluster');
+    });
+
+    it('should render long guides as sections and an outline', async () => {
+      const result = await client.getPrompt({
+        name: 'create-resource',
+        arguments: { resourceType: 'PostgreSQLCluster', requirements: 'backups' },
+      });
+      const text = promptText(result);
+
+      expect(text).toContain('### PostgreSQL Operations');
+      expect(text).toContain('#### Backups\n\nSchedule nightly backups');
+      expect(text).toContain('filePath "/test/db-operations.md"');
+      expect(text).toContain('- Upgrades (upgrades)');
+    });
+
+    it('should reject unknown resource types', async () => {
+      await expect(
+        client.getPrompt({
+          name: 'create-resource',
+          arguments: { resourceType: 'NoSuchThing' },
+        })
+      ).rejects.toThrow('not found');
+    });
+
+    it('should complete resource types', async () => {
+      const result = await client.complete({
+        ref: { type: 'ref/prompt', name: 'create-resource' },
+        argument: { name: 'resourceType', value: 'Test' },
+      });
+
+      expect(result.completion.values).toEqual(['TestResource']);
+    });
+  });
+
+  describe('review-manifest', () => {
+    it('should include validation errors and guidance', async () => {
+      const result = await client.getPrompt({
+        name: 'review-manifest',
+        arguments: {
+          manifest: `apiVersion: example.com/v1
+kind: TestResource
+metadata:
+  name: my-test
+spec:
+  replicas: 3
+`,
+        },
+      });
+      const text = promptText(result);
+
+      expect(text).toContain('```yaml\napiVersion: example.com/v1');
+      expect(text).toContain('## Validation results');
+      expect(text).toContain('- TestResource my-test:');
+      expect(text).toContain('/spec/enabled');
+      expect(text).toContain('## Guidance for TestResource');
+    });
+
+    it('should include long guides', async () => {
+      const result = await client.getPrompt({
+        name: 'review-manifest',
+        arguments: {
+          manifest: `apiVersion: databases.example.com/v1
+kind: PostgreSQLCluster
+metadata:
+  name: db
+`,
+        },
+      });
+
+      expect(promptText(result)).toContain('### PostgreSQL Operations');
+    });
+
+    it('should reject unparseable manifests', async () => {
+      await expect(
+        client.getPrompt({
+          name: 'review-manifest',
+          arguments: { manifest: 'kind: [unclosed' },
+        })
+      ).rejects.toThrow('Failed to parse YAML');
+    });
+  });
+
+  describe('with the underlying tools disabled', () => {
+    let limitedClient: Client;
+
+    beforeAll(async () => {
+      const data = createTestData();
+      data.catalog = { tools: { enabled: ['search'] } };
+      const factory = new McpServerFactory(
+        { dataDir: '/test', verbose: false },
+        data,
+        new ToolRegistry(data),
+        createLogger(false)
+      );
+
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await factory.createServer().connect(serverTransport);
+
+      limitedClient = new Client({ name: 'test-client', version: '1.0.0' });
+      await limitedClient.connect(clientTransport);
+    });
+
+    afterAll(async () => {
+      await limitedClient.close();
+    });
+
+    it('should still assemble create-resource', async () => {
+      const { tools } = await limitedClient.listTools();
+      expect(tools.map((tool) => tool.name)).toEqual(['search']);
+
+      const text = promptText(
+        await limitedClient.getPrompt({
+          name: 'create-resource',
+          arguments: { resourceType: 'TestResource' },
+        })
+      );
+
+      expect(text).toContain('## Resource details');
+      expect(text).toContain('### Test Resource Guide');
+      expect(text).toContain('name: test-sample');
+    });
+
+    it('should still validate in review-manifest', async () => {
+      const text = promptText(
+        await limitedClient.getPrompt({
+          name: 'review-manifest',
+          arguments: {
+            manifest:
+              'apiVersion: example.com/v1\nkind: TestResource\nmetadata:\n  name: my-test\nspec:\n  replicas: 3\n',
+          },
+        })
+      );
+
+      expect(text).toContain('/spec/enabled');
+      expect(text).toContain('## Guidance for TestResource');
+    });
+  });
+});
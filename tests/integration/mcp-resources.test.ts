@@ -0,0 +1,155 @@
+import { describe, expect, it, beforeAll, afterAll } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import * as yaml from 'js-yaml';
+import { createTestData } from '../tools/test-data-helper.js';
+import { ToolRegistry } from '../../src/tools/index.js';
+import { McpServerFactory } from '../../src/server/index.js';
+import { createLogger } from '../../src/utils/logger.js';
+
+describe('MCP data resources', () => {
+  let client: Client;
+  let factory: McpServerFactory;
+
+  beforeAll(async () => {
+    const data = createTestData();
+    // Same kind and name as the simple sample, in another file
+    const samples = data.samples.get('example.com/TestResource')!;
+    samples.push({
+      ...samples[0],
+      content: { ...samples[0].content, spec: { replicas: 5 } },
+      source: undefined,
+      filePath: '/test/advanced/sample.yaml',
+    });
+
+    factory = new McpServerFactory(
+      { dataDir: '/test', verbose: false },
+      data,
+      new ToolRegistry(data),
+      createLogger(false)
+    );
+
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await factory.createServer().connect(serverTransport);
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterAll(async () => {
+    await client.close();
+  });
+
+  it('should advertise resource templates', async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+    const templates = resourceTemplates.map((t) => t.uriTemplate);
+
+    expect(templates).toContain('crd://{group}/{kind}');
+    expect(templates).toContain('crd://{group}/{kind}/schema/{version}');
+    expect(templates).toContain('sample://{group}/{kind}/{name}/{+path}');
+    expect(templates).toContain('instruction://{+path}');
+  });
+
+  it('should list CRDs, schemas, samples and instructions', async () => {
+    const { resources } = await client.listResources();
+    const uris = resources.map((r) => r.uri);
+
+    expect(uris).toContain('crd://example.com/TestResource');
+    expect(uris).toContain('crd://example.com/TestResource/schema/v1');
+    expect(uris).toContain(
+      'sample://example.com/TestResource/test-sample/sample.yaml'
+    );
+    expect(uris).toContain('instruction://test-guide.md');
+
+    const guide = resources.find((r) => r.uri === 'instruction://test-guide.md');
+    expect(guide?.mimeType).toBe('text/markdown');
+  });
+
+  it('should read a CRD summary as YAML', async () => {
+    const result = await client.readResource({
+      uri: 'crd://example.com/TestResource',
+    });
+    const content = result.contents[0] as any;
+
+    expect(content.mimeType).toBe('application/yaml');
+    const summary = yaml.load(content.text) as any;
+    expect(summary.kind).toBe('TestResource');
+    expect(summary.schemas).toEqual([
+      'crd://example.com/TestResource/schema/v1',
+    ]);
+  });
+
+  it('should read a version schema', async () => {
+    const result = await client.readResource({
+      uri: 'crd://example.com/TestResource/schema/v1',
+    });
+    const schema = yaml.load((result.contents[0] as any).text) as any;
+
+    expect(schema.properties.spec.required).toContain('enabled');
+  });
+
+  it('should read a sample manifest', async () => {
+    const result = await client.readResource({
+      uri: 'sample://example.com/TestResource/test-sample/sample.yaml',
+    });
+    const manifest = yaml.load((result.contents[0] as any).text) as any;
+
+    expect(manifest.kind).toBe('TestResource');
+    expect(manifest.metadata.name).toBe('test-sample');
+  });
+
+  it('should give samples with the same kind and name their own URIs', async () => {
+    const { resources } = await client.listResources();
+    const uris = resources
+      .map((r) => r.uri)
+      .filter((uri) => uri.startsWith('sample://example.com/TestResource/'));
+
+    expect(uris).toEqual([
+      'sample://example.com/TestResource/test-sample/sample.yaml',
+      'sample://example.com/TestResource/test-sample/advanced/sample.yaml',
+    ]);
+
+    const result = await client.readResource({ uri: uris[1] });
+    const manifest = yaml.load((result.contents[0] as any).text) as any;
+    expect(manifest.spec.replicas).toBe(5);
+  });
+
+  it('should read an instruction document as markdown', async () => {
+    const result = await client.readResource({
+      uri: 'instruction://test-guide.md',
+    });
+    const content = result.contents[0] as any;
+
+    expect(content.mimeType).toBe('text/markdown');
+    expect(content.text).toContain('Test Resource');
+  });
+
+  it('should reject unknown resources', async () => {
+    await expect(
+      client.readResource({ uri: 'crd://example.com/Missing' })
+    ).rejects.toThrow('not found');
+  });
+
+  it('should serve reloaded data without reconnecting', async () => {
+    const updated = createTestData();
+    updated.crds.get('example.com/TestResource')!.description =
+      'Updated description';
+    factory.updateData(updated);
+
+    const { resources } = await client.listResources();
+    const crd = resources.find(
+      (r) => r.uri === 'crd://example.com/TestResource'
+    );
+    expect(crd?.description).toBe('Updated description');
+  });
+
+  it('should complete group and kind variables', async () => {
+    const result = await client.complete({
+      ref: { type: 'ref/resource', uri: 'crd://{group}/{kind}' },
+      argument: { name: 'kind', value: 'Post' },
+    });
+
+    expect(result.completion.values).toEqual(['PostgreSQLCluster']);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, expect, it, beforeAll, afterAll, jest } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { load } from 'js-yaml';
+import { z } from 'zod';
+import { createTestData } from '../tools/test-data-helper.js';
+import { ToolRegistry } from '../../src/tools/index.js';
+import { McpServerFactory } from '../../src/server/index.js';
+import { createLogger } from '../../src/utils/logger.js';
+
+describe('MCP tool results', () => {
+  let client: Client;
+
+  beforeAll(async () => {
+    const logger = createLogger(false);
+    jest.spyOn(logger, 'error').mockImplementation(() => {});
+    jest.spyOn(logger, 'timing').mockImplementation(() => {});
+
+    const data = createTestData();
+    const factory = new McpServerFactory(
+      { dataDir: '/test', verbose: false },
+      data,
+      new ToolRegistry(data),
+      logger
+    );
+
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await factory.createServer().connect(serverTransport);
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+    // Lets the client validate structured content against output schemas
+    await client.listTools();
+  });
+
+  afterAll(async () => {
+    await client.close();
+  });
+
+  const text = (result: any, index = 0): string => result.content[index].text;
+
+  it('should declare an output schema and output format for every tool', async () => {
+    const { tools } = await client.listTools();
+
+    for (const tool of tools) {
+      expect(tool.outputSchema?.type).toBe('object');
+      expect(tool.inputSchema.properties!.outputFormat).toMatchObject({
+        enum: ['json', 'yaml', 'markdown'],
+      });
+    }
+  });
+
+  it.each([
+    ['list-available-resources', {}],
+    ['get-resource-details', { resourceType: 'TestResource' }],
+    ['find-samples', { kind: 'TestResource' }],
+    ['get-resource-guidance', { resourceType: 'PostgreSQLCluster' }],
+    ['generate-manifest', { resourceType: 'TestResource', requirements: '' }],
+    [
+      'validate-manifest',
+      { manifest: 'apiVersion: example.com/v1\nkind: TestResource' },
+    ],
+    ['get-access-patterns', { resourceType: 'PostgreSQLCluster' }],
+    ['search', { query: 'postgresql' }],
+    ['get-instruction-section', { filePath: 'db-guide.md' }],
+  ])('should return structured content from %s', async (name, args) => {
+    const result = await client.callTool({ name, arguments: args });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toEqual(JSON.parse(text(result)));
+  });
+
+  it('should render YAML with the comments of sample manifests', async () => {
+    const result = await client.callTool({
+      name: 'find-samples',
+      arguments: { kind: 'TestResource', outputFormat: 'yaml' },
+    });
+
+    const parsed = load(text(result)) as any;
+    expect(parsed.samples[0].metadata.name).toBe('test-sample');
+    expect(parsed.samples[0].yaml).toContain('replicas: 3 # one per zone');
+    expect(result.structuredContent).toMatchObject({ kind: 'TestResource' });
+  });
+
+  it('should render markdown with manifests as YAML code blocks', async () => {
+    const result = await client.callTool({
+      name: 'generate-manifest',
+      arguments: {
+        resourceType: 'TestResource',
+        requirements: 'simple',
+        outputFormat: 'markdown',
+      },
+    });
+
+    const markdown = text(result);
+    expect(markdown).toMatch(/^# generate-manifest\n/);
+    expect(markdown).toContain('- **resourceType**: example.com/TestResource');
+    expect(markdown).toContain(
+      '```yaml\n# Simple test resource example\napiVersion: example.com/v1'
+    );
+    expect(markdown).not.toContain('## manifest');
+  });
+
+  it('should tell the client about the next page', async () => {
+    const result = await client.callTool({
+      name: 'list-available-resources',
+      arguments: { limit: 1 },
+    });
+
+    expect(text(result, 1)).toMatch(
+      /^More results available \(1-1 of 2\): call again with cursor "/
+    );
+  });
+
+  it('should flag errors', async () => {
+    const result = await client.callTool({
+      name: 'find-samples',
+      arguments: { kind: 'Unknown' },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+    expect(text(result)).toContain('Error: No samples found');
+  });
+});
+
+describe('MCP tool definitions after a reload', () => {
+  it('should publish a changed output schema', async () => {
+    const logger = createLogger(false);
+    const data = createTestData();
+    const registry = new ToolRegistry(data);
+    const factory = new McpServerFactory(
+      { dataDir: '/test', verbose: false },
+      data,
+      registry,
+      logger
+    );
+
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await factory.createServer().connect(serverTransport);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+
+    const definitions = registry.getToolDefinitions();
+    jest
+      .spyOn(registry, 'getToolDefinitions')
+      .mockReturnValue(
+        definitions.map((toolDef) =>
+          toolDef.name === 'search'
+            ? { ...toolDef, outputSchema: { reloaded: z.boolean() } }
+            : toolDef
+        )
+      );
+    factory.updateData(createTestData());
+
+    const { tools } = await client.listTools();
+    const search = tools.find((tool) => tool.name === 'search');
+    expect(Object.keys(search!.outputSchema!.properties!)).toEqual([
+      'reloaded',
+    ]);
+    expect(tools.map((tool) => tool.name).sort()).toEqual(
+      definitions.map((toolDef) => toolDef.name).sort()
+    );
+
+    await client.close();
+  });
+});
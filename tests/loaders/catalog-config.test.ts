@@ -0,0 +1,213 @@
+import {
+  describe,
+  expect,
+  it,
+  beforeEach,
+  afterEach,
+  jest,
+} from '@jest/globals';
+import fs from 'fs-extra';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { resolve, join } from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { DataLoader } from '../../src/loaders/index.js';
+import {
+  CATALOG_FILE,
+  mergeCatalogConfigs,
+  validateDataDirectory,
+} from '../../src/config/index.js';
+import { GenerateManifestTool, ToolRegistry } from '../../src/tools/index.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const fixturesDir = resolve(__dirname, '../fixtures');
+
+const CATALOG = `name: acme-platform
+version: 1.2
+paths:
+  crds: definitions
+  samples: examples/manifests
+  instructions: docs
+categories:
+  - name: testing
+    description: Resources used by the test suite
+    groups: ['example.com']
+    kinds: ['Test*']
+defaultNamespace: platform
+tools:
+  disabled: [access-patterns]
+`;
+
+describe('crdmcp.config.yaml', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'crdmcp-catalog-'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.removeSync(dataDir);
+    jest.restoreAllMocks();
+  });
+
+  const writeCatalog = (content: string) =>
+    fs.outputFileSync(join(dataDir, CATALOG_FILE), content);
+
+  describe('with a valid config', () => {
+    beforeEach(() => {
+      writeCatalog(CATALOG);
+      fs.copySync(
+        join(fixturesDir, 'crds/test-crd.yaml'),
+        join(dataDir, 'definitions/test-crd.yaml')
+      );
+      fs.copySync(join(fixturesDir, 'instructions'), join(dataDir, 'docs'));
+      fs.ensureDirSync(join(dataDir, 'examples/manifests'));
+    });
+
+    it('should load data from the configured folders', async () => {
+      const data = await new DataLoader({
+        dataDir,
+        verbose: false,
+      }).loadAllData();
+
+      expect(Array.from(data.crds.keys())).toEqual([
+        'example.com/TestResource',
+      ]);
+      expect(data.instructions).toHaveLength(1);
+      expect(data.catalog).toMatchObject({
+        name: 'acme-platform',
+        version: '1.2',
+      });
+      expect(data.catalog!.paths).toBeUndefined();
+      expect(validateDataDirectory(dataDir).warnings).toEqual([]);
+    });
+
+    it('should assign declared categories over inferred ones', async () => {
+      const data = await new DataLoader({
+        dataDir,
+        verbose: false,
+      }).loadAllData();
+
+      expect(data.crds.get('example.com/TestResource')!.category).toBe(
+        'testing'
+      );
+    });
+
+    it('should use the default namespace in generated manifests', async () => {
+      const data = await new DataLoader({
+        dataDir,
+        verbose: false,
+      }).loadAllData();
+
+      const result = await new GenerateManifestTool(data).execute({
+        resourceType: 'example.com/TestResource',
+        requirements: 'a basic test resource',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.manifest.metadata.namespace).toBe('platform');
+    });
+
+    it('should only register enabled tools', async () => {
+      const data = await new DataLoader({
+        dataDir,
+        verbose: false,
+      }).loadAllData();
+
+      expect(new ToolRegistry(data).getToolNames()).not.toContain(
+        'access-patterns'
+      );
+
+      data.catalog!.tools = { enabled: ['list-available-resources'] };
+      expect(new ToolRegistry(data).getToolNames()).toEqual([
+        'list-available-resources',
+      ]);
+    });
+  });
+
+  describe('validation', () => {
+    it('should report schema violations as validation errors', () => {
+      writeCatalog(
+        [
+          'paths:',
+          '  crds: /etc/crds',
+          'categories:',
+          '  - kinds: [Order]',
+          'defaultNamespace: Not_A_Namespace',
+          'owner: platform-team',
+        ].join('\n')
+      );
+
+      const validation = validateDataDirectory(dataDir);
+
+      expect(validation.valid).toBe(false);
+      expect(validation.errors).toEqual(
+        expect.arrayContaining([
+          expect.stringContaining('paths.crds: Must be relative'),
+          expect.stringContaining('categories.0.name: Required'),
+          expect.stringContaining('defaultNamespace'),
+          expect.stringContaining("Unrecognized key(s) in object: 'owner'"),
+        ])
+      );
+      expect(validation.errors[0]).toMatch(/^Invalid crdmcp\.config\.yaml: /);
+    });
+
+    it('should report YAML syntax errors', () => {
+      writeCatalog('name: [unterminated\n');
+
+      const validation = validateDataDirectory(dataDir);
+
+      expect(validation.valid).toBe(false);
+      expect(validation.errors[0]).toContain(`Failed to parse ${CATALOG_FILE}`);
+    });
+
+    it('should fail loading when the config is invalid', async () => {
+      writeCatalog('tools: everything\n');
+
+      await expect(
+        new DataLoader({ dataDir, verbose: false }).loadAllData()
+      ).rejects.toThrow('Data directory validation failed');
+    });
+
+    it('should accept a data directory without a config', () => {
+      const validation = validateDataDirectory(dataDir);
+
+      expect(validation.valid).toBe(true);
+      expect(validation.config).toBeUndefined();
+    });
+  });
+
+  describe('mergeCatalogConfigs', () => {
+    it('should let later layers override settings and categories', () => {
+      const merged = mergeCatalogConfigs([
+        {
+          name: 'platform',
+          defaultNamespace: 'platform',
+          categories: [
+            { name: 'database', kinds: ['*DB'] },
+            { name: 'trading', groups: ['*.trading.io'] },
+          ],
+        },
+        undefined,
+        {
+          name: 'team',
+          paths: { crds: 'definitions' },
+          categories: [{ name: 'trading', kinds: ['Order'] }],
+        },
+      ]);
+
+      expect(merged).toEqual({
+        name: 'team',
+        defaultNamespace: 'platform',
+        categories: [
+          { name: 'database', kinds: ['*DB'] },
+          { name: 'trading', kinds: ['Order'] },
+        ],
+      });
+    });
+  });
+});
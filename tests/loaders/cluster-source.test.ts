@@ -0,0 +1,286 @@
+import {
+  describe,
+  expect,
+  it,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  afterEach,
+  jest,
+} from '@jest/globals';
+import fs from 'fs-extra';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { resolve, join } from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { dump } from 'js-yaml';
+import { DataLoader } from '../../src/loaders/index.js';
+import {
+  ClusterCRDSource,
+  readKubeconfig,
+} from '../../src/loaders/cluster-source.js';
+import { createLogger } from '../../src/utils/logger.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const TOKEN = 'test-token';
+
+const crd = (group: string, kind: string, version = 'v1') => ({
+  apiVersion: 'apiextensions.k8s.io/v1',
+  kind: 'CustomResourceDefinition',
+  metadata: { name: `${kind.toLowerCase()}s.${group}` },
+  spec: {
+    group,
+    names: { kind, plural: `${kind.toLowerCase()}s` },
+    scope: 'Namespaced',
+    versions: [
+      {
+        name: version,
+        served: true,
+        storage: true,
+        schema: {
+          openAPIV3Schema: {
+            type: 'object',
+            description: `${kind} installed in the cluster`,
+          },
+        },
+      },
+    ],
+  },
+});
+
+const INSTALLED_CRDS = [
+  crd('example.com', 'TestResource', 'v1beta1'),
+  crd('databases.example.com', 'PostgreSQLCluster'),
+  crd('monitoring.coreos.com', 'ServiceMonitor'),
+];
+
+describe('Cluster CRD source', () => {
+  let server: Server;
+  let tempDir: string;
+  let kubeconfig: string;
+  let requests: { url: string; authorization?: string }[];
+
+  const logger = createLogger(false);
+
+  beforeAll(async () => {
+    // Fake API server that pages the CRD list two items at a time
+    server = createServer((req, res) => {
+      requests.push({
+        url: req.url!,
+        authorization: req.headers.authorization,
+      });
+
+      if (req.headers.authorization !== `Bearer ${TOKEN}`) {
+        res.writeHead(401, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ kind: 'Status', message: 'Unauthorized' }));
+        return;
+      }
+
+      const url = new URL(req.url!, 'http://localhost');
+      if (
+        url.pathname !==
+        '/apis/apiextensions.k8s.io/v1/customresourcedefinitions'
+      ) {
+        res.writeHead(404).end();
+        return;
+      }
+
+      const start = Number(url.searchParams.get('continue') || 0);
+      const end = start + 2;
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify({
+          kind: 'CustomResourceDefinitionList',
+          items: INSTALLED_CRDS.slice(start, end),
+          metadata: {
+            continue: end < INSTALLED_CRDS.length ? String(end) : undefined,
+          },
+        })
+      );
+    });
+    await new Promise<void>((done) => server.listen(0, '127.0.0.1', done));
+
+    const { port } = server.address() as AddressInfo;
+    tempDir = mkdtempSync(join(tmpdir(), 'crdmcp-cluster-'));
+    kubeconfig = join(tempDir, 'kubeconfig');
+    fs.outputFileSync(join(tempDir, 'token'), `${TOKEN}\n`);
+    fs.outputFileSync(
+      kubeconfig,
+      dump({
+        apiVersion: 'v1',
+        kind: 'Config',
+        'current-context': 'dev',
+        clusters: [
+          { name: 'fake', cluster: { server: `http://127.0.0.1:${port}/` } },
+        ],
+        users: [
+          { name: 'dev-user', user: { token: TOKEN } },
+          { name: 'file-user', user: { tokenFile: 'token' } },
+          { name: 'bad-user', user: { token: 'wrong' } },
+          {
+            // A credential plugin stuck waiting for an interactive login
+            name: 'sso-user',
+            user: {
+              exec: {
+                apiVersion: 'client.authentication.k8s.io/v1',
+                command: process.execPath,
+                args: ['-e', 'setTimeout(() => {}, 10000)'],
+              },
+            },
+          },
+        ],
+        contexts: [
+          { name: 'dev', context: { cluster: 'fake', user: 'dev-user' } },
+          { name: 'ci', context: { cluster: 'fake', user: 'file-user' } },
+          { name: 'broken', context: { cluster: 'fake', user: 'bad-user' } },
+          { name: 'sso', context: { cluster: 'fake', user: 'sso-user' } },
+        ],
+      })
+    );
+  });
+
+  afterAll(async () => {
+    await new Promise((done) => server.close(done));
+    fs.removeSync(tempDir);
+  });
+
+  beforeEach(() => {
+    requests = [];
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('readKubeconfig', () => {
+    it('should use the current context by default', async () => {
+      const connection = await readKubeconfig(kubeconfig);
+
+      expect(connection.context).toBe('dev');
+      expect(connection.server).toMatch(/^http:\/\/127\.0\.0\.1:\d+$/);
+      expect(connection.headers.Authorization).toBe(`Bearer ${TOKEN}`);
+    });
+
+    it('should read token files relative to the kubeconfig', async () => {
+      const connection = await readKubeconfig(kubeconfig, 'ci');
+
+      expect(connection.headers.Authorization).toBe(`Bearer ${TOKEN}`);
+    });
+
+    it('should reject unknown contexts', async () => {
+      await expect(readKubeconfig(kubeconfig, 'prod')).rejects.toThrow(
+        'Context "prod" not found'
+      );
+    });
+  });
+
+  describe('loadCRDs', () => {
+    it('should import every page of installed CRDs', async () => {
+      const { files, info } = await new ClusterCRDSource(
+        { kubeconfig },
+        logger
+      ).loadCRDs();
+
+      expect(files.size).toBe(3);
+      expect(info).toMatchObject({ context: 'dev', crdsImported: 3 });
+      expect(requests).toHaveLength(2);
+      expect(requests[1].url).toContain('continue=2');
+
+      const [first] = files.get(
+        'cluster://dev/testresources.example.com'
+      )!.items;
+      expect(first.versions).toEqual(['v1beta1']);
+      expect(first.layer).toBe('cluster://dev');
+      expect(first.description).toBe('TestResource installed in the cluster');
+    });
+
+    it('should filter by group allow and deny patterns', async () => {
+      const { files } = await new ClusterCRDSource(
+        {
+          kubeconfig,
+          includeGroups: ['*.example.com', 'example.com'],
+          excludeGroups: ['databases.*'],
+        },
+        logger
+      ).loadCRDs();
+
+      expect(Array.from(files.keys())).toEqual([
+        'cluster://dev/testresources.example.com',
+      ]);
+    });
+
+    it('should surface API server errors', async () => {
+      await expect(
+        new ClusterCRDSource(
+          { kubeconfig, context: 'broken' },
+          logger
+        ).loadCRDs()
+      ).rejects.toThrow('API server returned 401');
+    });
+  });
+
+  describe('DataLoader integration', () => {
+    const dataDir = resolve(__dirname, '../fixtures');
+
+    it('should let installed CRDs replace the ones in data directories', async () => {
+      const data = await new DataLoader({
+        dataDir,
+        verbose: false,
+        cluster: { kubeconfig, excludeGroups: ['monitoring.coreos.com'] },
+      }).loadAllData();
+
+      expect(data.crds.size).toBe(2);
+      expect(data.crds.get('example.com/TestResource')!.versions).toEqual([
+        'v1beta1',
+      ]);
+      expect(data.crds.has('databases.example.com/PostgreSQLCluster')).toBe(
+        true
+      );
+      expect(data.statistics.cluster).toMatchObject({
+        context: 'dev',
+        crdsImported: 2,
+      });
+      expect(data.statistics.warnings.join('\n')).not.toContain(
+        'Duplicate CRD'
+      );
+      // Samples and instructions still come from the data directory
+      expect(data.samples.get('example.com/TestResource')).toHaveLength(1);
+    });
+
+    it('should keep file CRDs and record an error when the cluster fails', async () => {
+      const data = await new DataLoader({
+        dataDir,
+        verbose: false,
+        cluster: { kubeconfig, context: 'broken' },
+      }).loadAllData();
+
+      expect(data.crds.has('example.com/TestResource')).toBe(true);
+      expect(data.statistics.cluster).toBeUndefined();
+      expect(data.statistics.errors.join('\n')).toContain(
+        'Failed to import CRDs from cluster'
+      );
+    });
+
+    it('should time out credential plugins that never return', async () => {
+      const data = await new DataLoader({
+        dataDir,
+        verbose: false,
+        cluster: { kubeconfig, context: 'sso', timeoutMs: 200 },
+      }).loadAllData();
+
+      expect(data.crds.has('example.com/TestResource')).toBe(true);
+      expect(data.statistics.errors.join('\n')).toContain(
+        'Failed to import CRDs from cluster: Credential plugin'
+      );
+      expect(data.statistics.errors.join('\n')).toContain(
+        'did not finish within 200ms'
+      );
+    });
+  });
+});
@@ -1,7 +1,13 @@
 import { describe, expect, it, beforeEach, jest } from '@jest/globals';
+import fs from 'fs-extra';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { gzipSync } from 'zlib';
+import { load } from 'js-yaml';
 import { CRDLoader } from '../../src/loaders/crd-loader.js';
 import { createLogger } from '../../src/utils/logger.js';
-import { resolve } from 'path';
+import { join, resolve } from 'path';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
 
@@ -41,7 +47,9 @@ describe('CRDLoader', () => {
       expect(testResource?.shortNames).toContain('tr');
       expect(testResource?.scope).toBe('Namespaced');
       expect(testResource?.versions).toContain('v1');
-      expect(testResource?.description).toBe('A test resource for unit testing');
+      expect(testResource?.description).toBe(
+        'A test resource for unit testing'
+      );
     });
 
     it('should skip non-CRD documents', async () => {
@@ -85,7 +93,7 @@ describe('CRDLoader', () => {
 
       expect(testResource).toBeDefined();
       expect(testResource?.filePath).toContain('test-crd.yaml');
-      expect(testResource?.category).toBeUndefined(); // TestResource doesn't match any category patterns
+      expect(testResource?.category).toBe('other'); // the fixture declares no category
     });
 
     it('should handle YAML parsing errors', async () => {
@@ -112,5 +120,325 @@ describe('CRDLoader', () => {
       expect(testResource?.versions.length).toBeGreaterThan(0);
       expect(testResource?.versions).toContain('v1');
     });
+
+    it('should keep the openAPIV3Schema for each version', async () => {
+      const fixturesDir = resolve(__dirname, '../fixtures');
+      loader = new CRDLoader(fixturesDir, logger);
+
+      const result = await loader.loadCRDs();
+      const testResource = result.crds.get('example.com/TestResource');
+
+      expect(testResource?.storageVersion).toBe('v1');
+      expect(testResource?.schemas?.v1).toBeDefined();
+      expect(testResource?.schemas?.v1.properties.spec.required).toContain(
+        'enabled'
+      );
+    });
+
+    it('should keep served, storage and deprecation flags per version', async () => {
+      const dataDir = mkdtempSync(join(tmpdir(), 'crdmcp-versions-'));
+      fs.outputFileSync(
+        join(dataDir, 'crds', 'widgets.yaml'),
+        `apiVersion: apiextensions.k8s.io/v1
+kind: CustomResourceDefinition
+metadata:
+  name: widgets.example.com
+spec:
+  group: example.com
+  names:
+    kind: Widget
+    plural: widgets
+  scope: Namespaced
+  versions:
+    - name: v1alpha1
+      served: false
+      storage: false
+    - name: v1beta1
+      served: true
+      storage: false
+      deprecated: true
+      deprecationWarning: example.com/v1beta1 Widget is deprecated; use v1
+    - name: v1
+      served: true
+      storage: true
+`
+      );
+
+      try {
+        const { crds } = await new CRDLoader(dataDir, logger).loadCRDs();
+
+        expect(crds.get('example.com/Widget')?.versionDetails).toEqual([
+          { name: 'v1alpha1', served: false, storage: false },
+          {
+            name: 'v1beta1',
+            served: true,
+            storage: false,
+            deprecated: true,
+            deprecationWarning:
+              'example.com/v1beta1 Widget is deprecated; use v1',
+          },
+          { name: 'v1', served: true, storage: true },
+        ]);
+      } finally {
+        fs.removeSync(dataDir);
+      }
+    });
+  });
+
+  describe('JSON, gzip and List input', () => {
+    const fixtureCRD = resolve(__dirname, '../fixtures/crds/test-crd.yaml');
+    const testCRD = load(readFileSync(fixtureCRD, 'utf8')) as Record<
+      string,
+      any
+    >;
+    const otherCRD = {
+      ...testCRD,
+      metadata: { name: 'widgets.example.com' },
+      spec: {
+        ...testCRD.spec,
+        names: { kind: 'Widget', plural: 'widgets' },
+      },
+    };
+
+    const loadFrom = async (files: Record<string, string | Buffer>) => {
+      const dataDir = mkdtempSync(join(tmpdir(), 'crdmcp-crds-'));
+      try {
+        for (const [name, content] of Object.entries(files)) {
+          fs.outputFileSync(join(dataDir, 'crds', name), content);
+        }
+        return await new CRDLoader(dataDir, logger).loadCRDs();
+      } finally {
+        fs.removeSync(dataDir);
+      }
+    };
+
+    it('should load CRDs from JSON files', async () => {
+      const result = await loadFrom({
+        'test-crd.json': JSON.stringify(testCRD),
+      });
+
+      expect(result.errors).toEqual([]);
+      expect(result.crds.get('example.com/TestResource')?.versions).toEqual([
+        'v1',
+      ]);
+    });
+
+    it('should unwrap kubectl List output', async () => {
+      const result = await loadFrom({
+        'installed.json': JSON.stringify({
+          apiVersion: 'v1',
+          kind: 'List',
+          items: [testCRD, otherCRD],
+        }),
+        'list.yaml': `apiVersion: apiextensions.k8s.io/v1
+kind: CustomResourceDefinitionList
+items: []
+`,
+      });
+
+      expect(result.errors).toEqual([]);
+      expect(Array.from(result.crds.keys()).sort()).toEqual([
+        'example.com/TestResource',
+        'example.com/Widget',
+      ]);
+    });
+
+    it('should load gzip-compressed YAML and JSON', async () => {
+      const result = await loadFrom({
+        'test-crd.yaml.gz': gzipSync(readFileSync(fixtureCRD)),
+        'widgets.json.gz': gzipSync(JSON.stringify(otherCRD)),
+      });
+
+      expect(result.errors).toEqual([]);
+      expect(result.crds.size).toBe(2);
+    });
+
+    it('should load manifest files bundled in an archive', async () => {
+      const bundleDir = mkdtempSync(join(tmpdir(), 'crdmcp-bundle-'));
+      fs.copySync(fixtureCRD, join(bundleDir, 'test-crd.yaml'));
+      fs.outputFileSync(
+        join(bundleDir, 'more', 'widgets.json'),
+        JSON.stringify(otherCRD)
+      );
+      const archive = execFileSync('tar', [
+        '-cz',
+        '-C',
+        bundleDir,
+        'test-crd.yaml',
+        'more',
+      ]);
+      fs.removeSync(bundleDir);
+
+      const result = await loadFrom({ 'bundle.tar.gz': archive });
+
+      expect(result.errors).toEqual([]);
+      expect(result.crds.size).toBe(2);
+      expect(result.crds.get('example.com/Widget')?.filePath).toMatch(
+        /bundle\.tar\.gz\/more\/widgets\.json$/
+      );
+    });
+
+    it('should report JSON parse errors per file', async () => {
+      const result = await loadFrom({
+        'broken.json': '{"kind": ',
+        'test-crd.json': JSON.stringify(testCRD),
+      });
+
+      expect(result.crds.size).toBe(1);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]).toContain('Failed to read file');
+      expect(result.errors[0]).toContain('broken.json');
+    });
+  });
+
+  describe('categories', () => {
+    const fixtureCRD = load(
+      readFileSync(resolve(__dirname, '../fixtures/crds/test-crd.yaml'), 'utf8')
+    ) as Record<string, any>;
+
+    const categoryOf = async (
+      metadata: Record<string, unknown>,
+      categories?: string[]
+    ) => {
+      const dataDir = mkdtempSync(join(tmpdir(), 'crdmcp-categories-'));
+      try {
+        const crd = {
+          ...fixtureCRD,
+          metadata: { ...fixtureCRD.metadata, ...metadata },
+          spec: {
+            ...fixtureCRD.spec,
+            names: { ...fixtureCRD.spec.names, categories },
+          },
+        };
+        fs.outputFileSync(
+          join(dataDir, 'crds', 'crd.json'),
+          JSON.stringify(crd)
+        );
+        const { crds } = await new CRDLoader(dataDir, logger).loadCRDs();
+        return crds.get('example.com/TestResource')?.category;
+      } finally {
+        fs.removeSync(dataDir);
+      }
+    };
+
+    it('should prefer the category annotation, then the label', async () => {
+      expect(
+        await categoryOf(
+          {
+            annotations: { 'crdmcp.io/category': 'trading' },
+            labels: { 'crdmcp.io/category': 'ml' },
+          },
+          ['platform']
+        )
+      ).toBe('trading');
+      expect(
+        await categoryOf({ labels: { 'crdmcp.io/category': 'ml' } }, [
+          'platform',
+        ])
+      ).toBe('ml');
+    });
+
+    it('should use spec.names.categories, skipping generic ones', async () => {
+      expect(await categoryOf({}, ['all', 'istio-io'])).toBe('istio-io');
+    });
+
+    it('should put CRDs that declare no category in "other"', async () => {
+      expect(await categoryOf({}, ['all'])).toBe('other');
+      expect(await categoryOf({})).toBe('other');
+    });
+  });
+
+  describe('names.categories and printer columns', () => {
+    const loadCRD = async (content: string) => {
+      const dataDir = mkdtempSync(join(tmpdir(), 'crdmcp-columns-'));
+      try {
+        fs.outputFileSync(join(dataDir, 'crds', 'crd.yaml'), content);
+        const { crds } = await new CRDLoader(dataDir, logger).loadCRDs();
+        return crds.get('example.com/Widget')!;
+      } finally {
+        fs.removeSync(dataDir);
+      }
+    };
+
+    it('should keep spec.names.categories and per-version columns', async () => {
+      const crd = await loadCRD(`apiVersion: apiextensions.k8s.io/v1
+kind: CustomResourceDefinition
+metadata:
+  name: widgets.example.com
+spec:
+  group: example.com
+  names:
+    kind: Widget
+    plural: widgets
+    categories: [all, example]
+  scope: Namespaced
+  versions:
+    - name: v1
+      served: true
+      storage: true
+      additionalPrinterColumns:
+        - name: Ready
+          type: string
+          jsonPath: .status.conditions[?(@.type=="Ready")].status
+        - name: Size
+          type: integer
+          jsonPath: .spec.size
+          description: Number of replicas
+          priority: 1
+    - name: v1beta1
+      served: true
+      storage: false
+`);
+
+      expect(crd.categories).toEqual(['all', 'example']);
+      expect(crd.printerColumns).toEqual({
+        v1: [
+          {
+            name: 'Ready',
+            type: 'string',
+            jsonPath: '.status.conditions[?(@.type=="Ready")].status',
+          },
+          {
+            name: 'Size',
+            type: 'integer',
+            jsonPath: '.spec.size',
+            description: 'Number of replicas',
+            priority: 1,
+          },
+        ],
+      });
+    });
+
+    it('should apply v1beta1 top-level columns to every version', async () => {
+      const crd = await loadCRD(`apiVersion: apiextensions.k8s.io/v1beta1
+kind: CustomResourceDefinition
+metadata:
+  name: widgets.example.com
+spec:
+  group: example.com
+  names:
+    kind: Widget
+    plural: widgets
+  scope: Namespaced
+  additionalPrinterColumns:
+    - name: Age
+      type: date
+      JSONPath: .metadata.creationTimestamp
+  versions:
+    - name: v1alpha1
+      served: true
+      storage: true
+    - name: v1alpha2
+      served: true
+      storage: false
+`);
+
+      const age = {
+        name: 'Age',
+        type: 'date',
+        jsonPath: '.metadata.creationTimestamp',
+      };
+      expect(crd.printerColumns).toEqual({ v1alpha1: [age], v1alpha2: [age] });
+    });
   });
-});
\ No newline at end of file
+});
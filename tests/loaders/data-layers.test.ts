@@ -0,0 +1,151 @@
+import { describe, expect, it, beforeEach, afterEach, jest } from '@jest/globals';
+import fs from 'fs-extra';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { resolve, join } from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { DataLoader } from '../../src/loaders/index.js';
+import { ResourceDetailsTool } from '../../src/tools/resource-details-tool.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const TEAM_GUIDE = `---
+title: Team TestResource Guide
+applicableCRDs: ["TestResource"]
+---
+
+# Team TestResource Guide
+
+Use the team namespace for every TestResource.
+`;
+
+const TEAM_SAMPLE = `apiVersion: example.com/v1
+kind: TestResource
+metadata:
+  name: team-sample
+  namespace: team-a
+spec:
+  enabled: true
+`;
+
+const OVERRIDE_CRD = `apiVersion: apiextensions.k8s.io/v1
+kind: CustomResourceDefinition
+metadata:
+  name: testresources.example.com
+  annotations:
+    description: Team build of TestResource
+spec:
+  group: example.com
+  names:
+    kind: TestResource
+    plural: testresources
+  scope: Namespaced
+  versions:
+    - name: v2
+      served: true
+      storage: true
+`;
+
+describe('Layered data directories', () => {
+  let platformDir: string;
+  let teamDir: string;
+
+  beforeEach(() => {
+    platformDir = mkdtempSync(join(tmpdir(), 'crdmcp-platform-'));
+    teamDir = mkdtempSync(join(tmpdir(), 'crdmcp-team-'));
+    fs.copySync(resolve(__dirname, '../fixtures'), platformDir);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.removeSync(platformDir);
+    fs.removeSync(teamDir);
+    jest.restoreAllMocks();
+  });
+
+  const load = () =>
+    new DataLoader({
+      dataDir: platformDir,
+      dataDirs: [platformDir, teamDir],
+      verbose: false,
+    }).loadAllData();
+
+  it('should merge samples from every layer', async () => {
+    fs.outputFileSync(join(teamDir, 'samples', 'team-sample.yaml'), TEAM_SAMPLE);
+
+    const data = await load();
+    const samples = data.samples.get('example.com/TestResource')!;
+
+    expect(samples.map((s) => s.metadata.name).sort()).toEqual([
+      'sample-test',
+      'team-sample',
+    ]);
+    expect(samples.find((s) => s.metadata.name === 'team-sample')!.layer).toBe(
+      teamDir
+    );
+    expect(data.statistics.layers).toEqual([platformDir, teamDir]);
+  });
+
+  it('should let a higher layer override an instruction with the same path', async () => {
+    fs.outputFileSync(join(teamDir, 'instructions', 'test-guide.md'), TEAM_GUIDE);
+
+    const data = await load();
+
+    expect(data.instructions).toHaveLength(1);
+    expect(data.instructions[0].title).toBe('Team TestResource Guide');
+    expect(data.instructions[0].layer).toBe(teamDir);
+  });
+
+  it('should keep instructions with different paths from both layers', async () => {
+    fs.outputFileSync(join(teamDir, 'instructions', 'team-guide.md'), TEAM_GUIDE);
+
+    const data = await load();
+
+    expect(data.instructions).toHaveLength(2);
+  });
+
+  it('should let a higher layer replace a CRD without a duplicate warning', async () => {
+    fs.outputFileSync(join(teamDir, 'crds', 'override.yaml'), OVERRIDE_CRD);
+
+    const data = await load();
+    const crd = data.crds.get('example.com/TestResource')!;
+
+    expect(crd.versions).toEqual(['v2']);
+    expect(crd.layer).toBe(teamDir);
+    expect(data.statistics.warnings.join('\n')).not.toContain(
+      'Duplicate CRD'
+    );
+  });
+
+  it('should apply overrides when a layer file changes', async () => {
+    const loader = new DataLoader({
+      dataDir: platformDir,
+      dataDirs: [platformDir, teamDir],
+      verbose: false,
+    });
+    await loader.loadAllData();
+
+    const guidePath = join(teamDir, 'instructions', 'test-guide.md');
+    fs.outputFileSync(guidePath, TEAM_GUIDE);
+    const added = await loader.reloadFiles([guidePath]);
+    expect(added.data.instructions[0].title).toBe('Team TestResource Guide');
+
+    fs.removeSync(guidePath);
+    const removed = await loader.reloadFiles([guidePath]);
+    expect(removed.data.instructions[0].title).toBe('Test Resource Usage Guide');
+  });
+
+  it('should show the source layer in resource details', async () => {
+    fs.outputFileSync(join(teamDir, 'samples', 'team-sample.yaml'), TEAM_SAMPLE);
+
+    const tool = new ResourceDetailsTool(await load());
+    const result = await tool.execute({ resourceType: 'TestResource' });
+
+    expect(result.data.metadata.layer).toBe(platformDir);
+    expect(result.data.samples.map((s: any) => s.layer).sort()).toEqual(
+      [platformDir, teamDir].sort()
+    );
+  });
+});
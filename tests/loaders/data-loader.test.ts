@@ -22,7 +22,7 @@ describe('Data Loading Integration', () => {
       // Check samples loaded
       expect(data.samples).toBeDefined();
       expect(data.samples.size).toBeGreaterThan(0);
-      expect(data.samples.has('TestResource')).toBe(true);
+      expect(data.samples.has('example.com/TestResource')).toBe(true);
 
       // Check instructions loaded
       expect(data.instructions).toBeDefined();
@@ -41,7 +41,7 @@ describe('Data Loading Integration', () => {
 
       // Check that samples reference existing CRD kinds
       const testResource = data.crds.get('example.com/TestResource');
-      const testSamples = data.samples.get('TestResource');
+      const testSamples = data.samples.get('example.com/TestResource');
 
       expect(testResource).toBeDefined();
       expect(testSamples).toBeDefined();
@@ -0,0 +1,137 @@
+import { describe, expect, it, beforeEach, afterEach, jest } from '@jest/globals';
+import fs from 'fs-extra';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { resolve, join } from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { DataLoader, DataWatcher } from '../../src/loaders/index.js';
+import type { ReloadResult } from '../../src/loaders/index.js';
+import { createLogger } from '../../src/utils/logger.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const SECOND_CRD = `apiVersion: apiextensions.k8s.io/v1
+kind: CustomResourceDefinition
+metadata:
+  name: widgets.example.com
+spec:
+  group: example.com
+  names:
+    kind: Widget
+    plural: widgets
+  scope: Namespaced
+  versions:
+    - name: v1
+      served: true
+      storage: true
+`;
+
+describe('Data reloading', () => {
+  let dataDir: string;
+  let dataLoader: DataLoader;
+
+  beforeEach(async () => {
+    dataDir = mkdtempSync(join(tmpdir(), 'crdmcp-'));
+    fs.copySync(resolve(__dirname, '../fixtures'), dataDir);
+    dataLoader = new DataLoader({ dataDir, verbose: false });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await dataLoader.loadAllData();
+  });
+
+  afterEach(() => {
+    fs.removeSync(dataDir);
+    jest.restoreAllMocks();
+  });
+
+  describe('DataLoader.reloadFiles', () => {
+    it('should add CRDs from a new file', async () => {
+      const filePath = join(dataDir, 'crds', 'widget.yaml');
+      fs.writeFileSync(filePath, SECOND_CRD);
+
+      const { data, changed } = await dataLoader.reloadFiles([filePath]);
+
+      expect(changed).toEqual({ crds: true, samples: false, instructions: false });
+      expect(data.crds.has('example.com/Widget')).toBe(true);
+      expect(data.crds.has('example.com/TestResource')).toBe(true);
+      expect(data.statistics.crdsLoaded).toBe(2);
+    });
+
+    it('should drop data from a deleted file', async () => {
+      const filePath = join(dataDir, 'samples', 'test-sample.yaml');
+      fs.removeSync(filePath);
+
+      const { data, changed } = await dataLoader.reloadFiles([filePath]);
+
+      expect(changed.samples).toBe(true);
+      expect(data.samples.has('example.com/TestResource')).toBe(false);
+      expect(data.statistics.samplesLoaded).toBe(0);
+    });
+
+    it('should pick up edits to an instruction', async () => {
+      const filePath = join(dataDir, 'instructions', 'test-guide.md');
+      fs.writeFileSync(filePath, '# Rewritten Guide\n\nNew content.\n');
+
+      const { data } = await dataLoader.reloadFiles([filePath]);
+
+      expect(data.instructions).toHaveLength(1);
+      expect(data.instructions[0].title).toBe('Rewritten Guide');
+    });
+
+    it('should reload every file under a changed directory', async () => {
+      const nested = join(dataDir, 'crds', 'extra');
+      fs.ensureDirSync(nested);
+      fs.writeFileSync(join(nested, 'widget.yaml'), SECOND_CRD);
+
+      const { data } = await dataLoader.reloadFiles([nested]);
+      expect(data.crds.has('example.com/Widget')).toBe(true);
+
+      fs.removeSync(nested);
+      const { data: afterRemoval } = await dataLoader.reloadFiles([nested]);
+      expect(afterRemoval.crds.has('example.com/Widget')).toBe(false);
+    });
+
+    it('should report per-file errors and clear them once fixed', async () => {
+      const filePath = join(dataDir, 'crds', 'broken.yaml');
+      fs.writeFileSync(filePath, 'kind: [unclosed');
+
+      const broken = await dataLoader.reloadFiles([filePath]);
+      expect(broken.data.statistics.errors.some((e) => e.includes('broken.yaml'))).toBe(true);
+
+      fs.writeFileSync(filePath, SECOND_CRD);
+      const fixed = await dataLoader.reloadFiles([filePath]);
+      expect(fixed.data.statistics.errors).toEqual([]);
+    });
+
+    it('should ignore paths outside the data folders', async () => {
+      const { changed } = await dataLoader.reloadFiles([join(dataDir, 'README.md')]);
+
+      expect(changed).toEqual({ crds: false, samples: false, instructions: false });
+    });
+  });
+
+  describe('DataWatcher', () => {
+    let watcher: DataWatcher;
+
+    afterEach(async () => {
+      await watcher?.stop();
+    });
+
+    it('should reload and report changed files', async () => {
+      const logger = createLogger(false);
+      jest.spyOn(logger, 'info').mockImplementation(() => {});
+
+      const reloaded = new Promise<ReloadResult>((resolveReload) => {
+        watcher = new DataWatcher([dataDir], dataLoader, logger, resolveReload, 50);
+      });
+      watcher.start();
+
+      fs.writeFileSync(join(dataDir, 'crds', 'widget.yaml'), SECOND_CRD);
+
+      const result = await reloaded;
+      expect(result.changed.crds).toBe(true);
+      expect(result.data.crds.has('example.com/Widget')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  describe,
+  expect,
+  it,
+  beforeEach,
+  afterEach,
+  jest,
+} from '@jest/globals';
+import fs from 'fs-extra';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { resolve, join } from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { DataLoader } from '../../src/loaders/index.js';
+import { FileFilter, IGNORE_FILE } from '../../src/loaders/file-filter.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const fixturesDir = resolve(__dirname, '../fixtures');
+
+describe('FileFilter', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'crdmcp-filter-'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.removeSync(dataDir);
+    jest.restoreAllMocks();
+  });
+
+  const path = (relativePath: string) => join(dataDir, relativePath);
+
+  it('should apply gitignore rules from .crdmcpignore', () => {
+    fs.outputFileSync(
+      join(dataDir, IGNORE_FILE),
+      [
+        '# old API versions',
+        'crds/deprecated/',
+        '*~',
+        '!crds/deprecated/keep.yaml',
+        '/samples/*.json',
+        'instructions/**/draft-*.md',
+      ].join('\n')
+    );
+    const filter = new FileFilter(dataDir);
+
+    expect(filter.accepts(path('crds/widget.yaml'))).toBe(true);
+    expect(filter.accepts(path('crds/deprecated/old.yaml'))).toBe(false);
+    expect(filter.accepts(path('crds/widget.yaml~'))).toBe(false);
+    // A file below an ignored directory cannot be re-included
+    expect(filter.accepts(path('crds/deprecated/keep.yaml'))).toBe(false);
+    expect(filter.accepts(path('samples/widget.json'))).toBe(false);
+    expect(filter.accepts(path('samples/nested/widget.json'))).toBe(true);
+    expect(filter.accepts(path('instructions/a/b/draft-guide.md'))).toBe(false);
+    expect(filter.skippedCount).toBe(5);
+  });
+
+  it('should let a negation re-include a file', () => {
+    fs.outputFileSync(
+      join(dataDir, IGNORE_FILE),
+      'crds/legacy-*.yaml\n!crds/legacy-keep.yaml\n'
+    );
+    const filter = new FileFilter(dataDir);
+
+    expect(filter.accepts(path('crds/legacy-old.yaml'))).toBe(false);
+    expect(filter.accepts(path('crds/legacy-keep.yaml'))).toBe(true);
+  });
+
+  it('should combine include and exclude options with the ignore file', () => {
+    fs.outputFileSync(join(dataDir, IGNORE_FILE), 'crds/b.yaml\n');
+    const filter = new FileFilter(dataDir, {
+      include: ['crds/'],
+      exclude: ['c.yaml'],
+    });
+
+    expect(
+      filter.apply([
+        path('crds/a.yaml'),
+        path('crds/b.yaml'),
+        path('crds/c.yaml'),
+        path('samples/a.yaml'),
+      ])
+    ).toEqual([path('crds/a.yaml')]);
+    expect(filter.skippedCount).toBe(3);
+  });
+
+  it('should reject files outside the data directory', () => {
+    const filter = new FileFilter(dataDir);
+
+    expect(filter.accepts(join(tmpdir(), 'elsewhere.yaml'))).toBe(false);
+    expect(filter.skippedCount).toBe(0);
+  });
+
+  describe('with DataLoader', () => {
+    beforeEach(() => {
+      fs.copySync(fixturesDir, dataDir);
+    });
+
+    it('should skip filtered files across all loaders and count them', async () => {
+      fs.outputFileSync(
+        join(dataDir, IGNORE_FILE),
+        'invalid-crd.yaml\ninstructions/\n'
+      );
+
+      const loader = new DataLoader({
+        dataDir,
+        verbose: false,
+        exclude: ['samples/test-sample.yaml'],
+      });
+      const data = await loader.loadAllData();
+
+      expect(Array.from(data.crds.keys())).toEqual([
+        'example.com/TestResource',
+      ]);
+      expect(data.samples.size).toBe(0);
+      expect(data.instructions).toHaveLength(0);
+      expect(data.statistics.errors).toEqual([]);
+      expect(data.statistics.filesSkipped).toBe(3);
+    });
+
+    it('should rescan the data directory when the ignore file changes', async () => {
+      const ignoreFile = join(dataDir, IGNORE_FILE);
+      fs.outputFileSync(ignoreFile, 'samples/\n');
+
+      const loader = new DataLoader({ dataDir, verbose: false });
+      const initial = await loader.loadAllData();
+      expect(initial.samples.size).toBe(0);
+      expect(initial.statistics.filesSkipped).toBe(1);
+
+      fs.outputFileSync(ignoreFile, 'instructions/\n');
+      const { data, changed } = await loader.reloadFiles([ignoreFile]);
+
+      expect(changed.samples).toBe(true);
+      expect(data.samples.has('example.com/TestResource')).toBe(true);
+      expect(data.instructions).toHaveLength(0);
+      expect(data.statistics.filesSkipped).toBe(1);
+    });
+  });
+});
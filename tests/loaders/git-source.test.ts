@@ -0,0 +1,188 @@
+import {
+  describe,
+  expect,
+  it,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  afterEach,
+  jest,
+} from '@jest/globals';
+import fs from 'fs-extra';
+import { execFileSync } from 'child_process';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { resolve, join } from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { DataLoader } from '../../src/loaders/index.js';
+import {
+  GitSourceResolver,
+  parseGitSource,
+} from '../../src/loaders/git-source.js';
+import { createLogger } from '../../src/utils/logger.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const UPDATED_GUIDE = `---
+title: Updated TestResource Guide
+applicableCRDs: ["TestResource"]
+---
+
+# Updated TestResource Guide
+`;
+
+describe('Git data sources', () => {
+  let tempDir: string;
+  let workDir: string;
+  let bareRepo: string;
+  let cacheDir: string;
+  let v1Commit: string;
+  let mainCommit: string;
+
+  const git = (cwd: string, ...args: string[]) =>
+    execFileSync(
+      'git',
+      ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args],
+      { cwd, encoding: 'utf8' }
+    ).trim();
+
+  const load = (...dataDirs: string[]) =>
+    new DataLoader({
+      dataDir: dataDirs[0],
+      dataDirs,
+      verbose: false,
+      cacheDir,
+    }).loadAllData();
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'crdmcp-git-'));
+    workDir = join(tempDir, 'work');
+    bareRepo = join(tempDir, 'crds.git');
+    cacheDir = join(tempDir, 'cache');
+
+    fs.copySync(resolve(__dirname, '../fixtures'), workDir);
+    git(workDir, 'init', '--quiet', '--initial-branch=main');
+    git(workDir, 'add', '-A');
+    git(workDir, 'commit', '--quiet', '-m', 'Initial catalog');
+    git(workDir, 'tag', 'v1');
+    v1Commit = git(workDir, 'rev-parse', 'HEAD');
+
+    fs.outputFileSync(
+      join(workDir, 'instructions', 'test-guide.md'),
+      UPDATED_GUIDE
+    );
+    git(workDir, 'commit', '--quiet', '-am', 'Update guide');
+    mainCommit = git(workDir, 'rev-parse', 'HEAD');
+
+    git(tempDir, 'clone', '--quiet', '--bare', workDir, bareRepo);
+  });
+
+  afterAll(() => {
+    fs.removeSync(tempDir);
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should load data from a pinned tag and record the commit', async () => {
+    const data = await load(`git+file://${bareRepo}#v1`);
+
+    expect(data.statistics.sources).toHaveLength(1);
+    expect(data.statistics.sources![0]).toMatchObject({
+      url: `file://${bareRepo}`,
+      ref: 'v1',
+      commit: v1Commit,
+    });
+    expect(data.instructions[0].title).toBe('Test Resource Usage Guide');
+    expect(data.crds.has('example.com/TestResource')).toBe(true);
+  });
+
+  it('should load a branch and move the cached checkout to it', async () => {
+    await load(`git+file://${bareRepo}#v1`);
+    const data = await load(`git+file://${bareRepo}#main`);
+
+    expect(data.statistics.sources![0].commit).toBe(mainCommit);
+    expect(data.instructions[0].title).toBe('Updated TestResource Guide');
+  });
+
+  it("should use the remote's default branch when no ref is given", async () => {
+    const data = await load(`git+file://${bareRepo}`);
+
+    expect(data.statistics.sources![0].commit).toBe(mainCommit);
+  });
+
+  it('should layer a local directory over a git source', async () => {
+    const teamDir = join(tempDir, 'team');
+    fs.outputFileSync(
+      join(teamDir, 'instructions', 'test-guide.md'),
+      UPDATED_GUIDE
+    );
+
+    const data = await load(`git+file://${bareRepo}#v1`, teamDir);
+
+    expect(data.statistics.layers).toHaveLength(2);
+    expect(data.statistics.layers![1]).toBe(teamDir);
+    expect(data.instructions[0].title).toBe('Updated TestResource Guide');
+  });
+
+  it('should only report local layers as local data directories', async () => {
+    const teamDir = join(tempDir, 'team');
+    fs.ensureDirSync(teamDir);
+    const loader = new DataLoader({
+      dataDir: `git+file://${bareRepo}#v1`,
+      dataDirs: [`git+file://${bareRepo}#v1`, teamDir],
+      verbose: false,
+      cacheDir,
+    });
+
+    await loader.loadAllData();
+
+    expect(loader.dataDirectories).toHaveLength(2);
+    expect(loader.localDataDirectories).toEqual([teamDir]);
+  });
+
+  it('should report unknown refs', async () => {
+    await expect(load(`git+file://${bareRepo}#v9`)).rejects.toThrow(
+      'ref "v9" was not found'
+    );
+  });
+
+  it('should report unreachable repositories', async () => {
+    const resolver = new GitSourceResolver(cacheDir, createLogger(false));
+
+    await expect(
+      resolver.checkout(`git+file://${join(tempDir, 'missing.git')}#v1`)
+    ).rejects.toThrow('Failed to load data source');
+  });
+
+  describe('parseGitSource', () => {
+    it('should split the URL and ref', () => {
+      expect(
+        parseGitSource('git+https://example.com/platform/crds.git#v1.2.0')
+      ).toEqual({
+        url: 'https://example.com/platform/crds.git',
+        ref: 'v1.2.0',
+      });
+    });
+
+    it('should leave the ref undefined when omitted', () => {
+      expect(parseGitSource('git+file:///srv/crds.git')).toEqual({
+        url: 'file:///srv/crds.git',
+        ref: undefined,
+      });
+    });
+
+    it('should reject specs without the git+ prefix', () => {
+      expect(() => parseGitSource('/srv/crds')).toThrow(
+        'Not a git data source'
+      );
+    });
+  });
+});
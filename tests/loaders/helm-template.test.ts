@@ -0,0 +1,75 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  renderTemplate,
+  UnsupportedTemplateError,
+} from '../../src/loaders/helm-template.js';
+
+describe('renderTemplate', () => {
+  const context = {
+    Values: {
+      name: 'widget',
+      enabled: true,
+      disabled: false,
+      labels: { team: 'platform', tier: 'backend' },
+      empty: '',
+    },
+    Release: { Name: 'release-name' },
+    Chart: { Name: 'widget-operator' },
+  };
+
+  it('should substitute value lookups', () => {
+    expect(
+      renderTemplate('name: {{ .Release.Name }}-{{ .Values.name }}', context)
+    ).toBe('name: release-name-widget');
+  });
+
+  it('should apply pipelines to the previous result', () => {
+    expect(
+      renderTemplate(
+        'a: {{ .Values.missing | default "fallback" | quote }}\nb: {{ .Values.name | upper | trunc 3 }}',
+        context
+      )
+    ).toBe('a: "fallback"\nb: WID');
+  });
+
+  it('should render objects with toYaml and nindent', () => {
+    expect(
+      renderTemplate('labels:{{- toYaml .Values.labels | nindent 2 }}', context)
+    ).toBe('labels:\n  team: platform\n  tier: backend');
+  });
+
+  it('should evaluate if/else if/else and trim whitespace', () => {
+    const template = `{{- if .Values.disabled }}
+a
+{{- else if not .Values.enabled }}
+b
+{{- else }}
+c
+{{- end }}`;
+
+    expect(renderTemplate(template, context)).toBe('\nc');
+  });
+
+  it('should treat empty values as false', () => {
+    expect(
+      renderTemplate('{{ if .Values.empty }}yes{{ else }}no{{ end }}', context)
+    ).toBe('no');
+  });
+
+  it('should ignore comments', () => {
+    expect(renderTemplate('a{{/* note */}}b', context)).toBe('ab');
+  });
+
+  it.each([
+    ['{{ include "helper" . }}', 'function "include"'],
+    ['{{ range .Values.labels }}x{{ end }}', '{{ range }}'],
+    ['{{ $name := .Values.name }}', 'variables'],
+    ['{{ if .Values.enabled }}open', 'without {{ end }}'],
+    ['{{ required "name is required" .Values.missing }}', 'required value'],
+  ])('should reject unsupported template %s', (template, message) => {
+    expect(() => renderTemplate(template, context)).toThrow(
+      UnsupportedTemplateError
+    );
+    expect(() => renderTemplate(template, context)).toThrow(message);
+  });
+});
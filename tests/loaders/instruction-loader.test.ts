@@ -1,6 +1,11 @@
 import { describe, expect, it, beforeEach, jest } from '@jest/globals';
 import { InstructionLoader } from '../../src/loaders/instruction-loader.js';
 import { createLogger } from '../../src/utils/logger.js';
+import {
+  findSection,
+  parseSections,
+  sectionMarkdown,
+} from '../../src/utils/markdown.js';
 import { resolve } from 'path';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
@@ -141,5 +146,82 @@ describe('InstructionLoader', () => {
       expect(result.warnings).toBeDefined();
       expect(Array.isArray(result.warnings)).toBe(true);
     });
+
+    it('should split documents into a heading tree', async () => {
+      const fixturesDir = resolve(__dirname, '../fixtures');
+      loader = new InstructionLoader(fixturesDir, logger);
+
+      const result = await loader.loadInstructions();
+
+      const [root] = result.instructions[0].sections!;
+      expect(root.anchor).toBe('test-resource-usage-guide');
+      expect(root.children.map((section) => section.anchor)).toEqual([
+        'basic-configuration',
+        'best-practices',
+        'production-considerations',
+      ]);
+      expect(root.children[1].breadcrumbs).toEqual([
+        'Test Resource Usage Guide',
+      ]);
+    });
+  });
+
+  describe('parseSections', () => {
+    const RUNBOOK = [
+      'Read this before an upgrade.',
+      '',
+      '# Runbook',
+      '## Backups',
+      'Nightly snapshots.',
+      '### Restore',
+      '```bash',
+      '# restore the latest snapshot',
+      'kubectl apply -f restore.yaml',
+      '```',
+      '## Upgrades ##',
+      'Drain first.',
+      '## Backups',
+      'Weekly copies.',
+    ].join('\n');
+
+    it('should nest sections by heading level with breadcrumbs', () => {
+      const [intro, runbook] = parseSections(RUNBOOK);
+
+      expect(intro).toMatchObject({
+        anchor: 'introduction',
+        level: 0,
+        content: 'Read this before an upgrade.',
+      });
+      expect(runbook.children.map((section) => section.heading)).toEqual([
+        'Backups',
+        'Upgrades',
+        'Backups',
+      ]);
+
+      const restore = runbook.children[0].children[0];
+      expect(restore.breadcrumbs).toEqual(['Runbook', 'Backups']);
+      expect(restore.content).toContain('# restore the latest snapshot');
+    });
+
+    it('should give every heading a unique anchor', () => {
+      const sections = parseSections(RUNBOOK);
+
+      expect(findSection(sections, 'backups')!.content).toBe(
+        'Nightly snapshots.'
+      );
+      expect(findSection(sections, '#Backups-1')!.content).toBe(
+        'Weekly copies.'
+      );
+      expect(findSection(sections, 'upgrades')).toBeDefined();
+    });
+
+    it('should render a section with or without its subsections', () => {
+      const backups = findSection(parseSections(RUNBOOK), 'backups')!;
+
+      expect(sectionMarkdown(backups, false)).toBe(
+        '## Backups\n\nNightly snapshots.'
+      );
+      expect(sectionMarkdown(backups)).toContain('### Restore\n\n```bash');
+    });
   });
 });
\ No newline at end of file
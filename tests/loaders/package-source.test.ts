@@ -0,0 +1,256 @@
+import {
+  describe,
+  expect,
+  it,
+  beforeEach,
+  afterEach,
+  jest,
+} from '@jest/globals';
+import fs from 'fs-extra';
+import { execFileSync } from 'child_process';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { resolve, join } from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { DataLoader } from '../../src/loaders/index.js';
+import { CRDLoader } from '../../src/loaders/crd-loader.js';
+import { SampleLoader } from '../../src/loaders/sample-loader.js';
+import { createLogger } from '../../src/utils/logger.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const packagesDir = resolve(__dirname, '../fixtures/packages');
+
+const SAMPLE_WIDGET = `apiVersion: widgets.example.com/v1
+kind: Widget
+metadata:
+  name: {{ .Release.Name }}-widget
+spec:
+  size: {{ .Values.size | default "small" }}
+`;
+
+describe('Helm chart and kustomize sources', () => {
+  let dataDir: string;
+  let crdsDir: string;
+  const logger = createLogger(false);
+
+  const crdKinds = (crds: Map<string, unknown>) =>
+    Array.from(crds.keys()).sort();
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'crdmcp-packages-'));
+    crdsDir = join(dataDir, 'crds');
+    fs.ensureDirSync(crdsDir);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.removeSync(dataDir);
+    jest.restoreAllMocks();
+  });
+
+  describe('Helm charts', () => {
+    it('should load crds/ and rendered templates from a chart directory', async () => {
+      fs.copySync(
+        join(packagesDir, 'widget-operator'),
+        join(crdsDir, 'widget-operator')
+      );
+
+      const { crds, errors, warnings } = await new CRDLoader(
+        dataDir,
+        logger
+      ).loadCRDs();
+
+      expect(errors).toEqual([]);
+      expect(crdKinds(crds)).toEqual([
+        'widgets.example.com/Gadget',
+        'widgets.example.com/Widget',
+      ]);
+      expect(crds.get('widgets.example.com/Gadget')!.filePath).toBe(
+        join(crdsDir, 'widget-operator', 'templates/gadget-crd.yaml')
+      );
+      expect(crds.get('widgets.example.com/Gadget')!.scope).toBe('Namespaced');
+
+      // Templates using unsupported syntax are skipped, not parsed as YAML
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0]).toContain('Skipped template');
+      expect(warnings[0]).toContain('deployment.yaml');
+    });
+
+    it('should load a packaged chart archive', async () => {
+      execFileSync('tar', [
+        '-czf',
+        join(crdsDir, 'widget-operator-1.2.0.tgz'),
+        '-C',
+        packagesDir,
+        'widget-operator',
+      ]);
+
+      const { crds, errors } = await new CRDLoader(dataDir, logger).loadCRDs();
+
+      expect(errors).toEqual([]);
+      expect(crdKinds(crds)).toEqual([
+        'widgets.example.com/Gadget',
+        'widgets.example.com/Widget',
+      ]);
+      expect(crds.get('widgets.example.com/Widget')!.filePath).toBe(
+        `${join(crdsDir, 'widget-operator-1.2.0.tgz')}/crds/widgets.yaml`
+      );
+    });
+
+    it('should load CRDs from bundled subcharts', async () => {
+      const chartDir = join(crdsDir, 'platform');
+      fs.outputFileSync(
+        join(chartDir, 'Chart.yaml'),
+        'apiVersion: v2\nname: platform\nversion: 0.1.0\n'
+      );
+      fs.outputFileSync(
+        join(chartDir, 'values.yaml'),
+        'widget-operator:\n  crds:\n    install: false\n'
+      );
+      fs.copySync(
+        join(packagesDir, 'widget-operator'),
+        join(chartDir, 'charts', 'widget-operator')
+      );
+
+      const { crds } = await new CRDLoader(dataDir, logger).loadCRDs();
+
+      // The parent chart's values turn the templated Gadget CRD off
+      expect(crdKinds(crds)).toEqual(['widgets.example.com/Widget']);
+    });
+  });
+
+  describe('kustomizations', () => {
+    it('should expand resources, nested bases and crds', async () => {
+      fs.copySync(join(packagesDir, 'gears'), join(crdsDir, 'gears'));
+      fs.copySync(
+        resolve(__dirname, '../fixtures/crds/test-crd.yaml'),
+        join(crdsDir, 'test-crd.yaml')
+      );
+
+      const { crds, errors, warnings } = await new CRDLoader(
+        dataDir,
+        logger
+      ).loadCRDs();
+
+      expect(errors).toEqual([]);
+      expect(crdKinds(crds)).toEqual([
+        'example.com/TestResource',
+        'gears.example.com/Cog',
+        'gears.example.com/Sprocket',
+      ]);
+      expect(warnings.join('\n')).not.toContain('Duplicate CRD');
+      expect(warnings[0]).toContain('Skipped remote resource');
+    });
+
+    it('should report missing resources', async () => {
+      fs.outputFileSync(
+        join(crdsDir, 'broken', 'kustomization.yaml'),
+        'resources:\n  - missing.yaml\n'
+      );
+
+      const { errors } = await new CRDLoader(dataDir, logger).loadCRDs();
+
+      expect(errors[0]).toContain('Resource missing.yaml');
+      expect(errors[0]).toContain('does not exist');
+    });
+  });
+
+  describe('samples', () => {
+    it('should render sample templates with default values', async () => {
+      const chartDir = join(dataDir, 'samples', 'widget-samples');
+      fs.outputFileSync(
+        join(chartDir, 'Chart.yaml'),
+        'apiVersion: v2\nname: widget-samples\nversion: 0.1.0\n'
+      );
+      fs.outputFileSync(join(chartDir, 'values.yaml'), 'size: large\n');
+      fs.outputFileSync(
+        join(chartDir, 'templates', 'widget.yaml'),
+        SAMPLE_WIDGET
+      );
+
+      const { samples, errors } = await new SampleLoader(
+        dataDir,
+        logger
+      ).loadSamples();
+
+      expect(errors).toEqual([]);
+      const [widget] = samples.get('widgets.example.com/Widget')!;
+      expect(widget.metadata.name).toBe('release-name-widget');
+      expect(widget.content.spec.size).toBe('large');
+    });
+
+    it('should not pull in files from outside the data directory', async () => {
+      const outsideDir = mkdtempSync(join(tmpdir(), 'crdmcp-outside-'));
+      const secret = join(outsideDir, 'config.yaml');
+      fs.outputFileSync(
+        secret,
+        'apiVersion: v1\nkind: Config\nmetadata:\n  name: secret\n'
+      );
+      const kustomizeDir = join(dataDir, 'samples', 'leak');
+      fs.ensureSymlinkSync(outsideDir, join(kustomizeDir, 'linked'));
+      fs.outputFileSync(
+        join(kustomizeDir, 'kustomization.yaml'),
+        [
+          'resources:',
+          `  - ${secret}`,
+          `  - ${join('..', '..', '..', outsideDir.split('/').pop()!, 'config.yaml')}`,
+          '  - linked/config.yaml',
+          '',
+        ].join('\n')
+      );
+
+      try {
+        const { samples, errors } = await new SampleLoader(
+          dataDir,
+          logger
+        ).loadSamples();
+
+        expect(samples.size).toBe(0);
+        expect(errors).toHaveLength(3);
+        errors.forEach((error) =>
+          expect(error).toContain('is outside the data directory')
+        );
+      } finally {
+        fs.removeSync(outsideDir);
+      }
+    });
+  });
+
+  describe('reloading', () => {
+    it('should reload the whole chart when one of its files changes', async () => {
+      const chartDir = join(crdsDir, 'widget-operator');
+      fs.copySync(join(packagesDir, 'widget-operator'), chartDir);
+
+      const loader = new DataLoader({ dataDir, verbose: false });
+      await loader.loadAllData();
+
+      const valuesPath = join(chartDir, 'values.yaml');
+      fs.writeFileSync(valuesPath, 'crds:\n  install: false\n');
+      const { data, changed } = await loader.reloadFiles([valuesPath]);
+
+      expect(changed.crds).toBe(true);
+      expect(crdKinds(data.crds)).toEqual(['widgets.example.com/Widget']);
+    });
+
+    it('should fall back to plain files when a chart stops being one', async () => {
+      const chartDir = join(crdsDir, 'widget-operator');
+      fs.copySync(join(packagesDir, 'widget-operator'), chartDir);
+      fs.removeSync(join(chartDir, 'templates'));
+
+      const loader = new DataLoader({ dataDir, verbose: false });
+      await loader.loadAllData();
+
+      const chartFile = join(chartDir, 'Chart.yaml');
+      fs.removeSync(chartFile);
+      const { data } = await loader.reloadFiles([chartFile]);
+
+      expect(crdKinds(data.crds)).toEqual(['widgets.example.com/Widget']);
+      expect(data.crds.get('widgets.example.com/Widget')!.filePath).toBe(
+        join(chartDir, 'crds', 'widgets.yaml')
+      );
+    });
+  });
+});
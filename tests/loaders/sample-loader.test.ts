@@ -1,7 +1,11 @@
 import { describe, expect, it, beforeEach, jest } from '@jest/globals';
+import fs from 'fs-extra';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { gzipSync } from 'zlib';
 import { SampleLoader } from '../../src/loaders/sample-loader.js';
 import { createLogger } from '../../src/utils/logger.js';
-import { resolve } from 'path';
+import { join, resolve } from 'path';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
 
@@ -29,9 +33,9 @@ describe('SampleLoader', () => {
       const result = await loader.loadSamples();
 
       expect(result.samples.size).toBeGreaterThan(0);
-      expect(result.samples.has('TestResource')).toBe(true);
+      expect(result.samples.has('example.com/TestResource')).toBe(true);
 
-      const testSamples = result.samples.get('TestResource');
+      const testSamples = result.samples.get('example.com/TestResource');
       expect(testSamples).toBeDefined();
       expect(testSamples?.length).toBe(1);
 
@@ -49,7 +53,7 @@ describe('SampleLoader', () => {
       loader = new SampleLoader(fixturesDir, logger);
 
       const result = await loader.loadSamples();
-      const testSamples = result.samples.get('TestResource');
+      const testSamples = result.samples.get('example.com/TestResource');
       const sample = testSamples![0];
 
       // test-sample.yaml should have 'testing' tag
@@ -61,7 +65,7 @@ describe('SampleLoader', () => {
       loader = new SampleLoader(fixturesDir, logger);
 
       const result = await loader.loadSamples();
-      const testSamples = result.samples.get('TestResource');
+      const testSamples = result.samples.get('example.com/TestResource');
       const sample = testSamples![0];
 
       // Simple sample should have 'simple' complexity
@@ -73,7 +77,7 @@ describe('SampleLoader', () => {
       loader = new SampleLoader(fixturesDir, logger);
 
       const result = await loader.loadSamples();
-      const testSamples = result.samples.get('TestResource');
+      const testSamples = result.samples.get('example.com/TestResource');
       const sample = testSamples![0];
 
       expect(sample.description).toBeDefined();
@@ -87,10 +91,10 @@ describe('SampleLoader', () => {
       const result = await loader.loadSamples();
 
       // Check the samples map structure
-      result.samples.forEach((samples, kind) => {
+      result.samples.forEach((samples, key) => {
         expect(Array.isArray(samples)).toBe(true);
         samples.forEach((sample) => {
-          expect(sample.kind).toBe(kind);
+          expect(`${sample.group}/${sample.kind}`).toBe(key);
         });
       });
     });
@@ -124,7 +128,7 @@ describe('SampleLoader', () => {
       loader = new SampleLoader(fixturesDir, logger);
 
       const result = await loader.loadSamples();
-      const testSamples = result.samples.get('TestResource');
+      const testSamples = result.samples.get('example.com/TestResource');
       const sample = testSamples![0];
 
       expect(sample.metadata).toBeDefined();
@@ -132,5 +136,87 @@ describe('SampleLoader', () => {
       expect(sample.metadata.labels.environment).toBe('test');
       expect(sample.filePath).toContain('test-sample.yaml');
     });
+
+    it('should key samples by group/kind and keep the version', async () => {
+      const fixturesDir = resolve(__dirname, '../fixtures');
+      loader = new SampleLoader(fixturesDir, logger);
+
+      const result = await loader.loadSamples();
+      const sample = result.samples.get('example.com/TestResource')![0];
+
+      expect(result.samples.has('TestResource')).toBe(false);
+      expect(sample.group).toBe('example.com');
+      expect(sample.version).toBe('v1');
+    });
+
+    it('should load samples from gzipped JSON List files', async () => {
+      const dataDir = mkdtempSync(join(tmpdir(), 'crdmcp-samples-'));
+      const sample = (name: string) => ({
+        apiVersion: 'example.com/v1',
+        kind: 'TestResource',
+        metadata: { name },
+        spec: { enabled: true },
+      });
+      fs.outputFileSync(
+        join(dataDir, 'samples', 'prod-export.json.gz'),
+        gzipSync(
+          JSON.stringify({
+            apiVersion: 'v1',
+            kind: 'List',
+            items: [sample('first'), sample('second')],
+          })
+        )
+      );
+
+      try {
+        loader = new SampleLoader(dataDir, logger);
+        const result = await loader.loadSamples();
+        const samples = result.samples.get('example.com/TestResource')!;
+
+        expect(result.errors).toEqual([]);
+        expect(samples.map((s) => s.metadata.name)).toEqual([
+          'first',
+          'second',
+        ]);
+        expect(samples[0].tags).toContain('production');
+      } finally {
+        fs.removeSync(dataDir);
+      }
+    });
+
+    it('should keep the source text of each YAML document', async () => {
+      const dataDir = mkdtempSync(join(tmpdir(), 'crdmcp-samples-'));
+      const first = [
+        '# Small instance for development',
+        'apiVersion: example.com/v1',
+        'kind: TestResource',
+        'metadata:',
+        '  name: dev # not for production',
+        'spec:',
+        '  enabled: true',
+        '',
+      ].join('\n');
+      const second = [
+        'apiVersion: example.com/v1',
+        'kind: TestResource',
+        'metadata:',
+        '  name: staging',
+        '',
+      ].join('\n');
+      fs.outputFileSync(
+        join(dataDir, 'samples', 'environments.yaml'),
+        `---\n${first}---\n${second}`
+      );
+
+      try {
+        loader = new SampleLoader(dataDir, logger);
+        const result = await loader.loadSamples();
+        const samples = result.samples.get('example.com/TestResource')!;
+
+        expect(samples.map((s) => s.source)).toEqual([first, second]);
+      } finally {
+        fs.removeSync(dataDir);
+      }
+    });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from '@jest/globals';
+import { SearchIndex, tokenize } from '../../src/search/index.js';
+import { createTestData } from '../tools/test-data-helper.js';
+
+describe('SearchIndex', () => {
+  const index = new SearchIndex(createTestData());
+
+  describe('tokenize', () => {
+    it('should split identifiers and drop stop words', () => {
+      expect(tokenize('The PostgreSQLCluster for backups')).toEqual([
+        'postgresqlcluster',
+        'postgre',
+        'sql',
+        'cluster',
+        'postgresql',
+        'sqlcluster',
+        'backup',
+      ]);
+    });
+  });
+
+  it('should index CRDs, schemas, samples and instructions', () => {
+    const types = new Set(
+      index.search('test resource', { limit: 50 }).map((hit) => hit.type)
+    );
+
+    expect(types).toEqual(new Set(['crd', 'schema', 'sample', 'instruction']));
+  });
+
+  it('should rank the CRD first when searching for its kind', () => {
+    const [first] = index.search('PostgreSQLCluster');
+
+    expect(first.type).toBe('crd');
+    expect(first.id).toBe('databases.example.com/PostgreSQLCluster');
+  });
+
+  it('should match prefixes of longer terms', () => {
+    const hits = index.search('postgres', { types: ['crd'] });
+
+    expect(hits.map((hit) => hit.id)).toEqual([
+      'databases.example.com/PostgreSQLCluster',
+    ]);
+  });
+
+  it('should report matching schema fields', () => {
+    const [hit] = index.search('replicas', { types: ['schema'] });
+
+    expect(hit.resourceType).toBe('example.com/TestResource');
+    expect(hit.matchedFields).toContain('spec.replicas');
+    expect(hit.snippet).toContain('spec.replicas');
+  });
+
+  it('should return snippets around the first match', () => {
+    const [hit] = index.search('backup policies', { types: ['instruction'] });
+
+    expect(hit.title).toBe('PostgreSQL Cluster Setup');
+    expect(hit.snippet).toContain('Configure backup policies');
+  });
+
+  it('should filter by type and honour the limit', () => {
+    const hits = index.search('resource', { types: ['sample'], limit: 1 });
+
+    expect(hits).toHaveLength(1);
+    expect(hits[0].type).toBe('sample');
+  });
+
+  it('should return nothing for stop words or unknown terms', () => {
+    expect(index.search('the of and')).toEqual([]);
+    expect(index.search('kubernetesxyz')).toEqual([]);
+  });
+
+  it('should only return documents matching every term with matchAll', () => {
+    const any = index.search('postgres testing', { types: ['crd'] });
+    const all = index.search('postgres clusters', {
+      types: ['crd'],
+      matchAll: true,
+    });
+
+    expect(any).toHaveLength(2);
+    expect(all.map((hit) => hit.id)).toEqual([
+      'databases.example.com/PostgreSQLCluster',
+    ]);
+    expect(
+      index.search('postgres testing', { types: ['crd'], matchAll: true })
+    ).toEqual([]);
+  });
+
+  it('should key core samples the same way as the sample map', () => {
+    const data = createTestData();
+    const [sample] = data.samples.get('example.com/TestResource')!;
+    data.samples.set('core/Service', [
+      {
+        ...sample,
+        apiVersion: 'v1',
+        group: '',
+        kind: 'Service',
+        metadata: { name: 'web-frontend' },
+        filePath: '/test/service.yaml',
+      },
+    ]);
+
+    const [hit] = new SearchIndex(data).search('web-frontend', {
+      types: ['sample'],
+    });
+
+    expect(hit.resourceType).toBe('core/Service');
+  });
+});
@@ -0,0 +1,322 @@
+import {
+  describe,
+  expect,
+  it,
+  beforeEach,
+  afterEach,
+  jest,
+} from '@jest/globals';
+import fs from 'fs-extra';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { resolve, join } from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { DataLoader } from '../../src/loaders/index.js';
+import {
+  EmbeddingCache,
+  HashEmbeddingProvider,
+  SemanticIndex,
+  chunkInstruction,
+  createEmbeddingProvider,
+  type EmbeddingProvider,
+} from '../../src/search/semantic.js';
+import type { InstructionDocument } from '../../src/types/index.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const fixturesDir = resolve(__dirname, '../fixtures');
+
+const instruction = (
+  filePath: string,
+  content: string
+): InstructionDocument => ({
+  title: content.match(/^# (.+)$/m)?.[1] ?? filePath,
+  content,
+  filePath,
+  frontmatter: {},
+  detectedCRDs: [],
+  tags: [],
+});
+
+const CACHE_GUIDE = instruction(
+  '/guides/cache.md',
+  `# Caching
+
+Most services talk to a shared platform.
+
+## In-memory store
+
+Use the managed in-memory store for sessions and hot keys.
+
+## Snapshots
+
+Snapshots are taken every night.
+`
+);
+
+// Maps words onto a few concepts, standing in for a model that knows synonyms
+class ConceptProvider implements EmbeddingProvider {
+  readonly id = 'concepts';
+  embedded: string[] = [];
+
+  private concepts = [
+    ['redis', 'cache', 'memory', 'store', 'memcached'],
+    ['backup', 'snapshot', 'snapshots', 'restore'],
+    ['platform', 'services', 'shared'],
+  ];
+
+  async embed(texts: string[]): Promise<number[][]> {
+    this.embedded.push(...texts);
+    return texts.map((text) => {
+      const words = text.toLowerCase().split(/[^a-z]+/);
+      return this.concepts.map(
+        (concept) => words.filter((word) => concept.includes(word)).length
+      );
+    });
+  }
+}
+
+describe('semantic search', () => {
+  let cacheDir: string;
+
+  beforeEach(() => {
+    cacheDir = mkdtempSync(join(tmpdir(), 'crdmcp-embeddings-'));
+  });
+
+  afterEach(() => {
+    fs.removeSync(cacheDir);
+    jest.restoreAllMocks();
+  });
+
+  describe('chunkInstruction', () => {
+    it('should split a document into one chunk per heading', () => {
+      const chunks = chunkInstruction(CACHE_GUIDE);
+
+      expect(chunks.map((chunk) => chunk.id)).toEqual([
+        '/guides/cache.md#caching',
+        '/guides/cache.md#in-memory-store',
+        '/guides/cache.md#snapshots',
+      ]);
+      expect(chunks[1]).toEqual({
+        id: '/guides/cache.md#in-memory-store',
+        filePath: '/guides/cache.md',
+        title: 'Caching',
+        anchor: 'in-memory-store',
+        heading: 'In-memory store',
+        breadcrumbs: ['Caching'],
+        content:
+          '## In-memory store\n\nUse the managed in-memory store for sessions and hot keys.',
+      });
+    });
+
+    it('should ignore headings in code blocks and drop empty sections', () => {
+      const chunks = chunkInstruction(
+        instruction(
+          '/guides/setup.md',
+          [
+            'Read this first.',
+            '## Steps',
+            '## Example',
+            '```bash',
+            '# not a heading',
+            'kubectl apply -f cache.yaml',
+            '```',
+            '## Example',
+            'Another example.',
+          ].join('\n')
+        )
+      );
+
+      expect(chunks.map((chunk) => chunk.id)).toEqual([
+        '/guides/setup.md#introduction',
+        '/guides/setup.md#example',
+        '/guides/setup.md#example-1',
+      ]);
+      expect(chunks[0].heading).toBeUndefined();
+      expect(chunks[1].content).toContain('# not a heading');
+    });
+  });
+
+  describe('HashEmbeddingProvider', () => {
+    it('should return deterministic unit vectors', async () => {
+      const provider = new HashEmbeddingProvider();
+      const [a, b] = await provider.embed([
+        'backup schedules',
+        'backup schedules',
+      ]);
+
+      expect(a).toEqual(b);
+      expect(Math.hypot(...a)).toBeCloseTo(1);
+    });
+
+    it('should rank texts sharing words above unrelated ones', async () => {
+      const index = await SemanticIndex.build(
+        [CACHE_GUIDE],
+        new EmbeddingCache(new HashEmbeddingProvider())
+      );
+
+      const [first] = await index.search('nightly snapshots');
+
+      expect(first.id).toBe('/guides/cache.md#snapshots');
+    });
+  });
+
+  describe('SemanticIndex', () => {
+    it('should find sections by meaning rather than wording', async () => {
+      const index = await SemanticIndex.build(
+        [CACHE_GUIDE],
+        new EmbeddingCache(new ConceptProvider())
+      );
+
+      const hits = await index.search('Redis');
+
+      expect(hits).toHaveLength(1);
+      expect(hits[0]).toMatchObject({
+        heading: 'In-memory store',
+        score: 1,
+      });
+    });
+
+    it('should only search the given documents', async () => {
+      const index = await SemanticIndex.build(
+        [CACHE_GUIDE, instruction('/guides/redis.md', '# Redis\n\nRedis.')],
+        new EmbeddingCache(new ConceptProvider())
+      );
+
+      const hits = await index.search('redis', {
+        filePaths: ['/guides/redis.md'],
+      });
+
+      expect(hits.map((hit) => hit.filePath)).toEqual(['/guides/redis.md']);
+    });
+  });
+
+  describe('EmbeddingCache', () => {
+    it('should persist vectors and only embed new or changed chunks', async () => {
+      const filePath = join(cacheDir, 'embeddings', 'concepts.json');
+      const first = new ConceptProvider();
+      await SemanticIndex.build(
+        [CACHE_GUIDE],
+        new EmbeddingCache(first, filePath)
+      );
+      expect(first.embedded).toHaveLength(3);
+      expect(fs.existsSync(filePath)).toBe(true);
+
+      const edited = {
+        ...CACHE_GUIDE,
+        content: CACHE_GUIDE.content.replace('every night', 'hourly'),
+      };
+      const second = new ConceptProvider();
+      const index = await SemanticIndex.build(
+        [edited],
+        new EmbeddingCache(second, filePath)
+      );
+
+      expect(second.embedded).toEqual([
+        'Caching\n## Snapshots\n\nSnapshots are taken hourly.',
+      ]);
+      expect(index.size).toBe(3);
+      expect(Object.keys(fs.readJsonSync(filePath).vectors)).toHaveLength(3);
+    });
+
+    it('should ignore vectors cached for another provider', async () => {
+      const filePath = join(cacheDir, 'vectors.json');
+      fs.writeJsonSync(filePath, { provider: 'other', vectors: {} });
+      const provider = new ConceptProvider();
+
+      await new EmbeddingCache(provider, filePath).embed(['redis']);
+
+      expect(provider.embedded).toEqual(['redis']);
+      expect(fs.readJsonSync(filePath).provider).toBe('concepts');
+    });
+
+    it('should reject a provider returning the wrong number of vectors', async () => {
+      const provider: EmbeddingProvider = {
+        id: 'broken',
+        embed: async () => [],
+      };
+
+      await expect(
+        new EmbeddingCache(provider).embed(['redis'])
+      ).rejects.toThrow('returned 0 vectors for 1 texts');
+    });
+  });
+
+  describe('createEmbeddingProvider', () => {
+    it('should load a provider class from a module', async () => {
+      const modulePath = join(cacheDir, 'provider.mjs');
+      fs.writeFileSync(
+        modulePath,
+        [
+          'export default class {',
+          "  id = 'custom';",
+          '  async embed(texts) { return texts.map(() => [1, 0]); }',
+          '}',
+        ].join('\n')
+      );
+
+      const provider = await createEmbeddingProvider(modulePath);
+
+      expect(provider.id).toBe('custom');
+      expect(await provider.embed(['a'])).toEqual([[1, 0]]);
+    });
+
+    it('should reject a module without a provider', async () => {
+      const modulePath = join(cacheDir, 'empty.mjs');
+      fs.writeFileSync(modulePath, 'export default { id: 42 };\n');
+
+      await expect(createEmbeddingProvider(modulePath)).rejects.toThrow(
+        'does not export an embedding provider'
+      );
+    });
+  });
+
+  describe('with DataLoader', () => {
+    let dataDir: string;
+
+    beforeEach(() => {
+      dataDir = join(cacheDir, 'data');
+      fs.copySync(fixturesDir, dataDir);
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    it('should build the index and reuse it across unrelated reloads', async () => {
+      const loader = new DataLoader({
+        dataDir,
+        verbose: false,
+        embeddings: 'hash',
+        cacheDir,
+      });
+      const data = await loader.loadAllData();
+
+      expect(data.semanticIndex!.size).toBeGreaterThan(1);
+      expect(fs.existsSync(join(cacheDir, 'embeddings', 'hash-256.json'))).toBe(
+        true
+      );
+
+      const { data: reloaded } = await loader.reloadFiles([
+        join(dataDir, 'samples/test-sample.yaml'),
+      ]);
+      expect(reloaded.semanticIndex).toBe(data.semanticIndex);
+    });
+
+    it('should report a failing provider without failing the load', async () => {
+      const data = await new DataLoader({
+        dataDir,
+        verbose: false,
+        embeddings: join(cacheDir, 'missing-provider.js'),
+        cacheDir,
+      }).loadAllData();
+
+      expect(data.semanticIndex).toBeUndefined();
+      expect(data.instructions.length).toBeGreaterThan(0);
+      expect(data.statistics.errors).toEqual(
+        expect.arrayContaining([
+          expect.stringContaining('Failed to build semantic index'),
+        ])
+      );
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, expect, it } from '@jest/globals';
+import { AccessPatternsTool } from '../../src/tools/access-patterns-tool.js';
+import { createTestData } from './test-data-helper.js';
+
+describe('AccessPatternsTool', () => {
+  let tool: AccessPatternsTool;
+  let testData: ReturnType<typeof createTestData>;
+
+  beforeEach(() => {
+    testData = createTestData();
+    tool = new AccessPatternsTool(testData);
+  });
+
+  describe('basic functionality', () => {
+    it('should have correct name and description', () => {
+      expect(tool.name).toBe('get-access-patterns');
+      expect(tool.description).toContain('connect');
+    });
+
+    it('should have proper input schema', () => {
+      const schema = tool.inputSchema;
+      expect(schema.resourceType).toBeDefined();
+      expect(schema.name).toBeDefined();
+      expect(schema.namespace).toBeDefined();
+    });
+  });
+
+  describe('documented access patterns', () => {
+    beforeEach(() => {
+      testData.instructions[1].frontmatter.accessPatterns = {
+        secretName: '{{name}}-credentials',
+        secretKeys: ['username', 'password'],
+        port: 5432,
+        envVars: {
+          DATABASE_URL: 'postgres://{{name}}.{{namespace}}.svc:5432/app',
+        },
+        notes: 'Use the pooler for more than 50 connections',
+      };
+      tool = new AccessPatternsTool(testData);
+    });
+
+    it('should resolve frontmatter values for the instance', async () => {
+      const result = await tool.execute({
+        resourceType: 'PostgreSQLCluster',
+        name: 'orders-db',
+        namespace: 'shop',
+      });
+
+      expect(result.success).toBe(true);
+      const { connection } = result.data;
+      expect(connection.source).toBe('documented');
+      expect(connection.secretName).toBe('orders-db-credentials');
+      expect(connection.secretKeys).toEqual(['username', 'password']);
+      expect(connection.ports).toEqual([5432]);
+      expect(connection.serviceDNS).toBe('orders-db.shop.svc.cluster.local');
+      expect(connection.envVars.DATABASE_URL).toBe(
+        'postgres://orders-db.shop.svc:5432/app'
+      );
+      expect(result.data.documentedPatterns[0].source).toBe(
+        'PostgreSQL Cluster Setup'
+      );
+    });
+
+    it('should ignore entries scoped to another kind', async () => {
+      testData.instructions[1].frontmatter.accessPatterns = [
+        { kind: 'OtherKind', secretName: 'wrong' },
+        { kind: 'PostgreSQLCluster', secretName: 'right' },
+      ];
+
+      const result = await tool.execute({ resourceType: 'pg' });
+
+      expect(result.data.documentedPatterns).toHaveLength(1);
+      expect(result.data.connection.secretName).toBe('right');
+    });
+  });
+
+  describe('schema and conventions', () => {
+    it('should fall back to conventions when nothing is documented', async () => {
+      const result = await tool.execute({
+        resourceType: 'PostgreSQLCluster',
+        name: 'orders-db',
+      });
+
+      const { connection } = result.data;
+      expect(connection.source).toBe('convention');
+      expect(connection.ports).toEqual([5432]);
+      expect(connection.envVars.POSTGRE_SQL_CLUSTER_HOST).toBe(
+        'orders-db.default.svc.cluster.local'
+      );
+      expect(
+        result.suggestions?.some((s) => s.includes('accessPatterns'))
+      ).toBe(true);
+    });
+
+    it('should point the HOST variable at the documented service DNS', async () => {
+      testData.instructions[1].frontmatter.accessPatterns = {
+        serviceDNS: '{{name}}-pooler.{{namespace}}.svc',
+      };
+
+      const result = await tool.execute({
+        resourceType: 'PostgreSQLCluster',
+        name: 'orders-db',
+        namespace: 'shop',
+      });
+
+      const { connection } = result.data;
+      expect(connection.serviceDNS).toBe('orders-db-pooler.shop.svc');
+      expect(connection.envVars.POSTGRE_SQL_CLUSTER_HOST).toBe(
+        'orders-db-pooler.shop.svc'
+      );
+    });
+
+    it('should leave out the HOST variable for cluster-scoped resources', async () => {
+      testData.crds.get('databases.example.com/PostgreSQLCluster')!.scope =
+        'Cluster';
+
+      const result = await tool.execute({ resourceType: 'PostgreSQLCluster' });
+
+      const { connection } = result.data;
+      expect(connection.serviceDNS).toBeUndefined();
+      expect(connection.envVars).toEqual({ POSTGRE_SQL_CLUSTER_PORT: '5432' });
+    });
+
+    it('should report connection fields from the CRD schema', async () => {
+      const crd = testData.crds.get('databases.example.com/PostgreSQLCluster')!;
+      crd.storageVersion = 'v1';
+      crd.schemas = {
+        v1: {
+          type: 'object',
+          properties: {
+            spec: { type: 'object', properties: { replicas: { type: 'integer' } } },
+            status: {
+              type: 'object',
+              properties: {
+                connectionSecret: {
+                  type: 'string',
+                  description: 'Secret holding the credentials',
+                },
+              },
+            },
+          },
+        },
+      };
+
+      const result = await tool.execute({ resourceType: 'PostgreSQLCluster' });
+
+      expect(result.data.schemaFields).toEqual([
+        {
+          path: 'status.connectionSecret',
+          type: 'string',
+          description: 'Secret holding the credentials',
+          providedBy: 'operator',
+        },
+      ]);
+      expect(result.data.connection.secretFromField).toBe(
+        'status.connectionSecret'
+      );
+    });
+  });
+
+  describe('connection fields', () => {
+    it('should only report fields whose name is about connecting', async () => {
+      const field = { type: 'string' };
+      const crd = testData.crds.get('databases.example.com/PostgreSQLCluster')!;
+      crd.storageVersion = 'v1';
+      crd.schemas = {
+        v1: {
+          type: 'object',
+          properties: {
+            spec: {
+              type: 'object',
+              properties: {
+                support: field,
+                transport: field,
+                serviceAccountName: field,
+                hostNetwork: { type: 'boolean' },
+                hostPath: field,
+                reportInterval: field,
+                exportDir: field,
+                credentialsSecretRef: field,
+                servicePort: { type: 'integer' },
+                endpoints: { type: 'array' },
+              },
+            },
+          },
+        },
+      };
+
+      const result = await tool.execute({ resourceType: 'PostgreSQLCluster' });
+
+      expect(
+        result.data.schemaFields.map((field: any) => field.path)
+      ).toEqual([
+        'spec.credentialsSecretRef',
+        'spec.servicePort',
+        'spec.endpoints',
+      ]);
+      expect(result.data.connection.secretFromField).toBe(
+        'spec.credentialsSecretRef'
+      );
+    });
+  });
+
+  describe('errors', () => {
+    it('should return error for unknown resource type', async () => {
+      const result = await tool.execute({ resourceType: 'Postgres' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('not found');
+    });
+
+    it('should return error for missing resource type', async () => {
+      const result = await tool.execute({});
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('resourceType is required');
+    });
+  });
+});
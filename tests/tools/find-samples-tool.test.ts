@@ -39,6 +39,24 @@ describe('FindSamplesTool', () => {
       expect(result.data.samples[0].description).toBe('Simple test resource example');
     });
 
+    it('should flag samples using a deprecated version', async () => {
+      testData.crds.get('example.com/TestResource')!.versionDetails = [
+        {
+          name: 'v1',
+          served: true,
+          storage: true,
+          deprecated: true,
+          deprecationWarning: 'example.com/v1 TestResource is going away',
+        },
+      ];
+
+      const result = await tool.execute({ kind: 'TestResource' });
+
+      expect(result.data.samples[0].warning).toBe(
+        'example.com/v1 TestResource is going away'
+      );
+    });
+
     it('should find samples for PostgreSQL resource', async () => {
       const result = await tool.execute({
         kind: 'PostgreSQLCluster'
@@ -50,13 +68,44 @@ describe('FindSamplesTool', () => {
       expect(result.data.samples[0].description).toBe('Production PostgreSQL cluster');
     });
 
-    it('should return error for wrong case', async () => {
+    it('should resolve kinds case-insensitively', async () => {
       const result = await tool.execute({
-        kind: 'testresource' // Wrong case, should fail
+        kind: 'testresource'
       });
 
-      expect(result.success).toBe(false);
-      expect(result.error).toContain('No samples found');
+      expect(result.success).toBe(true);
+      expect(result.data.resourceType).toBe('example.com/TestResource');
+    });
+
+    it('should resolve group/kind and short names', async () => {
+      const byKey = await tool.execute({
+        kind: 'databases.example.com/PostgreSQLCluster'
+      });
+      const byShortName = await tool.execute({ kind: 'pg' });
+
+      expect(byKey.data.samples[0].metadata.name).toBe('prod-db');
+      expect(byShortName.data.resourceType).toBe('databases.example.com/PostgreSQLCluster');
+    });
+
+    it('should keep samples of same-named kinds in different groups apart', async () => {
+      const otherSample = {
+        ...testData.samples.get('example.com/TestResource')![0],
+        apiVersion: 'other.example.com/v1alpha1',
+        group: 'other.example.com',
+        version: 'v1alpha1',
+        metadata: { name: 'other-test' },
+      };
+      testData.samples.set('other.example.com/TestResource', [otherSample]);
+
+      const result = await tool.execute({
+        kind: 'other.example.com/TestResource'
+      });
+      const defaultResult = await tool.execute({ kind: 'example.com/TestResource' });
+
+      expect(result.data.samples).toHaveLength(1);
+      expect(result.data.samples[0].version).toBe('v1alpha1');
+      expect(defaultResult.data.samples).toHaveLength(1);
+      expect(defaultResult.data.samples[0].metadata.name).toBe('test-sample');
     });
 
     it('should return error for non-existent resource type', async () => {
@@ -280,6 +329,8 @@ describe('FindSamplesTool', () => {
       const advancedSample = {
         content: { apiVersion: 'example.com/v1', kind: 'TestResource' },
         apiVersion: 'example.com/v1',
+        group: 'example.com',
+        version: 'v1',
         kind: 'TestResource',
         metadata: { name: 'advanced-test' },
         filePath: '/test/advanced.yaml',
@@ -288,7 +339,7 @@ describe('FindSamplesTool', () => {
         complexity: 'advanced' as const,
       };
 
-      testData.samples.get('TestResource')?.push(advancedSample);
+      testData.samples.get('example.com/TestResource')?.push(advancedSample);
 
       const result = await tool.execute({
         kind: 'TestResource'
@@ -312,7 +363,7 @@ describe('FindSamplesTool', () => {
 
     it('should handle resource type with no samples', async () => {
       // Add a resource with no samples
-      testData.samples.set('NoSampleResource', []);
+      testData.samples.set('example.com/NoSampleResource', []);
 
       const result = await tool.execute({
         kind: 'NoSampleResource'
@@ -0,0 +1,237 @@
+import { describe, expect, it } from '@jest/globals';
+import { GenerateManifestTool } from '../../src/tools/generate-manifest-tool.js';
+import { ValidateManifestTool } from '../../src/tools/validate-manifest-tool.js';
+import { createTestData } from './test-data-helper.js';
+
+describe('GenerateManifestTool', () => {
+  let tool: GenerateManifestTool;
+  let testData: ReturnType<typeof createTestData>;
+
+  beforeEach(() => {
+    testData = createTestData();
+    tool = new GenerateManifestTool(testData);
+  });
+
+  describe('basic functionality', () => {
+    it('should have correct name and description', () => {
+      expect(tool.name).toBe('generate-manifest');
+      expect(tool.description).toContain('manifest skeleton');
+    });
+
+    it('should have proper input schema', () => {
+      const schema = tool.inputSchema;
+      expect(schema.resourceType).toBeDefined();
+      expect(schema.requirements).toBeDefined();
+      expect(schema.name).toBeDefined();
+      expect(schema.namespace).toBeDefined();
+      expect(schema.complexity).toBeDefined();
+      expect(schema.includeRBAC).toBeDefined();
+    });
+  });
+
+  describe('generation from samples', () => {
+    it('should use the closest sample as a base', async () => {
+      const result = await tool.execute({
+        resourceType: 'TestResource',
+        requirements: 'a simple test resource',
+        name: 'my-resource',
+        namespace: 'team-a',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.resourceType).toBe('example.com/TestResource');
+      expect(result.data.baseSample.filePath).toBe('/test/sample.yaml');
+
+      const manifest = result.data.manifest;
+      expect(manifest.apiVersion).toBe('example.com/v1');
+      expect(manifest.kind).toBe('TestResource');
+      expect(manifest.metadata).toEqual({ name: 'my-resource', namespace: 'team-a' });
+      expect(manifest.spec.replicas).toBe(3);
+      expect(manifest.spec.enabled).toBe(true);
+    });
+
+    it('should render the manifest as YAML', async () => {
+      const result = await tool.execute({
+        resourceType: 'example.com/TestResource',
+        requirements: 'test',
+      });
+
+      expect(result.data.yaml).toContain('kind: TestResource');
+      expect(result.data.yaml).toContain('apiVersion: example.com/v1');
+    });
+
+    it('should keep the comments of the base sample', async () => {
+      const result = await tool.execute({
+        resourceType: 'TestResource',
+        requirements: 'a simple test resource',
+        name: 'my-resource'
+      });
+
+      expect(result.data.yaml).toBe(
+        [
+          '# Simple test resource example',
+          'apiVersion: example.com/v1',
+          'kind: TestResource',
+          'metadata:',
+          '  name: my-resource',
+          '  namespace: default',
+          'spec:',
+          '  replicas: 3 # one per zone',
+          '  # Turns the resource on',
+          '  enabled: true',
+          ''
+        ].join('\n')
+      );
+    });
+
+    it('should produce a manifest that passes validation', async () => {
+      const result = await tool.execute({
+        resourceType: 'TestResource',
+        requirements: 'test',
+      });
+
+      const validation = await new ValidateManifestTool(testData).execute({
+        manifest: result.data.yaml,
+      });
+      expect(validation.data.valid).toBe(true);
+    });
+  });
+
+  describe('generation from schema', () => {
+    beforeEach(() => {
+      testData.samples.delete('example.com/TestResource');
+      tool = new GenerateManifestTool(testData);
+    });
+
+    it('should fill required fields and defaults', async () => {
+      const result = await tool.execute({
+        resourceType: 'TestResource',
+        requirements: 'anything',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.baseSample).toBeNull();
+      expect(result.data.manifest.spec).toEqual({ replicas: 1, enabled: false });
+      expect(result.data.manifest.metadata.name).toBe('example-testresource');
+      expect(result.data.manifest.metadata.namespace).toBe('default');
+    });
+
+    it('should add enum fields for intermediate complexity', async () => {
+      const result = await tool.execute({
+        resourceType: 'TestResource',
+        requirements: 'anything',
+        complexity: 'intermediate',
+      });
+
+      expect(result.data.manifest.spec.mode).toBe('standalone');
+      expect(result.data.manifest.spec.port).toBeUndefined();
+    });
+
+    it('should fill every field and report placeholders for advanced complexity', async () => {
+      const result = await tool.execute({
+        resourceType: 'TestResource',
+        requirements: 'anything',
+        complexity: 'advanced',
+      });
+
+      expect(result.data.manifest.spec.port).toBe('<port>');
+      expect(result.data.placeholders).toEqual(['spec.port']);
+      expect(result.suggestions?.some((s) => s.includes('spec.port'))).toBe(true);
+    });
+  });
+
+  describe('sample versions', () => {
+    it('should not merge the spec of a sample for another version', async () => {
+      const [sample] = testData.samples.get('example.com/TestResource')!;
+      sample.apiVersion = 'example.com/v1beta1';
+      sample.version = 'v1beta1';
+
+      const result = await tool.execute({
+        resourceType: 'TestResource',
+        requirements: 'a simple test resource',
+      });
+
+      expect(result.data.apiVersion).toBe('example.com/v1');
+      expect(result.data.manifest.spec.replicas).toBe(1); // schema default
+      expect(result.data.baseSample.specMerged).toBe(false);
+      expect(result.data.yaml).not.toContain('# one per zone');
+      expect(result.suggestions?.some((s) => s.includes('its spec was not merged'))).toBe(true);
+    });
+
+    it('should prefer a sample of the emitted version', async () => {
+      const samples = testData.samples.get('example.com/TestResource')!;
+      samples.unshift({
+        ...samples[0],
+        apiVersion: 'example.com/v1beta1',
+        version: 'v1beta1',
+        filePath: '/test/a-old-sample.yaml',
+      });
+
+      const result = await tool.execute({
+        resourceType: 'TestResource',
+        requirements: 'a simple test resource',
+      });
+
+      expect(result.data.baseSample.filePath).toBe('/test/sample.yaml');
+      expect(result.data.manifest.spec.replicas).toBe(3);
+    });
+  });
+
+  describe('RBAC', () => {
+    it('should add ServiceAccount, Role and RoleBinding', async () => {
+      const result = await tool.execute({
+        resourceType: 'TestResource',
+        requirements: 'test',
+        name: 'my-resource',
+        includeRBAC: true,
+      });
+
+      const kinds = result.data.documents.map((d: any) => d.kind);
+      expect(kinds).toEqual(['TestResource', 'ServiceAccount', 'Role', 'RoleBinding']);
+
+      const role = result.data.documents[2];
+      expect(role.rules[0].apiGroups).toEqual(['example.com']);
+      expect(role.rules[0].resources).toContain('testresources');
+
+      const binding = result.data.documents[3];
+      expect(binding.subjects[0].name).toBe('my-resource-manager');
+      expect(result.data.yaml.split('---').length).toBe(4);
+    });
+
+    it('should produce RBAC documents that pass validation', async () => {
+      const result = await tool.execute({
+        resourceType: 'TestResource',
+        requirements: 'test',
+        includeRBAC: true,
+      });
+
+      const validation = await new ValidateManifestTool(testData).execute({
+        manifest: result.data.yaml,
+      });
+
+      expect(validation.data.valid).toBe(true);
+      expect(validation.data.invalidCount).toBe(0);
+      expect(validation.data.skippedCount).toBe(3);
+    });
+  });
+
+  describe('errors', () => {
+    it('should return error for unknown resource type', async () => {
+      const result = await tool.execute({
+        resourceType: 'TestRes',
+        requirements: 'test',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('not found');
+      expect(result.suggestions?.some((s) => s.includes('TestResource'))).toBe(true);
+    });
+
+    it('should return error for missing resource type', async () => {
+      const result = await tool.execute({ requirements: 'test' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('resourceType is required');
+    });
+  });
+});
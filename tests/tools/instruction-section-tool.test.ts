@@ -0,0 +1,97 @@
+import { describe, expect, it, beforeEach } from '@jest/globals';
+import { InstructionSectionTool } from '../../src/tools/instruction-section-tool.js';
+import { createTestData } from './test-data-helper.js';
+
+describe('InstructionSectionTool', () => {
+  let tool: InstructionSectionTool;
+
+  beforeEach(() => {
+    tool = new InstructionSectionTool(createTestData());
+  });
+
+  it('should have correct name and input schema', () => {
+    expect(tool.name).toBe('get-instruction-section');
+    expect(tool.inputSchema.filePath).toBeDefined();
+    expect(tool.inputSchema.anchor).toBeDefined();
+  });
+
+  it('should return a section with breadcrumbs and neighbours', async () => {
+    const result = await tool.execute({
+      filePath: '/test/test-guide.md',
+      anchor: 'basic-configuration',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({
+      title: 'Test Resource Guide',
+      anchor: 'basic-configuration',
+      heading: 'Basic Configuration',
+      level: 2,
+      breadcrumbs: ['Test Resource Guide'],
+      previous: 'test-resource-guide',
+      next: 'best-practices',
+    });
+    expect(result.data.content).toMatch(/^## Basic Configuration\n\n/);
+    expect(result.data.content).toContain('kind: TestResource');
+    expect(result.data.content).not.toContain('## Best Practices');
+  });
+
+  it('should include subsections unless asked not to', async () => {
+    const args = {
+      filePath: '/test/db-guide.md',
+      anchor: 'postgresql-cluster-setup',
+    };
+
+    const full = await tool.execute(args);
+    const own = await tool.execute({ ...args, includeSubsections: false });
+
+    expect(full.data.subsections).toEqual([
+      { anchor: 'production-guidelines', heading: 'Production Guidelines' },
+    ]);
+    expect(full.data.content).toContain('## Production Guidelines');
+    expect(own.data.content).toBe(
+      '# PostgreSQL Cluster Setup\n\nConfigure PostgreSQL clusters for production use.'
+    );
+  });
+
+  it('should return the outline without an anchor', async () => {
+    const result = await tool.execute({ filePath: 'db-guide.md' });
+
+    expect(result.success).toBe(true);
+    expect(result.data.filePath).toBe('/test/db-guide.md');
+    expect(result.data.outline).toEqual([
+      {
+        anchor: 'postgresql-cluster-setup',
+        heading: 'PostgreSQL Cluster Setup',
+        level: 1,
+      },
+      {
+        anchor: 'production-guidelines',
+        heading: 'Production Guidelines',
+        level: 2,
+      },
+    ]);
+  });
+
+  it('should suggest documents for an unknown path', async () => {
+    const result = await tool.execute({
+      filePath: '/test/db-guides.md',
+      anchor: 'production-guidelines',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Instruction document not found');
+    expect(result.suggestions![0]).toContain('/test/db-guide.md');
+  });
+
+  it('should suggest anchors for an unknown section', async () => {
+    const result = await tool.execute({
+      filePath: '/test/db-guide.md',
+      anchor: 'production-guideline',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Section "production-guideline" not found');
+    expect(result.suggestions).toContain('Did you mean: production-guidelines');
+  });
+});
@@ -1,5 +1,6 @@
-import { describe, expect, it } from '@jest/globals';
+import { describe, expect, it, jest } from '@jest/globals';
 import { ListResourcesTool } from '../../src/tools/list-resources-tool.js';
+import { SearchIndex } from '../../src/search/index.js';
 import { createTestData } from './test-data-helper.js';
 
 describe('ListResourcesTool', () => {
@@ -64,6 +65,52 @@ describe('ListResourcesTool', () => {
       expect(result.metadata?.filterApplied.category).toBe('database');
     });
 
+    it('should offer the categories present in the data', () => {
+      expect(tool.inputSchema.category.unwrap().options).toEqual([
+        'database',
+        'service',
+      ]);
+    });
+
+    it('should follow custom categories after a data update', async () => {
+      const trading = {
+        ...testData.crds.get('example.com/TestResource')!,
+        kind: 'Order',
+        category: 'trading',
+      };
+      testData.crds.set('example.com/Order', trading);
+      testData.catalog = {
+        categories: [{ name: 'trading', description: 'Order routing' }],
+      };
+      tool.updateData(testData);
+
+      const schema = tool.inputSchema.category;
+      expect(schema.unwrap().options).toContain('trading');
+      expect(schema.description).toContain('trading (Order routing)');
+
+      const result = await tool.execute({ category: 'trading' });
+      expect(result.data.resources.map((r: any) => r.kind)).toEqual(['Order']);
+    });
+
+    it('should filter by spec.names.categories and return printer columns', async () => {
+      const testResource = testData.crds.get('example.com/TestResource')!;
+      testResource.categories = ['all', 'testing'];
+      testResource.printerColumns = {
+        v1: [{ name: 'Enabled', type: 'boolean', jsonPath: '.spec.enabled' }],
+      };
+      tool.updateData(testData);
+
+      expect(tool.inputSchema.category.unwrap().options).toContain('all');
+
+      const result = await tool.execute({ category: 'all' });
+      expect(result.success).toBe(true);
+      expect(result.data.resources).toHaveLength(1);
+      expect(result.data.resources[0].categories).toEqual(['all', 'testing']);
+      expect(result.data.resources[0].printerColumns).toEqual([
+        { name: 'Enabled', type: 'boolean', jsonPath: '.spec.enabled' },
+      ]);
+    });
+
     it('should return error when category has no matches', async () => {
       const result = await tool.execute({ category: 'nonexistent' as any });
 
@@ -97,6 +144,28 @@ describe('ListResourcesTool', () => {
       expect(result.data.resources).toHaveLength(1);
       expect(result.data.resources[0].kind).toBe('TestResource');
     });
+
+    it('should match every word of the search through the search index', async () => {
+      const index = new SearchIndex(testData);
+      testData.searchIndex = index;
+      const search = jest.spyOn(index, 'search');
+
+      const result = await tool.execute({ search: 'postgresql clusters' });
+
+      expect(search).toHaveBeenCalled();
+      expect(result.success).toBe(true);
+      expect(result.data.resources).toHaveLength(1);
+      expect(result.data.resources[0].kind).toBe('PostgreSQLCluster');
+    });
+
+    it('should suggest similar resources from the search index', async () => {
+      const result = await tool.execute({ search: 'postgres backups' });
+
+      expect(result.success).toBe(false);
+      expect(result.suggestions).toContain(
+        'Did you mean one of these resources: databases.example.com/PostgreSQLCluster?'
+      );
+    });
   });
 
   describe('filtering by group', () => {
@@ -150,10 +219,13 @@ describe('ListResourcesTool', () => {
       expect(result.suggestions?.some(s => s.includes('get-resource-details'))).toBe(true);
     });
 
-    it('should include category-specific suggestions', async () => {
+    it('should point to documented access patterns', async () => {
       const result = await tool.execute({ category: 'database' });
+      expect(result.suggestions?.some(s => s.includes('get-access-patterns'))).toBe(false);
 
-      expect(result.suggestions?.some(s => s.includes('database'))).toBe(true);
+      testData.instructions[1].frontmatter.accessPatterns = { port: 5432 };
+      const withPatterns = await tool.execute({ category: 'database' });
+      expect(withPatterns.suggestions?.some(s => s.includes('get-access-patterns'))).toBe(true);
     });
   });
 
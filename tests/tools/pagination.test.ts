@@ -0,0 +1,162 @@
+import { describe, expect, it, beforeEach } from '@jest/globals';
+import { ListResourcesTool } from '../../src/tools/list-resources-tool.js';
+import { FindSamplesTool } from '../../src/tools/find-samples-tool.js';
+import { ToolRegistry } from '../../src/tools/index.js';
+import { responseSize, trimToBudget } from '../../src/utils/budget.js';
+import type { LoadedData } from '../../src/types/index.js';
+import { createTestData } from './test-data-helper.js';
+
+describe('pagination and response budgets', () => {
+  let data: LoadedData;
+
+  beforeEach(() => {
+    data = createTestData();
+    const [sample] = data.samples.get('example.com/TestResource')!;
+    data.samples.set(
+      'example.com/TestResource',
+      Array.from({ length: 12 }, (_, i) => ({
+        ...sample,
+        description: `Sample ${String(i).padStart(2, '0')}`,
+        filePath: `/test/sample-${i}.yaml`,
+        content: `${sample.content}\n# ${'x'.repeat(400)}`,
+      }))
+    );
+  });
+
+  describe('cursors', () => {
+    it('should page through a list with nextCursor', async () => {
+      const tool = new ListResourcesTool(data);
+
+      const first = await tool.execute({ limit: 1 });
+      expect(first.data.resources).toHaveLength(1);
+      expect(first.data.totalCount).toBe(2);
+      expect(first.metadata!.pagination).toEqual({
+        field: 'resources',
+        offset: 0,
+        limit: 1,
+        returned: 1,
+        total: 2,
+      });
+
+      const second = await tool.execute({
+        limit: 1,
+        cursor: first.metadata!.nextCursor,
+      });
+      expect(second.success).toBe(true);
+      expect(second.data.resources[0].resourceType).not.toBe(
+        first.data.resources[0].resourceType
+      );
+      expect(second.metadata!.pagination.offset).toBe(1);
+      expect(second.metadata!.nextCursor).toBeUndefined();
+    });
+
+    it('should reject a cursor from a different query', async () => {
+      const tool = new FindSamplesTool(data);
+      const first = await tool.execute({ kind: 'TestResource', limit: 5 });
+
+      const result = await tool.execute({
+        kind: 'TestResource',
+        complexity: 'simple',
+        cursor: first.metadata!.nextCursor,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('cursor belongs to a different query');
+    });
+
+    it('should reject a malformed cursor', async () => {
+      const result = await new ListResourcesTool(data).execute({
+        cursor: 'not-a-cursor',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid cursor "not-a-cursor"');
+    });
+  });
+
+  describe('applyBudget', () => {
+    it('should leave results within budget untouched', async () => {
+      const tool = new ListResourcesTool(data);
+      const result = await tool.execute({});
+
+      expect(tool.applyBudget(result, {})).toBe(result);
+    });
+
+    it('should drop trailing items and point the cursor at them', async () => {
+      const tool = new FindSamplesTool(data);
+      const args = { kind: 'TestResource', maxBytes: 3000 };
+
+      const trimmed = tool.applyBudget(await tool.execute(args), args);
+
+      const kept = trimmed.data.samples.length;
+      expect(kept).toBeGreaterThan(0);
+      expect(kept).toBeLessThan(12);
+      expect(responseSize(trimmed.data)).toBeLessThanOrEqual(3000);
+      expect(trimmed.metadata!.trimmed).toMatchObject({
+        maxBytes: 3000,
+        droppedItems: 12 - kept,
+      });
+      expect(trimmed.metadata!.pagination.returned).toBe(kept);
+      expect(trimmed.suggestions!.at(-1)).toContain('Response trimmed');
+
+      const next = await tool.execute({
+        ...args,
+        cursor: trimmed.metadata!.nextCursor,
+      });
+      expect(next.data.samples[0].description).toBe(
+        `Sample ${String(kept).padStart(2, '0')}`
+      );
+    });
+
+    it('should convert maxTokens to bytes and trim deterministically', async () => {
+      const tool = new FindSamplesTool(data);
+      const args = { kind: 'TestResource', maxTokens: 500, maxBytes: 5000 };
+
+      const a = tool.applyBudget(await tool.execute(args), args);
+      const b = tool.applyBudget(await tool.execute(args), args);
+
+      expect(a.metadata!.trimmed.maxBytes).toBe(2000);
+      expect(a.data).toEqual(b.data);
+      expect(a.metadata!.nextCursor).toBe(b.metadata!.nextCursor);
+    });
+
+    it('should be applied by the registry to every tool', async () => {
+      const registry = new ToolRegistry(data);
+
+      const result = await registry.executeTool('find-samples', {
+        kind: 'TestResource',
+        maxBytes: 2000,
+      });
+
+      expect(result.metadata!.trimmed).toBeDefined();
+      expect(
+        registry
+          .getToolDefinitions()
+          .every((definition) => definition.inputSchema.maxTokens)
+      ).toBe(true);
+    });
+  });
+
+  describe('trimToBudget', () => {
+    it('should shorten long strings when a single item does not fit', () => {
+      const data = { items: [{ text: 'a'.repeat(5000) }], note: 'kept' };
+
+      const result = trimToBudget(data, 1000, 'items');
+
+      expect(result.bytes).toBeLessThanOrEqual(1000);
+      expect(result.itemsKept).toBeUndefined();
+      expect(result.stringsShortened).toBe(1);
+      expect(result.data.items[0].text).toMatch(/… \[\d+ more characters\]$/);
+      expect(result.data.note).toBe('kept');
+    });
+
+    it('should cut other arrays as a last resort', () => {
+      const data = { values: Array.from({ length: 500 }, (_, i) => i) };
+
+      const result = trimToBudget(data, 500);
+
+      expect(result.bytes).toBeLessThanOrEqual(500);
+      expect(result.arraysShortened).toEqual(['/values']);
+    });
+  });
+});
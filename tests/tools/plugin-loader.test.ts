@@ -0,0 +1,125 @@
+import { describe, expect, it, beforeEach, jest } from '@jest/globals';
+import { PluginLoader } from '../../src/tools/plugin-loader.js';
+import { ToolRegistry } from '../../src/tools/index.js';
+import { createLogger } from '../../src/utils/logger.js';
+import { createTestData } from './test-data-helper.js';
+import { resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const pluginsDir = resolve(__dirname, '../fixtures/plugins');
+const brokenPluginsDir = resolve(__dirname, '../fixtures/broken-plugins');
+
+describe('PluginLoader', () => {
+  let loader: PluginLoader;
+  let registry: ToolRegistry;
+  let testData: ReturnType<typeof createTestData>;
+
+  beforeEach(() => {
+    const logger = createLogger(false);
+    jest.spyOn(logger, 'debug').mockImplementation(() => {});
+    jest.spyOn(logger, 'info').mockImplementation(() => {});
+
+    testData = createTestData();
+    registry = new ToolRegistry(testData);
+    loader = new PluginLoader(logger);
+  });
+
+  describe('loading tools', () => {
+    it('should register class and factory exports from a directory', async () => {
+      const result = await loader.loadPlugins([pluginsDir], registry, testData);
+
+      expect(result.errors).toEqual([]);
+      expect(result.loaded.map((p) => p.name).sort()).toEqual([
+        'estimate-cost',
+        'lookup-owner',
+      ]);
+      expect(registry.getToolNames()).toContain('estimate-cost');
+      expect(registry.getToolNames()).toContain('lookup-owner');
+    });
+
+    it('should pass the loaded data to plugin tools', async () => {
+      await loader.loadPlugins([pluginsDir], registry, testData);
+
+      const result = await registry.executeTool('estimate-cost', {});
+      expect(result.data.resourceTypes).toBe(2);
+
+      const owner = await registry.executeTool('lookup-owner', {
+        resourceType: 'TestResource',
+      });
+      expect(owner.data.owner).toBe('platform-team');
+    });
+
+    it('should keep plugin tools up to date after updateData', async () => {
+      await loader.loadPlugins([pluginsDir], registry, testData);
+
+      const updated = createTestData();
+      updated.crds.delete('example.com/TestResource');
+      registry.updateData(updated);
+
+      const result = await registry.executeTool('estimate-cost', {});
+      expect(result.data.resourceTypes).toBe(1);
+    });
+
+    it('should record where each plugin tool came from', async () => {
+      const file = resolve(pluginsDir, 'ownership.mjs');
+      await loader.loadPlugins([file], registry, testData);
+
+      expect(registry.getPluginTools()).toEqual([
+        { name: 'lookup-owner', source: file },
+      ]);
+    });
+  });
+
+  describe('error handling', () => {
+    it('should reject tools that collide with existing names', async () => {
+      const result = await loader.loadPlugins(
+        [resolve(brokenPluginsDir, 'conflicting.mjs')],
+        registry,
+        testData
+      );
+
+      expect(result.loaded).toEqual([]);
+      expect(result.errors[0]).toContain(
+        'Tool "list-available-resources" from'
+      );
+      expect(result.errors[0]).toContain('conflicts with a built-in tool');
+    });
+
+    it('should reject the same tool loaded twice', async () => {
+      const file = resolve(pluginsDir, 'cost-estimator.mjs');
+      await loader.loadPlugins([file], registry, testData);
+      const result = await loader.loadPlugins([file], registry, testData);
+
+      expect(result.errors[0]).toContain(`conflicts with ${file}`);
+    });
+
+    it('should report modules that are not valid tools', async () => {
+      const result = await loader.loadPlugins(
+        [
+          resolve(brokenPluginsDir, 'invalid.mjs'),
+          resolve(brokenPluginsDir, 'empty.mjs'),
+        ],
+        registry,
+        testData
+      );
+
+      expect(result.errors).toHaveLength(2);
+      expect(result.errors[0]).toContain('missing description, inputSchema, execute');
+      expect(result.errors[1]).toContain('does not export any tools');
+    });
+
+    it('should report missing plugin paths', async () => {
+      const result = await loader.loadPlugins(
+        ['/nonexistent/plugin.js'],
+        registry,
+        testData
+      );
+
+      expect(result.errors[0]).toContain('Plugin path does not exist');
+    });
+  });
+});
@@ -84,6 +84,23 @@ describe('ResourceDetailsTool', () => {
       expect(resource.category).toBe('database');
     });
 
+    it('should include names.categories and printer columns for the version', async () => {
+      const testResource = testData.crds.get('example.com/TestResource')!;
+      testResource.categories = ['all'];
+      testResource.printerColumns = {
+        v1: [{ name: 'Mode', type: 'string', jsonPath: '.spec.mode' }],
+      };
+
+      const result = await tool.execute({
+        resourceType: 'TestResource'
+      });
+
+      expect(result.data.metadata.categories).toEqual(['all']);
+      expect(result.data.printerColumns).toEqual([
+        { name: 'Mode', type: 'string', jsonPath: '.spec.mode' },
+      ]);
+    });
+
     it('should include available samples', async () => {
       const result = await tool.execute({
         resourceType: 'TestResource'
@@ -106,6 +123,103 @@ describe('ResourceDetailsTool', () => {
       expect(result.data.instructions.length).toBe(1);
       expect(result.data.instructions[0].title).toBe('Test Resource Guide');
     });
+
+    it('should build the basic usage example from the schema', async () => {
+      const result = await tool.execute({
+        resourceType: 'TestResource'
+      });
+
+      const spec = result.data.usageExamples[0].example.spec;
+      expect(spec.replicas).toBe(1);
+      expect(spec).toHaveProperty('enabled');
+      expect(spec).not.toHaveProperty('port');
+    });
+  });
+
+  describe('versions', () => {
+    it('should default to the newest served version without a storage version', async () => {
+      const testResource = testData.crds.get('example.com/TestResource')!;
+      testResource.storageVersion = undefined;
+      testResource.versions = ['v1alpha1', 'v1', 'v2beta1', 'v2'];
+      testResource.versionDetails = [
+        { name: 'v1alpha1', served: true, storage: false },
+        { name: 'v1', served: true, storage: false },
+        { name: 'v2beta1', served: true, storage: false },
+        { name: 'v2', served: false, storage: false },
+      ];
+
+      const result = await tool.execute({ resourceType: 'TestResource' });
+
+      expect(result.metadata?.schemaVersion).toBe('v1');
+      expect(result.data.usageExamples[0].apiVersion).toBe('example.com/v1');
+      expect(result.data.metadata.versionDetails).toHaveLength(4);
+    });
+
+    it('should warn when the requested version is deprecated', async () => {
+      testData.crds.get('example.com/TestResource')!.versionDetails = [
+        { name: 'v1', served: true, storage: true, deprecated: true },
+      ];
+
+      const result = await tool.execute({
+        resourceType: 'TestResource',
+        version: 'v1'
+      });
+
+      expect(result.data.schema.warning).toBe(
+        'example.com/v1 TestResource is deprecated'
+      );
+      expect(result.suggestions?.[0]).toBe(result.data.schema.warning);
+    });
+  });
+
+  describe('schema', () => {
+    it('should return the field tree for the storage version', async () => {
+      const result = await tool.execute({
+        resourceType: 'TestResource'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.schema.version).toBe('v1');
+      expect(result.data.schema.available).toBe(true);
+
+      const spec = result.data.schema.fields.find((f: any) => f.name === 'spec');
+      expect(spec.type).toBe('object');
+
+      const fields = Object.fromEntries(
+        spec.fields.map((f: any) => [f.name, f])
+      );
+      expect(fields.enabled.required).toBe(true);
+      expect(fields.enabled.description).toBe('Whether the resource is active');
+      expect(fields.replicas.required).toBe(false);
+      expect(fields.replicas.default).toBe(1);
+      expect(fields.replicas.minimum).toBe(1);
+      expect(fields.replicas.path).toBe('spec.replicas');
+      expect(fields.mode.enum).toEqual(['standalone', 'cluster']);
+      expect(fields.port.type).toBe('int-or-string');
+    });
+
+    it('should return an error for an unknown version', async () => {
+      const result = await tool.execute({
+        resourceType: 'TestResource',
+        version: 'v9'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('v9');
+      expect(result.suggestions?.[0]).toContain('v1');
+    });
+
+    it('should report when no schema is available', async () => {
+      const result = await tool.execute({
+        resourceType: 'PostgreSQLCluster',
+        version: 'v1beta1'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.schema.version).toBe('v1beta1');
+      expect(result.data.schema.available).toBe(false);
+      expect(result.data.schema.fields).toEqual([]);
+    });
   });
 
   describe('include related resources', () => {
@@ -161,6 +275,19 @@ describe('ResourceDetailsTool', () => {
       expect(result.suggestions).toBeDefined();
       expect(result.suggestions?.some(s => s.includes('find-samples'))).toBe(true);
       expect(result.suggestions?.some(s => s.includes('get-resource-guidance'))).toBe(true);
+      expect(result.suggestions?.some(s => s.includes('get-access-patterns'))).toBe(false);
+    });
+
+    it('should point to access patterns documented by its guides', async () => {
+      testData.instructions[0].frontmatter.accessPatterns = [
+        { serviceDNS: '{{name}}.{{namespace}}.svc', port: 8080 }
+      ];
+
+      const result = await tool.execute({
+        resourceType: 'TestResource'
+      });
+
+      expect(result.suggestions?.some(s => s.includes('get-access-patterns'))).toBe(true);
     });
 
     it('should provide similar resources for not found', async () => {
@@ -1,6 +1,11 @@
 import { describe, expect, it } from '@jest/globals';
 import { ResourceGuidanceTool } from '../../src/tools/resource-guidance-tool.js';
 import { createTestData } from './test-data-helper.js';
+import {
+  EmbeddingCache,
+  HashEmbeddingProvider,
+  SemanticIndex
+} from '../../src/search/semantic.js';
 
 describe('ResourceGuidanceTool', () => {
   let tool: ResourceGuidanceTool;
@@ -68,6 +73,16 @@ describe('ResourceGuidanceTool', () => {
       expect(result.data.guidance).toHaveLength(1);
     });
 
+    it('should match the kind of a group/kind resource type', async () => {
+      const result = await tool.execute({
+        resourceType: 'databases.example.com/PostgreSQLCluster'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.guidance).toHaveLength(1);
+      expect(result.data.guidance[0].title).toBe('PostgreSQL Cluster Setup');
+    });
+
     it('should return empty for non-existent resource type', async () => {
       const result = await tool.execute({
         resourceType: 'NonExistentResource'
@@ -277,6 +292,114 @@ describe('ResourceGuidanceTool', () => {
       expect(result.suggestions).toBeDefined();
       expect(result.suggestions?.some(s => s.includes('Available tags'))).toBe(true);
     });
+
+    it('should point to access patterns documented by the guides', async () => {
+      const result = await tool.execute({ category: 'database' });
+      expect(result.suggestions?.some(s => s.includes('get-access-patterns'))).toBe(false);
+
+      testData.instructions[1].frontmatter.accessPatterns = { port: 5432 };
+      const withPatterns = await tool.execute({ category: 'database' });
+      expect(withPatterns.suggestions?.some(s => s.includes('get-access-patterns'))).toBe(true);
+    });
+  });
+
+  describe('long documents', () => {
+    it('should return the most relevant sections with an outline', async () => {
+      const filler = 'Install the operator before creating clusters. '.repeat(60);
+      testData.instructions.push({
+        title: 'Redis Runbook',
+        content: `# Redis Runbook
+
+## Installation
+
+${filler}
+
+## Failover
+
+Promote a replica when the primary fails.
+
+## Upgrades
+
+${filler}
+`,
+        filePath: '/test/redis-runbook.md',
+        frontmatter: { applicableCRDs: ['RedisCluster'] },
+        detectedCRDs: ['redis'],
+        tags: ['redis', 'failover'],
+      });
+
+      const result = await tool.execute({
+        resourceType: 'RedisCluster',
+        tags: ['failover']
+      });
+
+      expect(result.success).toBe(true);
+      const [guidance] = result.data.guidance;
+      expect(guidance.content).toBeUndefined();
+      expect(guidance.sections).toEqual([
+        {
+          anchor: 'failover',
+          heading: 'Failover',
+          breadcrumbs: ['Redis Runbook'],
+          content: 'Promote a replica when the primary fails.'
+        }
+      ]);
+      expect(guidance.outline.map((entry: any) => entry.anchor)).toEqual([
+        'redis-runbook',
+        'installation',
+        'failover',
+        'upgrades'
+      ]);
+      expect(result.suggestions?.some(s => s.includes('get-instruction-section'))).toBe(true);
+    });
+  });
+
+  describe('free-text query', () => {
+    it('should rank documents by keyword search without embeddings', async () => {
+      const result = await tool.execute({
+        query: 'backup policies'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.guidance[0].title).toBe('PostgreSQL Cluster Setup');
+      expect(result.data.sections).toBeUndefined();
+      expect(result.metadata?.retrieval).toBe('keyword');
+    });
+
+    it('should return the best-matching sections with embeddings', async () => {
+      testData.semanticIndex = await SemanticIndex.build(
+        testData.instructions,
+        new EmbeddingCache(new HashEmbeddingProvider())
+      );
+
+      const result = await tool.execute({
+        query: 'monitor resource usage regularly'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.sections[0]).toMatchObject({
+        id: '/test/test-guide.md#best-practices',
+        heading: 'Best Practices'
+      });
+      expect(result.data.guidance[0].title).toBe('Test Resource Guide');
+      expect(result.metadata?.retrieval).toBe('semantic');
+    });
+
+    it('should only search documents matching the other criteria', async () => {
+      testData.semanticIndex = await SemanticIndex.build(
+        testData.instructions,
+        new EmbeddingCache(new HashEmbeddingProvider())
+      );
+
+      const result = await tool.execute({
+        category: 'database',
+        query: 'monitor resource usage regularly'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.guidance).toHaveLength(1);
+      expect(result.data.sections.every((section: any) => section.filePath === '/test/db-guide.md')).toBe(true);
+    });
   });
 
   describe('metadata', () => {
@@ -0,0 +1,77 @@
+import { describe, expect, it } from '@jest/globals';
+import { SearchTool } from '../../src/tools/search-tool.js';
+import { createTestData } from './test-data-helper.js';
+
+describe('SearchTool', () => {
+  let tool: SearchTool;
+  let testData: ReturnType<typeof createTestData>;
+
+  beforeEach(() => {
+    testData = createTestData();
+    tool = new SearchTool(testData);
+  });
+
+  describe('basic functionality', () => {
+    it('should have correct name and input schema', () => {
+      expect(tool.name).toBe('search');
+      expect(tool.inputSchema.query).toBeDefined();
+      expect(tool.inputSchema.types).toBeDefined();
+      expect(tool.inputSchema.limit).toBeDefined();
+    });
+  });
+
+  describe('searching', () => {
+    it('should return ranked hits of mixed types', async () => {
+      const result = await tool.execute({ query: 'postgresql production' });
+
+      expect(result.success).toBe(true);
+      const ids = result.data.results.map((hit: any) => hit.id);
+      expect(ids.slice(0, 3).sort()).toEqual([
+        '/test/db-guide.md',
+        '/test/db-sample.yaml#PostgreSQLCluster/prod-db',
+        'databases.example.com/PostgreSQLCluster',
+      ]);
+      expect(result.suggestions).toContain(
+        'Use "get-resource-guidance" to read the matching instruction documents in full'
+      );
+    });
+
+    it('should only return the requested types', async () => {
+      const result = await tool.execute({
+        query: 'resource',
+        types: ['instruction'],
+      });
+
+      expect(
+        result.data.results.every((hit: any) => hit.type === 'instruction')
+      ).toBe(true);
+    });
+
+    it('should use a fresh index after a data update', async () => {
+      testData.crds.get('example.com/TestResource')!.description =
+        'Handles zebra crossings';
+      testData.searchIndex = undefined;
+      tool.updateData(testData);
+
+      const result = await tool.execute({ query: 'zebra' });
+
+      expect(result.data.results[0].id).toBe('example.com/TestResource');
+    });
+  });
+
+  describe('error handling', () => {
+    it('should require a query', async () => {
+      const result = await tool.execute({ query: '  ' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('query is required');
+    });
+
+    it('should report when nothing matches', async () => {
+      const result = await tool.execute({ query: 'nonexistentterm' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('No results found');
+    });
+  });
+});
@@ -1,4 +1,9 @@
-import type { LoadedData, CRDMetadata, SampleManifest, InstructionDocument } from '../../src/types/index.js';
+import type {
+  LoadedData,
+  CRDMetadata,
+  SampleManifest,
+  InstructionDocument,
+} from '../../src/types/index.js';
 
 export function createTestData(): LoadedData {
   // Create test CRDs
@@ -10,6 +15,38 @@ export function createTestData(): LoadedData {
     shortNames: ['test', 'tr'],
     scope: 'Namespaced',
     versions: ['v1'],
+    storageVersion: 'v1',
+    schemas: {
+      v1: {
+        type: 'object',
+        description: 'Test resource schema',
+        properties: {
+          spec: {
+            type: 'object',
+            properties: {
+              replicas: {
+                type: 'integer',
+                minimum: 1,
+                maximum: 10,
+                default: 1,
+              },
+              enabled: {
+                type: 'boolean',
+                description: 'Whether the resource is active',
+              },
+              mode: {
+                type: 'string',
+                enum: ['standalone', 'cluster'],
+              },
+              port: {
+                'x-kubernetes-int-or-string': true,
+              },
+            },
+            required: ['enabled'],
+          },
+        },
+      },
+    },
     filePath: '/test/crd.yaml',
     description: 'A test resource for unit testing',
     category: 'service',
@@ -46,7 +83,22 @@ export function createTestData(): LoadedData {
         enabled: true,
       },
     },
+    source: [
+      '# Simple test resource example',
+      'apiVersion: example.com/v1',
+      'kind: TestResource',
+      'metadata:',
+      '  name: test-sample',
+      '  namespace: default',
+      'spec:',
+      '  replicas: 3 # one per zone',
+      '  # Turns the resource on',
+      '  enabled: true',
+      '',
+    ].join('\n'),
     apiVersion: 'example.com/v1',
+    group: 'example.com',
+    version: 'v1',
     kind: 'TestResource',
     metadata: {
       name: 'test-sample',
@@ -73,6 +125,8 @@ export function createTestData(): LoadedData {
       },
     },
     apiVersion: 'databases.example.com/v1',
+    group: 'databases.example.com',
+    version: 'v1',
     kind: 'PostgreSQLCluster',
     metadata: {
       name: 'prod-db',
@@ -85,8 +139,8 @@ export function createTestData(): LoadedData {
   };
 
   const samples = new Map<string, SampleManifest[]>();
-  samples.set('TestResource', [testSample]);
-  samples.set('PostgreSQLCluster', [dbSample]);
+  samples.set('example.com/TestResource', [testSample]);
+  samples.set('databases.example.com/PostgreSQLCluster', [dbSample]);
 
   // Create test instructions
   const testInstruction: InstructionDocument = {
@@ -165,4 +219,4 @@ For production deployments:
       warnings: [],
     },
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,392 @@
+import { describe, expect, it } from '@jest/globals';
+import { ValidateManifestTool } from '../../src/tools/validate-manifest-tool.js';
+import { createTestData } from './test-data-helper.js';
+
+describe('ValidateManifestTool', () => {
+  let tool: ValidateManifestTool;
+  let testData: ReturnType<typeof createTestData>;
+
+  beforeEach(() => {
+    testData = createTestData();
+    tool = new ValidateManifestTool(testData);
+  });
+
+  describe('basic functionality', () => {
+    it('should have correct name and description', () => {
+      expect(tool.name).toBe('validate-manifest');
+      expect(tool.description).toContain('Validates');
+    });
+
+    it('should have proper input schema', () => {
+      const schema = tool.inputSchema;
+      expect(schema).toBeDefined();
+      expect(schema.manifest).toBeDefined();
+    });
+  });
+
+  describe('valid manifests', () => {
+    it('should accept a manifest matching the schema', async () => {
+      const result = await tool.execute({
+        manifest: `apiVersion: example.com/v1
+kind: TestResource
+metadata:
+  name: my-test
+  namespace: default
+spec:
+  enabled: true
+  replicas: 3
+  port: http
+`
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.valid).toBe(true);
+      expect(result.data.results[0].resourceType).toBe('example.com/TestResource');
+      expect(result.data.results[0].errors).toEqual([]);
+    });
+
+    it('should accept integers for int-or-string fields', async () => {
+      const result = await tool.execute({
+        manifest: `apiVersion: example.com/v1
+kind: TestResource
+metadata:
+  name: my-test
+spec:
+  enabled: true
+  port: 8080
+`
+      });
+
+      expect(result.data.valid).toBe(true);
+    });
+  });
+
+  describe('metadata constraints', () => {
+    beforeEach(() => {
+      const schema = testData.crds.get('example.com/TestResource')!.schemas!.v1;
+      schema.properties.metadata = {
+        type: 'object',
+        properties: { name: { type: 'string', maxLength: 10 } }
+      };
+    });
+
+    it('should allow other metadata fields when the schema constrains the name', async () => {
+      const result = await tool.execute({
+        manifest: `apiVersion: example.com/v1
+kind: TestResource
+metadata:
+  name: my-test
+  namespace: team-a
+  labels:
+    app: web
+  annotations:
+    owner: team-a
+spec:
+  enabled: true
+`
+      });
+
+      expect(result.data.results[0].errors).toEqual([]);
+      expect(result.data.valid).toBe(true);
+    });
+
+    it('should still enforce the name constraint', async () => {
+      const result = await tool.execute({
+        manifest: `apiVersion: example.com/v1
+kind: TestResource
+metadata:
+  name: a-name-that-is-too-long
+spec:
+  enabled: true
+`
+      });
+
+      expect(result.data.valid).toBe(false);
+      expect(result.data.results[0].errors[0].path).toBe('/metadata/name');
+    });
+  });
+
+  describe('schema errors', () => {
+    it('should report missing required fields with JSON pointers', async () => {
+      const result = await tool.execute({
+        manifest: `apiVersion: example.com/v1
+kind: TestResource
+metadata:
+  name: my-test
+spec:
+  replicas: 3
+`
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.valid).toBe(false);
+      const errors = result.data.results[0].errors;
+      expect(errors).toContainEqual(
+        expect.objectContaining({ path: '/spec/enabled', keyword: 'required' })
+      );
+    });
+
+    it('should report type, enum and range violations', async () => {
+      const result = await tool.execute({
+        manifest: `apiVersion: example.com/v1
+kind: TestResource
+metadata:
+  name: my-test
+spec:
+  enabled: "yes"
+  replicas: 20
+  mode: sharded
+  port: true
+`
+      });
+
+      const paths = result.data.results[0].errors.map((e: any) => e.path);
+      expect(paths).toContain('/spec/enabled');
+      expect(paths).toContain('/spec/replicas');
+      expect(paths).toContain('/spec/mode');
+      expect(paths).toContain('/spec/port');
+    });
+
+    it('should reject unknown fields', async () => {
+      const result = await tool.execute({
+        manifest: `apiVersion: example.com/v1
+kind: TestResource
+metadata:
+  name: my-test
+spec:
+  enabled: true
+  replica: 3
+`
+      });
+
+      expect(result.data.valid).toBe(false);
+      expect(result.data.results[0].errors[0]).toMatchObject({
+        path: '/spec/replica',
+        keyword: 'additionalProperties',
+      });
+    });
+
+    it('should allow unknown fields under x-kubernetes-preserve-unknown-fields', async () => {
+      testData.crds.get('example.com/TestResource')!.schemas!.v1.properties.spec.properties.config = {
+        type: 'object',
+        'x-kubernetes-preserve-unknown-fields': true,
+      };
+      tool = new ValidateManifestTool(testData);
+
+      const result = await tool.execute({
+        manifest: `apiVersion: example.com/v1
+kind: TestResource
+metadata:
+  name: my-test
+spec:
+  enabled: true
+  config:
+    anything: goes
+`
+      });
+
+      expect(result.data.valid).toBe(true);
+    });
+
+    it('should require a metadata name', async () => {
+      const result = await tool.execute({
+        manifest: `apiVersion: example.com/v1
+kind: TestResource
+metadata: {}
+spec:
+  enabled: true
+`
+      });
+
+      expect(result.data.results[0].errors[0].path).toBe('/metadata/name');
+    });
+  });
+
+  describe('resource resolution', () => {
+    it('should report unknown resource types', async () => {
+      const result = await tool.execute({
+        manifest: `apiVersion: example.com/v1
+kind: TestResourc
+metadata:
+  name: my-test
+`
+      });
+
+      expect(result.data.valid).toBe(false);
+      expect(result.data.results[0].errors[0].message).toContain('No CRD loaded');
+      expect(result.data.results[0].didYouMean).toContain('example.com/TestResource');
+    });
+
+    it('should skip resource types without a loaded CRD', async () => {
+      const result = await tool.execute({
+        manifest: `apiVersion: v1
+kind: ServiceAccount
+metadata:
+  name: runner
+---
+apiVersion: rbac.authorization.k8s.io/v1
+kind: Role
+metadata:
+  name: runner
+`
+      });
+
+      expect(result.data.valid).toBe(true);
+      expect(result.data.invalidCount).toBe(0);
+      expect(result.data.skippedCount).toBe(2);
+      expect(result.data.results[0]).toMatchObject({ valid: true, validated: false, errors: [] });
+      expect(result.data.results[0].warnings[0].message).toBe(
+        'No CRD loaded for core/ServiceAccount; the document was not validated'
+      );
+    });
+
+    it('should skip only the documents whose schema does not compile', async () => {
+      // \_ is not a valid escape in a Unicode regular expression
+      testData.crds.get('databases.example.com/PostgreSQLCluster')!.schemas = {
+        v1: {
+          type: 'object',
+          properties: {
+            spec: {
+              type: 'object',
+              properties: { database: { type: 'string', pattern: '^[a-z\\_]+$' } }
+            }
+          }
+        }
+      };
+
+      const result = await tool.execute({
+        manifest: `apiVersion: databases.example.com/v1
+kind: PostgreSQLCluster
+metadata:
+  name: db
+spec:
+  database: app_db
+---
+apiVersion: example.com/v1
+kind: TestResource
+metadata:
+  name: bad
+spec: {}
+`
+      });
+
+      expect(result.success).toBe(true);
+      const [skipped, invalid] = result.data.results;
+      expect(skipped).toMatchObject({ valid: true, validated: false, errors: [] });
+      expect(skipped.warnings[0].message).toContain(
+        'The PostgreSQLCluster v1 schema could not be compiled'
+      );
+      expect(invalid.valid).toBe(false);
+      expect(invalid.errors[0].path).toBe('/spec/enabled');
+      expect(result.data.skippedCount).toBe(1);
+      expect(result.data.invalidCount).toBe(1);
+    });
+
+    it('should report undefined versions', async () => {
+      const result = await tool.execute({
+        manifest: `apiVersion: example.com/v2
+kind: TestResource
+metadata:
+  name: my-test
+`
+      });
+
+      expect(result.data.results[0].errors[0].path).toBe('/apiVersion');
+    });
+
+    it('should warn about deprecated and unserved versions', async () => {
+      const testResource = testData.crds.get('example.com/TestResource')!;
+      testResource.versions = ['v1', 'v1beta1', 'v1alpha1'];
+      testResource.versionDetails = [
+        { name: 'v1', served: true, storage: true },
+        { name: 'v1beta1', served: true, storage: false, deprecated: true },
+        { name: 'v1alpha1', served: false, storage: false },
+      ];
+
+      const result = await tool.execute({
+        manifest: `apiVersion: example.com/v1beta1
+kind: TestResource
+metadata:
+  name: old
+---
+apiVersion: example.com/v1alpha1
+kind: TestResource
+metadata:
+  name: older
+`
+      });
+
+      const [deprecated, unserved] = result.data.results;
+      expect(deprecated.valid).toBe(true);
+      expect(deprecated.warnings[0].message).toBe(
+        'example.com/v1beta1 TestResource is deprecated; use example.com/v1 instead'
+      );
+      expect(unserved.warnings[0].message).toContain('is not served');
+      expect(result.suggestions?.[0]).toContain('Document 0: example.com/v1beta1');
+    });
+
+    it('should validate every document in a multi-document manifest', async () => {
+      const result = await tool.execute({
+        manifest: `apiVersion: example.com/v1
+kind: TestResource
+metadata:
+  name: good
+spec:
+  enabled: true
+---
+apiVersion: example.com/v1
+kind: TestResource
+metadata:
+  name: bad
+spec: {}
+`
+      });
+
+      expect(result.data.documentCount).toBe(2);
+      expect(result.data.invalidCount).toBe(1);
+      expect(result.data.results[0].valid).toBe(true);
+      expect(result.data.results[1].valid).toBe(false);
+      expect(result.data.results[1].name).toBe('bad');
+    });
+  });
+
+  describe('data updates', () => {
+    it('should validate against the new schema after updateData', async () => {
+      const manifest = `apiVersion: example.com/v1
+kind: TestResource
+metadata:
+  name: my-test
+spec:
+  enabled: true
+  size: large
+`;
+      const before = await tool.execute({ manifest });
+      expect(before.data.valid).toBe(false);
+
+      const updated = createTestData();
+      updated.crds.get('example.com/TestResource')!.schemas!.v1.properties.spec.properties.size = {
+        type: 'string',
+      };
+      tool.updateData(updated);
+
+      const after = await tool.execute({ manifest });
+      expect(after.data.valid).toBe(true);
+    });
+  });
+
+  describe('input errors', () => {
+    it('should return error for invalid YAML', async () => {
+      const result = await tool.execute({ manifest: 'kind: [unclosed' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Failed to parse YAML');
+    });
+
+    it('should return error for missing manifest', async () => {
+      const result = await tool.execute({});
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('manifest is required');
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, expect, it } from '@jest/globals';
+import { load } from 'js-yaml';
+import { dumpWithComments, splitYamlDocuments } from '../../src/utils/yaml.js';
+
+const lines = (...text: string[]) => `${text.join('\n')}\n`;
+
+describe('YAML helpers', () => {
+  describe('splitYamlDocuments', () => {
+    it('should keep comments between documents with the next one', () => {
+      const documents = splitYamlDocuments(
+        lines(
+          '# first',
+          'a: 1',
+          '---',
+          '# second',
+          '---',
+          'b: 2',
+          '...',
+          '# trailing'
+        )
+      );
+
+      expect(documents).toEqual([
+        lines('# first', 'a: 1'),
+        lines('# second', 'b: 2', '# trailing'),
+      ]);
+    });
+  });
+
+  describe('dumpWithComments', () => {
+    it('should return plain YAML without a source', () => {
+      expect(dumpWithComments({ a: 1 })).toBe('a: 1\n');
+    });
+
+    it('should move comments onto the same keys and list items', () => {
+      const source = lines(
+        'spec:',
+        '  containers:',
+        '  # main container',
+        '  - name: app # the workload',
+        '    image: "app:1" # pinned "#1"',
+        '  - name: sidecar',
+        '    # proxies traffic',
+        '    image: proxy',
+        '  ports:',
+        '  - 80 # http'
+      );
+      const value = load(source) as any;
+      value.spec.containers[1].image = 'proxy:2';
+
+      expect(dumpWithComments(value, source)).toBe(
+        lines(
+          'spec:',
+          '  containers:',
+          '    # main container',
+          '    - name: app # the workload',
+          '      image: app:1 # pinned "#1"',
+          '    - name: sidecar',
+          '      # proxies traffic',
+          '      image: proxy:2',
+          '  ports:',
+          '    - 80 # http'
+        )
+      );
+    });
+
+    it('should not read comments inside block scalars', () => {
+      const source = lines(
+        'script: |',
+        '  # not a comment',
+        '  echo hi',
+        '# about the port',
+        'port: 80'
+      );
+
+      expect(dumpWithComments(load(source), source)).toBe(
+        lines(
+          'script: |',
+          '  # not a comment',
+          '  echo hi',
+          '# about the port',
+          'port: 80'
+        )
+      );
+    });
+
+    it('should not read comments inside list item block scalars', () => {
+      const source = lines(
+        'steps:',
+        '- |',
+        '  # not a comment',
+        '  run: me',
+        '- name: build # the build'
+      );
+
+      expect(dumpWithComments(load(source), source)).toBe(
+        lines(
+          'steps:',
+          '  - |',
+          '    # not a comment',
+          '    run: me',
+          '  - name: build # the build'
+        )
+      );
+    });
+
+    it('should not read comments inside multi-line quoted scalars', () => {
+      const source = lines(
+        'message: "hello # not inline',
+        '  # not a comment',
+        '  world"',
+        'port: 80 # http'
+      );
+
+      expect(dumpWithComments(load(source), source)).toBe(
+        lines(
+          "message: 'hello # not inline # not a comment world'",
+          'port: 80 # http'
+        )
+      );
+    });
+
+    it('should keep comments around flow collections', () => {
+      const source = lines(
+        'ports: [80, 443] # web',
+        '# passed to the binary',
+        'args: [',
+        '  "--verbose", # dropped',
+        '  "--color",',
+        ']',
+        'env: {',
+        '  LEVEL: debug, # noisy',
+        '}',
+        '# about the port',
+        'port: 80'
+      );
+
+      expect(dumpWithComments(load(source), source)).toBe(
+        lines(
+          'ports: # web',
+          '  - 80',
+          '  - 443',
+          '# passed to the binary',
+          'args:',
+          "  - '--verbose'",
+          "  - '--color'",
+          'env:',
+          '  LEVEL: debug # noisy',
+          '# about the port',
+          'port: 80'
+        )
+      );
+    });
+
+    it('should drop comments on keys that are gone', () => {
+      const source = lines('# header', 'a: 1 # one', 'b: 2 # two');
+
+      expect(dumpWithComments({ b: 3 }, source)).toBe(
+        lines('# header', 'b: 3 # two')
+      );
+    });
+  });
+});